@@ -1,13 +1,27 @@
-import { Body, Controller, Delete, Get, Param, Post, UseGuards } from '@nestjs/common';
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
 import { AdminGuard } from './admin.guard';
 import { UsersService } from '../users/users.service';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
 import { SubscriptionTier } from '../subscriptions/subscription.entity';
-
-interface UpdateSubscriptionDto {
-  tier: SubscriptionTier;
-  expiresAt?: string | null;
-}
+import { TwoFactorService } from '../auth/two-factor.service';
+import { LoginThrottleService } from '../auth/login-throttle.service';
+import { AppSettingsService, REQUIRE_ADMIN_TWO_FACTOR } from '../settings/app-settings.service';
+import { SecuritySettingsDto } from './dto/security-settings.dto';
+import { UpdateSubscriptionDto } from './dto/update-subscription.dto';
 
 interface UserWithSubscription {
   id: string;
@@ -31,6 +45,9 @@ export class AdminController {
   constructor(
     private readonly usersService: UsersService,
     private readonly subscriptionsService: SubscriptionsService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly appSettingsService: AppSettingsService,
+    private readonly loginThrottleService: LoginThrottleService,
   ) {}
 
   /**
@@ -111,5 +128,49 @@ export class AdminController {
       isPremium: subscription.isPremium(),
     };
   }
-}
 
+  /**
+   * Lift a login lockout caused by failed password attempts
+   */
+  @Post('users/:id/unlock')
+  @HttpCode(HttpStatus.OK)
+  async unlockUser(@Param('id') userId: string): Promise<{ unlocked: boolean }> {
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+    return { unlocked: await this.loginThrottleService.unlock(user.email) };
+  }
+
+  /**
+   * Get security policies
+   */
+  @Get('security')
+  async getSecuritySettings(): Promise<SecuritySettingsDto> {
+    return {
+      requireTwoFactorForAdmins: await this.appSettingsService.get(REQUIRE_ADMIN_TWO_FACTOR, false),
+    };
+  }
+
+  /**
+   * Update security policies. Requiring 2FA for admins is only allowed once
+   * the calling admin has it enabled, so they don't lock themselves out.
+   */
+  @Put('security')
+  async updateSecuritySettings(
+    @Request() req: any,
+    @Body() body: SecuritySettingsDto,
+  ): Promise<SecuritySettingsDto> {
+    if (body.requireTwoFactorForAdmins && !(await this.twoFactorService.isEnabled(req.user.id))) {
+      throw new BadRequestException(
+        'Ative a autenticação em dois fatores na sua conta antes de exigi-la dos administradores.',
+      );
+    }
+    await this.appSettingsService.set(
+      REQUIRE_ADMIN_TWO_FACTOR,
+      body.requireTwoFactorForAdmins,
+      req.user.id,
+    );
+    return { requireTwoFactorForAdmins: body.requireTwoFactorForAdmins };
+  }
+}
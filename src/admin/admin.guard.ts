@@ -1,8 +1,11 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { TwoFactorService } from '../auth/two-factor.service';
 
 @Injectable()
 export class AdminGuard implements CanActivate {
-  canActivate(context: ExecutionContext): boolean {
+  constructor(private readonly twoFactorService: TwoFactorService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
     const user = request.user;
 
@@ -14,7 +17,15 @@ export class AdminGuard implements CanActivate {
       throw new ForbiddenException('Admin access required');
     }
 
+    // Under the 2FA policy the admin area stays closed until the admin enrolls
+    // via /auth/2fa/setup, which this guard does not cover.
+    if (
+      (await this.twoFactorService.isRequiredFor(user)) &&
+      !(await this.twoFactorService.isEnabled(user.id))
+    ) {
+      throw new ForbiddenException('Two-factor authentication required for admin access');
+    }
+
     return true;
   }
 }
-
@@ -3,9 +3,11 @@ import { AdminController } from './admin.controller';
 import { AdminGuard } from './admin.guard';
 import { UsersModule } from '../users/users.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { AuthModule } from '../auth/auth.module';
+import { SettingsModule } from '../settings/settings.module';
 
 @Module({
-  imports: [UsersModule, SubscriptionsModule],
+  imports: [UsersModule, SubscriptionsModule, AuthModule, SettingsModule],
   controllers: [AdminController],
   providers: [AdminGuard],
   exports: [AdminGuard],
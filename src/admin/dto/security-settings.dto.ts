@@ -0,0 +1,6 @@
+import { IsBoolean } from 'class-validator';
+
+export class SecuritySettingsDto {
+  @IsBoolean()
+  requireTwoFactorForAdmins: boolean;
+}
@@ -0,0 +1,11 @@
+import { IsDateString, IsEnum, IsOptional } from 'class-validator';
+import { SubscriptionTier } from '../../subscriptions/subscription.entity';
+
+export class UpdateSubscriptionDto {
+  @IsEnum(SubscriptionTier)
+  tier: SubscriptionTier;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string | null;
+}
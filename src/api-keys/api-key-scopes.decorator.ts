@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyScope } from './api-key.entity';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+
+/**
+ * Opens a route to API keys holding all of the given scopes. Routes without
+ * it only accept the Bearer JWT.
+ */
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) => SetMetadata(API_KEY_SCOPES_KEY, scopes);
@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum ApiKeyScope {
+  /** List instances, chats and messages; search. */
+  READ_CHATS = 'read_chats',
+  /** Send text, media, audio and quick replies. */
+  SEND_MESSAGES = 'send_messages',
+  /** Read and change instance prompts, their variables and revisions. */
+  MANAGE_PROMPTS = 'manage_prompts',
+}
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  [ApiKeyScope.READ_CHATS]: 'Ler conversas',
+  [ApiKeyScope.SEND_MESSAGES]: 'Enviar mensagens',
+  [ApiKeyScope.MANAGE_PROMPTS]: 'Gerenciar prompts',
+};
+
+/**
+ * A personal key for scripts and integrations. It acts as its owner (a
+ * sub-user's key keeps the sub-user's permissions), limited to its scopes.
+ * Only the SHA-256 of the key is stored.
+ */
+@Entity({ name: 'api_keys' })
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  /** Start of the key, shown in listings so users can tell keys apart. */
+  @Column()
+  prefix: string;
+
+  @Index({ unique: true })
+  @Column({ name: 'key_hash' })
+  keyHash: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  scopes: ApiKeyScope[];
+
+  /** Null means the key doesn't expire. */
+  @Column({ name: 'expires_at', type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+}
@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Request,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { API_KEY_SCOPE_LABELS } from './api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/**
+ * Personal API keys. These routes take no `@ApiKeyScopes`, so a key can't
+ * be used to create or revoke keys.
+ */
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  async list(@Request() req: any) {
+    return this.apiKeysService.list(req.user.id);
+  }
+
+  /** Scope ids with their labels, for the key form. */
+  @Get('scopes')
+  getScopes() {
+    return Object.entries(API_KEY_SCOPE_LABELS).map(([scope, label]) => ({ scope, label }));
+  }
+
+  /** Body: { name, scopes, expiresAt? }. The response holds the only copy of the key. */
+  @Post()
+  async create(@Request() req: any, @Body() body: CreateApiKeyDto) {
+    return this.apiKeysService.create(req.user.id, body);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Request() req: any, @Param('id') id: string) {
+    await this.apiKeysService.revoke(req.user.id, id);
+  }
+}
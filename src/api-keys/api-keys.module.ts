@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ApiKey } from './api-key.entity';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeysController } from './api-keys.controller';
+import { UsersModule } from '../users/users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiKey]), UsersModule],
+  providers: [ApiKeysService],
+  controllers: [ApiKeysController],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,139 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { ApiKey, ApiKeyScope } from './api-key.entity';
+import { User } from '../users/user.entity';
+import { UsersService } from '../users/users.service';
+import { generateToken, hashToken } from '../auth/token.utils';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+
+/** Every key starts with this, which is how the auth guard tells it from a JWT. */
+export const API_KEY_PREFIX = 'wak_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+/** `lastUsedAt` is written at most this often per key. */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface ApiKeyView {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expiresAt: Date | null;
+  expired: boolean;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+/** Same shape JwtStrategy puts on `req.user`, plus the key's id and scopes. */
+export type ApiKeyUser = Pick<
+  User,
+  'id' | 'email' | 'name' | 'role' | 'parentUserId' | 'emailVerifiedAt' | 'createdAt' | 'updatedAt'
+> & {
+  sessionId: null;
+  apiKeyId: string;
+  apiKeyScopes: ApiKeyScope[];
+};
+
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly repo: Repository<ApiKey>,
+    private readonly usersService: UsersService,
+  ) {}
+
+  /** Keys not revoked yet, expired ones included. */
+  async list(userId: string): Promise<ApiKeyView[]> {
+    const keys = await this.repo.find({
+      where: { userId, revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return keys.map((key) => this.toView(key));
+  }
+
+  /** The full key is only in this response. */
+  async create(userId: string, dto: CreateApiKeyDto): Promise<ApiKeyView & { key: string }> {
+    const key = `${API_KEY_PREFIX}${generateToken()}`;
+    const apiKey = await this.repo.save(
+      this.repo.create({
+        userId,
+        name: dto.name.trim(),
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashToken(key),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt: dto.expiresAt ?? null,
+      }),
+    );
+    return { ...this.toView(apiKey), key };
+  }
+
+  async revoke(userId: string, keyId: string): Promise<void> {
+    const apiKey = await this.repo.findOne({ where: { id: keyId, userId, revokedAt: IsNull() } });
+    if (!apiKey) throw new NotFoundException('Chave de API não encontrada.');
+    apiKey.revokedAt = new Date();
+    await this.repo.save(apiKey);
+  }
+
+  /** Revokes every key of the user; used when their password changes. */
+  async revokeAll(userId: string): Promise<number> {
+    const result = await this.repo.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    return result.affected ?? 0;
+  }
+
+  /** Resolves a presented key to its owner, or throws 401. */
+  async authenticate(rawKey: string): Promise<ApiKeyUser> {
+    const apiKey = await this.repo.findOne({ where: { keyHash: hashToken(rawKey) } });
+    if (!apiKey || apiKey.revokedAt || this.isExpired(apiKey)) {
+      throw new UnauthorizedException('Chave de API inválida ou expirada.');
+    }
+    const user = await this.usersService.findById(apiKey.userId);
+    if (!user) throw new UnauthorizedException('Chave de API inválida ou expirada.');
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+      this.repo
+        .update(apiKey.id, { lastUsedAt: new Date(now) })
+        .catch((error) =>
+          this.logger.warn(`Could not update API key ${apiKey.id}: ${(error as Error).message}`),
+        );
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      parentUserId: user.parentUserId,
+      emailVerifiedAt: user.emailVerifiedAt,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      sessionId: null,
+      apiKeyId: apiKey.id,
+      apiKeyScopes: apiKey.scopes,
+    };
+  }
+
+  // ---- Helpers ----
+
+  private isExpired(apiKey: ApiKey): boolean {
+    return !!apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now();
+  }
+
+  private toView(apiKey: ApiKey): ApiKeyView {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      expired: this.isExpired(apiKey),
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
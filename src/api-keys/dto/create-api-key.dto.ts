@@ -0,0 +1,34 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+import { ApiKeyScope } from '../api-key.entity';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+const MAX_NAME_LENGTH = 100;
+
+export class CreateApiKeyDto {
+  @IsString()
+  @IsNotBlank()
+  @MaxLength(MAX_NAME_LENGTH)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  /** ISO date in the future; omit or null for a key that doesn't expire. */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'expiresAt must be a date in the future' })
+  expiresAt?: Date | null;
+}
@@ -1,13 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_GUARD, APP_PIPE } from '@nestjs/core';
 import { HealthController } from './health/health.controller';
 import { UsersModule } from './users/users.module';
 import { InstancesModule } from './instances/instances.module';
 import { ExamplePromptsModule } from './example-prompts/example-prompts.module';
 import { AuthModule } from './auth/auth.module';
 import { PublicAuthGuard } from './auth/public-auth.guard';
+import { createValidationPipe } from './common/validation.pipe';
 import { SubscriptionsModule } from './subscriptions/subscriptions.module';
 import { AdminModule } from './admin/admin.module';
 import { PaypalModule } from './paypal/paypal.module';
@@ -15,6 +16,13 @@ import { StripeModule } from './stripe/stripe.module';
 import { SubUsersModule } from './sub-users/sub-users.module';
 import { MessagesModule } from './messages/messages.module';
 import { CategoriesModule } from './categories/categories.module';
+import { ScheduledMessagesModule } from './scheduled-messages/scheduled-messages.module';
+import { CampaignsModule } from './campaigns/campaigns.module';
+import { ContactsModule } from './contacts/contacts.module';
+import { TagsModule } from './tags/tags.module';
+import { ChatAssignmentsModule } from './chat-assignments/chat-assignments.module';
+import { QuickRepliesModule } from './quick-replies/quick-replies.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
 
 @Module({
   imports: [
@@ -46,6 +54,13 @@ import { CategoriesModule } from './categories/categories.module';
     SubUsersModule,
     MessagesModule,
     CategoriesModule,
+    ScheduledMessagesModule,
+    CampaignsModule,
+    ContactsModule,
+    TagsModule,
+    ChatAssignmentsModule,
+    QuickRepliesModule,
+    ApiKeysModule,
   ],
   controllers: [HealthController],
   providers: [
@@ -53,6 +68,10 @@ import { CategoriesModule } from './categories/categories.module';
       provide: APP_GUARD,
       useClass: PublicAuthGuard,
     },
+    {
+      provide: APP_PIPE,
+      useFactory: createValidationPipe,
+    },
   ],
 })
 export class AppModule { }
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * One logged-in device. Access tokens carry the session id as `sid`; the
+ * refresh token rotates on every use and only its SHA-256 is stored.
+ */
+@Entity({ name: 'auth_sessions' })
+export class AuthSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Index({ unique: true })
+  @Column({ name: 'refresh_token_hash' })
+  refreshTokenHash: string;
+
+  /** The token rotated out last; presenting it again means it leaked. */
+  @Index()
+  @Column({ name: 'previous_refresh_token_hash', type: 'varchar', nullable: true })
+  previousRefreshTokenHash: string | null;
+
+  @Column({ name: 'user_agent', type: 'varchar', nullable: true })
+  userAgent: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ip: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @Column({ name: 'last_used_at', type: 'timestamp' })
+  lastUsedAt: Date;
+
+  /** When the refresh token stops working; access tokens expire on their own. */
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+}
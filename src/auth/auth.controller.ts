@@ -1,44 +1,222 @@
-import { Controller, Post, Body, HttpCode, HttpStatus, UnauthorizedException, Get } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UnauthorizedException,
+  Get,
+  Request,
+  Delete,
+  Param,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { SessionMetadata, SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
 import { Public } from './public.decorator';
-
-export class LoginDto {
-  email: string;
-  password: string;
-}
-
-export class RegisterDto {
-  email: string;
-  name: string;
-  password: string;
-}
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { DisableTwoFactorDto } from './dto/disable-two-factor.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { RegisterDto } from './dto/register.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
 
 @Controller('auth')
 export class AuthController {
   constructor(
     private readonly authService: AuthService,
-    private readonly jwtService: JwtService
+    private readonly jwtService: JwtService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly sessionsService: SessionsService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
+  /** Device details stored with a new or refreshed session. */
+  private getSessionMetadata(req: any): SessionMetadata {
+    const userAgent = req.headers?.['user-agent'];
+    return { userAgent: typeof userAgent === 'string' ? userAgent : null, ip: req.ip || null };
+  }
 
   @Public()
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginDto) {
-    const user = await this.authService.validateUser(loginDto.email, loginDto.password);
-    
+  async login(@Body() loginDto: LoginDto, @Request() req: any) {
+    const metadata = this.getSessionMetadata(req);
+    this.loginThrottleService.consumeRateLimit('login', metadata.ip);
+    const user = await this.authService.validateUser(
+      loginDto.email,
+      loginDto.password,
+      metadata.ip,
+    );
+
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    return this.authService.login(user);
+    // With 2FA enabled this is `{ twoFactorRequired, challengeToken }`; finish at login/2fa.
+    return this.authService.startLogin(user, metadata);
+  }
+
+  /** Body: { challengeToken, code }, where code is a TOTP or a recovery code. */
+  @Public()
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  async loginTwoFactor(@Body() body: TwoFactorLoginDto, @Request() req: any) {
+    const metadata = this.getSessionMetadata(req);
+    this.loginThrottleService.consumeRateLimit('login', metadata.ip);
+    return this.authService.completeTwoFactorLogin(body.challengeToken, body.code, metadata);
   }
 
   @Public()
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  async register(@Body() registerDto: RegisterDto) {
-    return this.authService.register(registerDto);
+  async register(@Body() registerDto: RegisterDto, @Request() req: any) {
+    const metadata = this.getSessionMetadata(req);
+    this.loginThrottleService.consumeRateLimit('register', metadata.ip);
+    return this.authService.register(registerDto, metadata);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access/refresh pair. Each refresh
+   * token works once; reusing an old one ends the session.
+   */
+  @Public()
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Body() body: RefreshTokenDto, @Request() req: any) {
+    return this.authService.refresh(body.refreshToken, this.getSessionMetadata(req));
+  }
+
+  /**
+   * Ends the session of the given refresh token. Public so clients can log
+   * out after the access token expired.
+   */
+  @Public()
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Body() body: RefreshTokenDto) {
+    await this.sessionsService.revokeByRefreshToken(body.refreshToken);
+  }
+
+  /** Active sessions of the logged-in user; `current` marks this device. */
+  @Get('sessions')
+  async listSessions(@Request() req: any) {
+    return this.sessionsService.list(req.user.id, req.user.sessionId);
+  }
+
+  /** Signs out every other device. */
+  @Delete('sessions')
+  @HttpCode(HttpStatus.OK)
+  async revokeOtherSessions(@Request() req: any) {
+    const revoked = await this.sessionsService.revokeAll(req.user.id, req.user.sessionId);
+    return { revoked };
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(@Request() req: any, @Param('id') id: string) {
+    await this.sessionsService.revoke(req.user.id, id);
+  }
+
+  /**
+   * Emails a reset link. Always answers the same, whether or not the email
+   * has an account.
+   */
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() body: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(body.email);
+    return {
+      message: 'Se o email estiver cadastrado, você receberá um link para redefinir a senha.',
+    };
+  }
+
+  /** Sets a new password from an emailed token and signs out every session. */
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() body: ResetPasswordDto) {
+    await this.passwordResetService.resetPassword(body.token, body.password);
+    return { message: 'Senha redefinida com sucesso. Faça login com a nova senha.' };
+  }
+
+  /**
+   * Changes the password of the logged-in user. Every session, this one
+   * included, is signed out; the response opens a new one for this device.
+   */
+  @Post('change-password')
+  @HttpCode(HttpStatus.OK)
+  async changePassword(@Request() req: any, @Body() body: ChangePasswordDto) {
+    await this.passwordResetService.changePassword(
+      req.user.id,
+      body.currentPassword,
+      body.newPassword,
+    );
+    return this.authService.login(req.user, this.getSessionMetadata(req));
+  }
+
+  // ---- Email verification ----
+
+  /** Body: { token } from the link sent at registration. */
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() body: VerifyEmailDto) {
+    await this.emailVerificationService.verify(body.token);
+    return { message: 'Email confirmado com sucesso.' };
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendVerificationEmail(@Request() req: any) {
+    await this.emailVerificationService.resend(req.user.id);
+    return { message: 'Enviamos um novo link de confirmação para o seu email.' };
+  }
+
+  // ---- Two-factor authentication ----
+
+  @Get('2fa')
+  async getTwoFactorStatus(@Request() req: any) {
+    return this.twoFactorService.getStatus(req.user);
+  }
+
+  /**
+   * Returns a new secret and its `otpauthUrl`; the client renders the URL
+   * as a QR code. Confirm with POST /auth/2fa/enable.
+   */
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  async setupTwoFactor(@Request() req: any) {
+    return this.twoFactorService.startSetup(req.user);
+  }
+
+  /** Body: { code }. The recovery codes in the response are shown only once. */
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  async enableTwoFactor(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.enable(req.user.id, body.code);
+  }
+
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async disableTwoFactor(@Request() req: any, @Body() body: DisableTwoFactorDto) {
+    await this.twoFactorService.disable(req.user, body.password, body.code);
+  }
+
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(@Request() req: any, @Body() body: TwoFactorCodeDto) {
+    return this.twoFactorService.regenerateRecoveryCodes(req.user.id, body.code);
   }
 }
@@ -1,27 +1,63 @@
 import { Module } from '@nestjs/common';
-import { JwtModule } from '@nestjs/jwt';
+import { JwtModule, JwtSignOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersModule } from '../users/users.module';
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { JwtStrategy } from './jwt.strategy';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordResetToken } from './password-reset-token.entity';
+import { SessionsService } from './sessions.service';
+import { AuthSession } from './auth-session.entity';
+import { TwoFactorService } from './two-factor.service';
+import { UserTwoFactor } from './user-two-factor.entity';
+import { LoginThrottleService } from './login-throttle.service';
+import { LoginThrottle } from './login-throttle.entity';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailVerificationToken } from './email-verification-token.entity';
+import { MailModule } from '../mail/mail.module';
+import { SettingsModule } from '../settings/settings.module';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
 
 @Module({
   imports: [
     UsersModule,
     PassportModule,
+    MailModule,
+    SettingsModule,
+    ApiKeysModule,
+    TypeOrmModule.forFeature([
+      PasswordResetToken,
+      AuthSession,
+      UserTwoFactor,
+      LoginThrottle,
+      EmailVerificationToken,
+    ]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
-        signOptions: { expiresIn: '24h' },
+        // Short-lived; clients renew through POST /auth/refresh.
+        signOptions: {
+          expiresIn: (configService.get<string>('JWT_ACCESS_TTL') ||
+            '15m') as JwtSignOptions['expiresIn'],
+        },
       }),
       inject: [ConfigService],
     }),
   ],
-  providers: [AuthService, JwtStrategy],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    PasswordResetService,
+    SessionsService,
+    TwoFactorService,
+    LoginThrottleService,
+    EmailVerificationService,
+  ],
   controllers: [AuthController],
-  exports: [AuthService, JwtModule],
+  exports: [AuthService, JwtModule, SessionsService, TwoFactorService, LoginThrottleService],
 })
 export class AuthModule {}
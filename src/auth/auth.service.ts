@@ -2,23 +2,50 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { UsersService } from '../users/users.service';
 import { User } from '../users/user.entity';
+import { SessionMetadata, SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailVerificationService } from './email-verification.service';
 import * as bcrypt from 'bcrypt';
 
+type PublicUser = Omit<User, 'password' | 'parentUser' | 'subUsers' | 'passwordChangedAt'>;
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  user: PublicUser;
+  /** The admin policy requires 2FA and this user hasn't enabled it yet. */
+  twoFactorSetupRequired?: boolean;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
 @Injectable()
 export class AuthService {
   constructor(
     private readonly usersService: UsersService,
     private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly emailVerificationService: EmailVerificationService,
   ) {}
 
-  async validateUser(email: string, password: string): Promise<User | null> {
-    const user = await this.usersService.findByEmail(email);
-    if (!user) {
-      return null;
-    }
+  /**
+   * Checks the credentials. Failures count towards the email and IP lockout
+   * and answer progressively slower; a locked email or IP gets a 429. The
+   * email's count is only cleared once the login completes (see startLogin).
+   */
+  async validateUser(email: string, password: string, ip?: string | null): Promise<User | null> {
+    await this.loginThrottleService.assertNotLocked(email, ip);
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
+    const user = await this.usersService.findByEmail(email);
+    const isPasswordValid = !!user && (await bcrypt.compare(password, user.password));
+    if (!user || !isPasswordValid) {
+      await this.loginThrottleService.recordFailure(email, ip);
       return null;
     }
 
@@ -29,29 +56,85 @@ export class AuthService {
       name: user.name,
       role: user.role,
       parentUserId: user.parentUserId,
+      emailVerifiedAt: user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     } as User;
   }
 
-  async login(user: User): Promise<{ accessToken: string; user: Omit<User, 'password' | 'parentUser' | 'subUsers'> }> {
-    const payload = { email: user.email, sub: user.id, role: user.role };
-    const accessToken = this.jwtService.sign(payload);
-
-    // Return user without password
-    const userWithoutPassword = {
-      id: user.id,
-      email: user.email,
-      name: user.name,
-      role: user.role,
-      parentUserId: user.parentUserId,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
+  /** Opens a new session for `user` and returns its first token pair. */
+  async login(user: User, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const { session, refreshToken } = await this.sessionsService.create(user.id, metadata);
+    return {
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+      user: this.toPublicUser(user),
     };
+  }
 
+  /**
+   * First login step after the password check: a challenge when 2FA is
+   * enabled, otherwise a session right away. Failed logins of the email are
+   * kept until the second factor is passed too.
+   */
+  async startLogin(
+    user: User,
+    metadata: SessionMetadata = {},
+  ): Promise<AuthTokens | TwoFactorChallenge> {
+    if (await this.twoFactorService.isEnabled(user.id)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: this.twoFactorService.createChallenge(user.id),
+      };
+    }
+    await this.loginThrottleService.recordSuccess(user.email);
+    const tokens = await this.login(user, metadata);
+    if (await this.twoFactorService.isRequiredFor(user)) {
+      return { ...tokens, twoFactorSetupRequired: true };
+    }
+    return tokens;
+  }
+
+  /**
+   * Second login step: the challenge token plus a TOTP or recovery code.
+   * Wrong codes count towards the same email and IP lockout as wrong
+   * passwords, and a challenge stops working after a few of them.
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    metadata: SessionMetadata = {},
+  ): Promise<AuthTokens> {
+    const { userId, challengeId } = this.twoFactorService.resolveChallenge(challengeToken);
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new UnauthorizedException('Código inválido.');
+    }
+    await this.loginThrottleService.assertNotLocked(user.email, metadata.ip);
+    if (!(await this.twoFactorService.verifyCode(userId, code))) {
+      this.twoFactorService.recordChallengeFailure(challengeId);
+      await this.loginThrottleService.recordFailure(user.email, metadata.ip);
+      throw new UnauthorizedException('Código inválido.');
+    }
+    this.twoFactorService.invalidateChallenge(challengeId);
+    await this.loginThrottleService.recordSuccess(user.email);
+    return this.login(user, metadata);
+  }
+
+  /** Rotates the refresh token and issues a new access token for the same session. */
+  async refresh(refreshToken: string, metadata: SessionMetadata = {}): Promise<AuthTokens> {
+    const { session, refreshToken: nextToken } = await this.sessionsService.rotate(
+      refreshToken,
+      metadata,
+    );
+    const user = await this.usersService.findById(session.userId);
+    if (!user) {
+      throw new UnauthorizedException();
+    }
     return {
-      accessToken,
-      user: userWithoutPassword,
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken: nextToken,
+      user: this.toPublicUser(user),
     };
   }
 
@@ -59,7 +142,10 @@ export class AuthService {
     return bcrypt.hash(password, 10);
   }
 
-  async register(registerDto: { email: string; name: string; password: string }): Promise<{ accessToken: string; user: Omit<User, 'password' | 'parentUser' | 'subUsers'> }> {
+  async register(
+    registerDto: { email: string; name: string; password: string },
+    metadata: SessionMetadata = {},
+  ): Promise<AuthTokens> {
     // Check if user already exists
     const existingUser = await this.usersService.findByEmail(registerDto.email);
     if (existingUser) {
@@ -70,26 +156,32 @@ export class AuthService {
     const user = await this.usersService.createWithPassword(
       registerDto.email,
       registerDto.name,
-      registerDto.password
+      registerDto.password,
     );
+    // The account works right away; premium features and checkout wait for
+    // the email to be confirmed.
+    await this.emailVerificationService.sendVerification(user);
+
+    return this.login(user, metadata);
+  }
+
+  /** Access tokens are short-lived (JWT_ACCESS_TTL); `sid` ties them to a session. */
+  private signAccessToken(user: User, sessionId: string): string {
+    const payload = { email: user.email, sub: user.id, role: user.role, sid: sessionId };
+    return this.jwtService.sign(payload);
+  }
 
-    // Return user without password and generate token
-    const userWithoutPassword = {
+  // Return user without password
+  private toPublicUser(user: User): PublicUser {
+    return {
       id: user.id,
       email: user.email,
       name: user.name,
       role: user.role,
       parentUserId: user.parentUserId || null,
+      emailVerifiedAt: user.emailVerifiedAt ?? null,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
-
-    const payload = { email: user.email, sub: user.id, role: user.role };
-    const accessToken = this.jwtService.sign(payload);
-
-    return {
-      accessToken,
-      user: userWithoutPassword,
-    };
   }
 }
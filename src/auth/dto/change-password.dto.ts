@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { MIN_PASSWORD_LENGTH } from '../password.utils';
+
+export class ChangePasswordDto {
+  @IsString()
+  @IsNotEmpty()
+  currentPassword: string;
+
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  newPassword: string;
+}
@@ -0,0 +1,113 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { EmailVerificationToken } from './email-verification-token.entity';
+import { User } from '../users/user.entity';
+import { UsersService } from '../users/users.service';
+import { MailService } from '../mail/mail.service';
+import { generateToken, hashToken } from './token.utils';
+
+const DEFAULT_TTL_HOURS = 48;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Confirms that a new account's email address is real. Until then the
+ * account can log in, but PremiumGuard routes and checkout are refused.
+ */
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    @InjectRepository(EmailVerificationToken)
+    private readonly tokenRepository: Repository<EmailVerificationToken>,
+    private readonly usersService: UsersService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /** Emails a new link; earlier links stop working. Mail failures are only logged. */
+  async sendVerification(user: Pick<User, 'id' | 'email' | 'name'>): Promise<void> {
+    await this.tokenRepository.delete({ userId: user.id, usedAt: IsNull() });
+    const token = generateToken();
+    const ttlHours =
+      Number(this.config.get<string>('EMAIL_VERIFICATION_TTL_HOURS')) || DEFAULT_TTL_HOURS;
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      }),
+    );
+
+    const link = `${this.mailService.getFrontendUrl()}/verify-email/${token}`;
+    await this.mailService
+      .send({
+        to: user.email,
+        subject: 'Confirme seu email',
+        text: [
+          `Olá, ${user.name}!`,
+          '',
+          'Para confirmar o email da sua conta, acesse:',
+          link,
+          '',
+          `O link expira em ${ttlHours} horas.`,
+          'Se você não criou esta conta, ignore este email.',
+        ].join('\n'),
+      })
+      .catch((error) =>
+        this.logger.error(`Failed to send verification email: ${(error as Error).message}`),
+      );
+  }
+
+  /** Sends the link again for the logged-in user, at most once a minute. */
+  async resend(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (!user) throw new NotFoundException('Usuário não encontrado.');
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Este email já foi confirmado.');
+    }
+    const recent = await this.tokenRepository.findOne({
+      where: {
+        userId,
+        usedAt: IsNull(),
+        createdAt: MoreThan(new Date(Date.now() - RESEND_COOLDOWN_MS)),
+      },
+    });
+    if (recent) {
+      throw new HttpException(
+        'Aguarde um minuto antes de reenviar o email de confirmação.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    await this.sendVerification(user);
+  }
+
+  /** Consumes the token and marks the email as verified. */
+  async verify(token: string): Promise<void> {
+    await this.tokenRepository.manager.transaction(async (manager) => {
+      const verificationToken = await manager.findOne(EmailVerificationToken, {
+        where: { tokenHash: hashToken(token || '') },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (
+        !verificationToken ||
+        verificationToken.usedAt ||
+        verificationToken.expiresAt.getTime() <= Date.now()
+      ) {
+        throw new NotFoundException('Link de confirmação inválido ou expirado.');
+      }
+      verificationToken.usedAt = new Date();
+      await manager.save(verificationToken);
+      await manager.update(User, verificationToken.userId, { emailVerifiedAt: new Date() });
+    });
+  }
+}
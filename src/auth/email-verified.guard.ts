@@ -0,0 +1,25 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+
+/** Throws unless the authenticated user confirmed their email address. */
+export function assertEmailVerified(user: { emailVerifiedAt?: Date | null } | undefined): void {
+  if (!user?.emailVerifiedAt) {
+    throw new ForbiddenException(
+      'Email verification required. Please confirm your email address to access this feature.',
+    );
+  }
+}
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user || !user.id) {
+      throw new ForbiddenException('User not authenticated');
+    }
+
+    assertEmailVerified(user);
+    return true;
+  }
+}
@@ -4,12 +4,15 @@ import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
 import { User } from '../users/user.entity';
+import { isIssuedBeforePasswordChange } from './password.utils';
+import { SessionsService } from './sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
     private readonly usersService: UsersService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly sessionsService: SessionsService,
   ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
@@ -18,12 +21,22 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     });
   }
 
-  async validate(payload: any): Promise<User> {
+  async validate(payload: any): Promise<User & { sessionId: string }> {
     const user = await this.usersService.findByEmail(payload.email);
     if (!user) {
       throw new UnauthorizedException();
     }
-    
+    // Tokens without `sid` predate sessions and can't be revoked; 2FA
+    // challenge tokens carry a `purpose` and are never access tokens.
+    if (
+      !payload.sid ||
+      payload.purpose ||
+      isIssuedBeforePasswordChange(user, payload.iat) ||
+      !(await this.sessionsService.isActive(payload.sid, user.id))
+    ) {
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+
     // Return user without password, including parentUserId for sub-user detection
     return {
       id: user.id,
@@ -31,8 +44,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       name: user.name,
       role: user.role,
       parentUserId: user.parentUserId,
+      emailVerifiedAt: user.emailVerifiedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
-    } as User;
+      sessionId: payload.sid,
+    } as User & { sessionId: string };
   }
 }
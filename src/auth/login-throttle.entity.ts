@@ -0,0 +1,20 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+/**
+ * Failed login attempts of one email (`email:<address>`) or one IP
+ * (`ip:<address>`) within the current window.
+ */
+@Entity({ name: 'login_throttles' })
+export class LoginThrottle {
+  @PrimaryColumn()
+  key: string;
+
+  @Column({ type: 'integer', default: 0 })
+  failures: number;
+
+  @Column({ name: 'last_failure_at', type: 'timestamp' })
+  lastFailureAt: Date;
+
+  @Column({ name: 'locked_until', type: 'timestamp', nullable: true })
+  lockedUntil: Date | null;
+}
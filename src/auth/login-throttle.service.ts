@@ -0,0 +1,193 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, MoreThan, Repository } from 'typeorm';
+import { LoginThrottle } from './login-throttle.entity';
+
+const DEFAULT_MAX_FAILURES_PER_EMAIL = 5;
+const DEFAULT_MAX_FAILURES_PER_IP = 20;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+const DEFAULT_LOGIN_RATE_LIMIT_PER_MINUTE = 20;
+const DEFAULT_REGISTER_RATE_LIMIT_PER_HOUR = 5;
+/** The wait after the first failure; it doubles with each further failure. */
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+export type RateLimitedAction = 'login' | 'register';
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Brute-force protection for the public auth endpoints:
+ * - failed logins are counted per email and per IP; each failure answers a
+ *   little slower and reaching the limit locks the email (or IP) for
+ *   LOGIN_LOCKOUT_MINUTES. Counts live in the database so they survive
+ *   restarts and an admin can unlock an account.
+ * - login and register calls are rate limited per IP in memory.
+ */
+@Injectable()
+export class LoginThrottleService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LoginThrottleService.name);
+  private readonly rateLimits = new Map<string, RateLimitWindow>();
+  private cleanupTimer: ReturnType<typeof setInterval>;
+
+  constructor(
+    @InjectRepository(LoginThrottle)
+    private readonly repo: Repository<LoginThrottle>,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.cleanupTimer = setInterval(() => this.purgeRateLimits(), 10 * 60 * 1000);
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.cleanupTimer);
+  }
+
+  // ---- Rate limits ----
+
+  /** Counts one call of `action` from `ip`; throws 429 once over the limit. */
+  consumeRateLimit(action: RateLimitedAction, ip: string | null | undefined): void {
+    if (!ip) return;
+    const { limit, windowMs } = this.getRateLimit(action);
+    const bucket = `${action}:${ip}`;
+    const now = Date.now();
+    const window = this.rateLimits.get(bucket);
+    if (!window || window.resetAt <= now) {
+      this.rateLimits.set(bucket, { count: 1, resetAt: now + windowMs });
+      return;
+    }
+    window.count++;
+    if (window.count > limit) {
+      throw this.tooManyRequests(window.resetAt - now);
+    }
+  }
+
+  // ---- Failed logins ----
+
+  /** Throws 429 while the email or the IP is locked out. */
+  async assertNotLocked(email: string, ip: string | null | undefined): Promise<void> {
+    const locked = await this.repo.findOne({
+      where: { key: In(this.getKeys(email, ip)), lockedUntil: MoreThan(new Date()) },
+      order: { lockedUntil: 'DESC' },
+    });
+    if (locked?.lockedUntil) {
+      throw this.tooManyRequests(locked.lockedUntil.getTime() - Date.now());
+    }
+  }
+
+  /**
+   * Records a failed attempt, locking the email or IP that reached its
+   * limit. Resolves after the progressive delay for the caller to apply.
+   */
+  async recordFailure(email: string, ip: string | null | undefined): Promise<void> {
+    const lockoutMs = this.getLockoutMinutes() * 60 * 1000;
+    const now = new Date();
+    let highest = 0;
+
+    for (const key of this.getKeys(email, ip)) {
+      // Atomic so concurrent attempts can't lose increments. Failures older
+      // than the lockout window start a new count.
+      const rows: { failures: number }[] = await this.repo.query(
+        `INSERT INTO "login_throttles" ("key", "failures", "last_failure_at")
+         VALUES ($1, 1, $2)
+         ON CONFLICT ("key") DO UPDATE SET
+           "failures" = CASE
+             WHEN "login_throttles"."last_failure_at" < $3 THEN 1
+             ELSE "login_throttles"."failures" + 1
+           END,
+           "last_failure_at" = $2
+         RETURNING "failures"`,
+        [key, now, new Date(now.getTime() - lockoutMs)],
+      );
+      const failures = rows[0]?.failures ?? 1;
+      highest = Math.max(highest, failures);
+
+      if (failures >= this.getMaxFailures(key)) {
+        await this.repo.update(key, { lockedUntil: new Date(now.getTime() + lockoutMs) });
+        this.logger.warn(`Login locked for ${key} after ${failures} failed attempts`);
+      }
+    }
+
+    const delayMs = Math.min(BASE_DELAY_MS * 2 ** (highest - 1), MAX_DELAY_MS);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  /** Clears the email's failures; the IP's count is kept on purpose. */
+  async recordSuccess(email: string): Promise<void> {
+    await this.repo.delete({ key: this.emailKey(email) });
+  }
+
+  /** Admin unlock. Returns whether the email was locked. */
+  async unlock(email: string): Promise<boolean> {
+    const throttle = await this.repo.findOne({ where: { key: this.emailKey(email) } });
+    if (!throttle) return false;
+    await this.repo.delete({ key: throttle.key });
+    return !!throttle.lockedUntil && throttle.lockedUntil.getTime() > Date.now();
+  }
+
+  // ---- Helpers ----
+
+  private getKeys(email: string, ip: string | null | undefined): string[] {
+    return ip ? [this.emailKey(email), `ip:${ip}`] : [this.emailKey(email)];
+  }
+
+  private emailKey(email: string): string {
+    return `email:${(email || '').trim().toLowerCase()}`;
+  }
+
+  private getMaxFailures(key: string): number {
+    return key.startsWith('ip:')
+      ? this.getNumber('LOGIN_MAX_FAILURES_PER_IP', DEFAULT_MAX_FAILURES_PER_IP)
+      : this.getNumber('LOGIN_MAX_FAILURES', DEFAULT_MAX_FAILURES_PER_EMAIL);
+  }
+
+  private getLockoutMinutes(): number {
+    return this.getNumber('LOGIN_LOCKOUT_MINUTES', DEFAULT_LOCKOUT_MINUTES);
+  }
+
+  private getRateLimit(action: RateLimitedAction): { limit: number; windowMs: number } {
+    return action === 'login'
+      ? {
+          limit: this.getNumber('LOGIN_RATE_LIMIT_PER_MINUTE', DEFAULT_LOGIN_RATE_LIMIT_PER_MINUTE),
+          windowMs: 60 * 1000,
+        }
+      : {
+          limit: this.getNumber(
+            'REGISTER_RATE_LIMIT_PER_HOUR',
+            DEFAULT_REGISTER_RATE_LIMIT_PER_HOUR,
+          ),
+          windowMs: 60 * 60 * 1000,
+        };
+  }
+
+  private getNumber(name: string, defaultValue: number): number {
+    return Number(this.config.get<string>(name)) || defaultValue;
+  }
+
+  private tooManyRequests(retryAfterMs: number): HttpException {
+    const minutes = Math.max(1, Math.ceil(retryAfterMs / 60000));
+    return new HttpException(
+      `Muitas tentativas. Tente novamente em ${minutes} minuto${minutes === 1 ? '' : 's'}.`,
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private purgeRateLimits(): void {
+    const now = Date.now();
+    for (const [bucket, window] of this.rateLimits.entries()) {
+      if (window.resetAt <= now) this.rateLimits.delete(bucket);
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { PasswordResetToken } from './password-reset-token.entity';
+import { User } from '../users/user.entity';
+import { UsersService } from '../users/users.service';
+import { SessionsService } from './sessions.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { ApiKeysService } from '../api-keys/api-keys.service';
+import { MailService } from '../mail/mail.service';
+import { generateToken, hashToken } from './token.utils';
+
+const DEFAULT_TTL_MINUTES = 60;
+/** A new reset email is not sent while the previous one is younger than this. */
+const REQUEST_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Forgot/reset/change password. A successful reset or change revokes the
+ * user's sessions and API keys and stamps `passwordChangedAt`, which the JWT
+ * checks use to reject older tokens.
+ */
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private readonly tokenRepository: Repository<PasswordResetToken>,
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Emails a reset link when the address belongs to a user. Resolves the
+   * same way either way so the endpoint can't be used to probe for accounts.
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail((email || '').trim());
+    if (!user) return;
+
+    const recent = await this.tokenRepository.findOne({
+      where: {
+        userId: user.id,
+        usedAt: IsNull(),
+        createdAt: MoreThan(new Date(Date.now() - REQUEST_COOLDOWN_MS)),
+      },
+    });
+    if (recent) return;
+
+    // Only the newest link works.
+    await this.tokenRepository.delete({ userId: user.id, usedAt: IsNull() });
+    const token = generateToken();
+    const ttlMinutes =
+      Number(this.config.get<string>('PASSWORD_RESET_TTL_MINUTES')) || DEFAULT_TTL_MINUTES;
+    await this.tokenRepository.save(
+      this.tokenRepository.create({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      }),
+    );
+
+    const link = `${this.mailService.getFrontendUrl()}/reset-password/${token}`;
+    await this.mailService
+      .send({
+        to: user.email,
+        subject: 'Redefinição de senha',
+        text: [
+          `Olá, ${user.name}!`,
+          '',
+          'Recebemos um pedido para redefinir a senha da sua conta. Para escolher uma nova senha, acesse:',
+          link,
+          '',
+          `O link expira em ${ttlMinutes} minutos e só pode ser usado uma vez.`,
+          'Se você não pediu a redefinição, ignore este email; sua senha continua a mesma.',
+        ].join('\n'),
+      })
+      .catch((error) =>
+        this.logger.error(`Failed to send password reset email: ${(error as Error).message}`),
+      );
+  }
+
+  /**
+   * Consumes the token and sets the new password. Every session and API key
+   * issued before the reset stops working, and a login lockout on the email ends.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    // Hashed up front so the token row isn't locked for the duration.
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    const userId = await this.tokenRepository.manager.transaction(async (manager) => {
+      const resetToken = await manager.findOne(PasswordResetToken, {
+        where: { tokenHash: hashToken(token || '') },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt.getTime() <= Date.now()) {
+        throw new NotFoundException('Link de redefinição inválido ou expirado.');
+      }
+      resetToken.usedAt = new Date();
+      await manager.save(resetToken);
+      await manager.update(User, resetToken.userId, {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+      });
+      return resetToken.userId;
+    });
+    await this.sessionsService.revokeAll(userId);
+    await this.apiKeysService.revokeAll(userId);
+    const user = await this.usersService.findById(userId);
+    if (user) await this.loginThrottleService.unlock(user.email);
+  }
+
+  /** Requires the current password; all sessions and API keys are revoked as well. */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<void> {
+    const user = await this.usersService.findByIdWithPassword(userId);
+    const matches = !!user?.password && (await bcrypt.compare(currentPassword, user.password));
+    if (!matches) {
+      throw new UnauthorizedException('Senha atual incorreta.');
+    }
+    await this.usersService.updatePassword(userId, newPassword);
+    await this.tokenRepository.delete({ userId, usedAt: IsNull() });
+    await this.sessionsService.revokeAll(userId);
+    await this.apiKeysService.revokeAll(userId);
+  }
+}
@@ -0,0 +1,18 @@
+import { User } from '../users/user.entity';
+
+/** Enforced by the DTOs that accept a new password. */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * True when a token with JWT `iat` (seconds) predates the user's last
+ * password change. Tokens from the same second are still accepted so the
+ * one issued right after a change keeps working.
+ */
+export function isIssuedBeforePasswordChange(
+  user: Pick<User, 'passwordChangedAt'>,
+  issuedAt: number | undefined,
+): boolean {
+  if (!user.passwordChangedAt) return false;
+  if (typeof issuedAt !== 'number') return true;
+  return issuedAt < Math.floor(user.passwordChangedAt.getTime() / 1000);
+}
@@ -1,5 +1,6 @@
 import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { SubscriptionsService } from '../subscriptions/subscriptions.service';
+import { assertEmailVerified } from './email-verified.guard';
 
 @Injectable()
 export class PremiumGuard implements CanActivate {
@@ -13,6 +14,8 @@ export class PremiumGuard implements CanActivate {
       throw new ForbiddenException('User not authenticated');
     }
 
+    assertEmailVerified(user);
+
     const isPremium = await this.subscriptionsService.isUserPremium(user.id);
 
     if (!isPremium) {
@@ -24,4 +27,3 @@ export class PremiumGuard implements CanActivate {
     return true;
   }
 }
-
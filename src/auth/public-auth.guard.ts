@@ -1,11 +1,18 @@
-import { Injectable, ExecutionContext } from '@nestjs/common';
+import { Injectable, ExecutionContext, ForbiddenException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
 import { IS_PUBLIC_KEY } from './public.decorator';
+import { API_KEY_SCOPES_KEY } from '../api-keys/api-key-scopes.decorator';
+import { ApiKeyScope } from '../api-keys/api-key.entity';
+import { API_KEY_PREFIX, ApiKeysService } from '../api-keys/api-keys.service';
 
 @Injectable()
 export class PublicAuthGuard extends AuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private apiKeysService: ApiKeysService,
+  ) {
     super();
   }
 
@@ -17,6 +24,40 @@ export class PublicAuthGuard extends AuthGuard('jwt') {
     if (isPublic) {
       return true;
     }
+    const apiKey = this.extractApiKey(context.switchToHttp().getRequest<Request>());
+    if (apiKey) {
+      return this.authenticateApiKey(context, apiKey);
+    }
     return super.canActivate(context);
   }
+
+  /** `X-API-Key: wak_...`, or the key as the Bearer token. */
+  private extractApiKey(request: Request): string | null {
+    const header = request?.headers?.['x-api-key'];
+    if (typeof header === 'string' && header) return header.trim();
+    const authorization = request?.headers?.authorization;
+    if (typeof authorization === 'string') {
+      const [type, token] = authorization.split(' ');
+      if (type?.toLowerCase() === 'bearer' && token?.startsWith(API_KEY_PREFIX)) return token;
+    }
+    return null;
+  }
+
+  private async authenticateApiKey(context: ExecutionContext, apiKey: string): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    request.user = await this.apiKeysService.authenticate(apiKey);
+
+    const requiredScopes = this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requiredScopes?.length) {
+      throw new ForbiddenException('Este endpoint não aceita chaves de API.');
+    }
+    const missing = requiredScopes.filter((scope) => !request.user.apiKeyScopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`A chave de API não tem o escopo: ${missing.join(', ')}`);
+    }
+    return true;
+  }
 }
@@ -0,0 +1,194 @@
+import { Injectable, Logger, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Not, Repository } from 'typeorm';
+import { AuthSession } from './auth-session.entity';
+import { generateToken, hashToken } from './token.utils';
+
+const DEFAULT_REFRESH_TTL_DAYS = 30;
+const MAX_USER_AGENT_LENGTH = 512;
+
+export interface SessionMetadata {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+export interface SessionView {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  /** The session the request was made with. */
+  current: boolean;
+}
+
+type RevokedListener = (sessionIds: string[]) => void;
+
+/**
+ * Per-device login sessions backing the refresh tokens. Revocations are
+ * announced to listeners (the realtime gateway drops the session's sockets).
+ */
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+  private readonly revokedListeners = new Set<RevokedListener>();
+
+  constructor(
+    @InjectRepository(AuthSession)
+    private readonly repo: Repository<AuthSession>,
+    private readonly config: ConfigService,
+  ) {}
+
+  async create(
+    userId: string,
+    metadata: SessionMetadata = {},
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const refreshToken = generateToken();
+    const now = new Date();
+    const session = await this.repo.save(
+      this.repo.create({
+        userId,
+        refreshTokenHash: hashToken(refreshToken),
+        previousRefreshTokenHash: null,
+        userAgent: metadata.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+        ip: metadata.ip || null,
+        lastUsedAt: now,
+        expiresAt: this.getExpiryDate(),
+      }),
+    );
+    return { session, refreshToken };
+  }
+
+  /**
+   * Swaps a refresh token for a new one on the same session. Presenting an
+   * already rotated token revokes the session, since one of the two copies
+   * must have been stolen.
+   */
+  async rotate(
+    refreshToken: string,
+    metadata: SessionMetadata = {},
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const tokenHash = hashToken(refreshToken || '');
+    const result = await this.repo.manager.transaction(async (manager) => {
+      const session = await manager.findOne(AuthSession, {
+        where: [{ refreshTokenHash: tokenHash }, { previousRefreshTokenHash: tokenHash }],
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!session || session.revokedAt || session.expiresAt.getTime() <= Date.now()) {
+        return null;
+      }
+      if (session.refreshTokenHash !== tokenHash) {
+        session.revokedAt = new Date();
+        await manager.save(session);
+        this.logger.warn(`Refresh token reuse detected, session ${session.id} revoked`);
+        return { reused: session };
+      }
+      const nextToken = generateToken();
+      session.previousRefreshTokenHash = session.refreshTokenHash;
+      session.refreshTokenHash = hashToken(nextToken);
+      session.lastUsedAt = new Date();
+      session.expiresAt = this.getExpiryDate();
+      if (metadata.userAgent) {
+        session.userAgent = metadata.userAgent.slice(0, MAX_USER_AGENT_LENGTH);
+      }
+      if (metadata.ip) session.ip = metadata.ip;
+      return { session: await manager.save(session), refreshToken: nextToken };
+    });
+
+    if (result && 'reused' in result) this.notifyRevoked([result.reused.id]);
+    if (!result || 'reused' in result) {
+      throw new UnauthorizedException('Sessão expirada. Faça login novamente.');
+    }
+    return result;
+  }
+
+  /** Whether access tokens with this `sid` are still accepted. */
+  async isActive(sessionId: string, userId: string): Promise<boolean> {
+    return this.repo.exists({
+      where: {
+        id: sessionId,
+        userId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+  }
+
+  async list(userId: string, currentSessionId?: string): Promise<SessionView[]> {
+    const sessions = await this.repo.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC' },
+    });
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const session = await this.repo.findOne({
+      where: { id: sessionId, userId, revokedAt: IsNull() },
+    });
+    if (!session) throw new NotFoundException('Sessão não encontrada.');
+    session.revokedAt = new Date();
+    await this.repo.save(session);
+    this.notifyRevoked([session.id]);
+  }
+
+  /** Logout with only the refresh token at hand; unknown tokens are ignored. */
+  async revokeByRefreshToken(refreshToken: string): Promise<void> {
+    const session = await this.repo.findOne({
+      where: { refreshTokenHash: hashToken(refreshToken || ''), revokedAt: IsNull() },
+    });
+    if (!session) return;
+    session.revokedAt = new Date();
+    await this.repo.save(session);
+    this.notifyRevoked([session.id]);
+  }
+
+  /** Revokes every active session of the user, optionally keeping one. */
+  async revokeAll(userId: string, exceptSessionId?: string): Promise<number> {
+    const sessions = await this.repo.find({
+      where: {
+        userId,
+        revokedAt: IsNull(),
+        ...(exceptSessionId ? { id: Not(exceptSessionId) } : {}),
+      },
+    });
+    if (sessions.length === 0) return 0;
+    const revokedAt = new Date();
+    for (const session of sessions) session.revokedAt = revokedAt;
+    await this.repo.save(sessions);
+    this.notifyRevoked(sessions.map((session) => session.id));
+    return sessions.length;
+  }
+
+  /** Subscribes to revocations; returns the unsubscribe function. */
+  onRevoked(listener: RevokedListener): () => void {
+    this.revokedListeners.add(listener);
+    return () => this.revokedListeners.delete(listener);
+  }
+
+  private notifyRevoked(sessionIds: string[]): void {
+    for (const listener of this.revokedListeners) {
+      try {
+        listener(sessionIds);
+      } catch (error) {
+        this.logger.error(`Session revoke listener failed: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private getExpiryDate(): Date {
+    const days =
+      Number(this.config.get<string>('REFRESH_TOKEN_TTL_DAYS')) || DEFAULT_REFRESH_TTL_DAYS;
+    return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+}
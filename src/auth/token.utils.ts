@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** Random URL-safe token for emailed links (invitations, password resets). */
+export function generateToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/** What gets stored instead of the raw token. */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,262 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes, randomUUID } from 'crypto';
+import * as bcrypt from 'bcrypt';
+import { UserTwoFactor } from './user-two-factor.entity';
+import { User } from '../users/user.entity';
+import { UsersService } from '../users/users.service';
+import { AppSettingsService, REQUIRE_ADMIN_TWO_FACTOR } from '../settings/app-settings.service';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp.utils';
+import { hashToken } from './token.utils';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_PURPOSE = 'two_factor';
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+/** Wrong codes accepted per challenge before it stops working. */
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  /** Enforced by the admin policy; it can't be disabled. */
+  required: boolean;
+}
+
+export interface ResolvedChallenge {
+  userId: string;
+  challengeId: string;
+}
+
+/**
+ * Optional TOTP two-factor authentication. Login with 2FA enabled is two
+ * steps: the password yields a short-lived challenge token, which is then
+ * exchanged together with a code (or a recovery code) for a session.
+ */
+@Injectable()
+export class TwoFactorService {
+  /** Wrong codes per challenge id; exhausted ones are kept until they expire. */
+  private readonly challengeFailures = new Map<string, { failures: number; expiresAt: number }>();
+
+  constructor(
+    @InjectRepository(UserTwoFactor)
+    private readonly repo: Repository<UserTwoFactor>,
+    private readonly usersService: UsersService,
+    private readonly appSettingsService: AppSettingsService,
+    private readonly jwtService: JwtService,
+    private readonly config: ConfigService,
+  ) {}
+
+  async getStatus(user: Pick<User, 'id' | 'role'>): Promise<TwoFactorStatus> {
+    const state = await this.repo.findOne({ where: { userId: user.id } });
+    const enabled = !!state?.enabledAt;
+    return {
+      enabled,
+      enabledAt: state?.enabledAt ?? null,
+      recoveryCodesRemaining: enabled ? state!.recoveryCodeHashes.length : 0,
+      required: await this.isRequiredFor(user),
+    };
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const state = await this.repo.findOne({ where: { userId } });
+    return !!state?.enabledAt;
+  }
+
+  /** Admins must use 2FA once an admin turned on REQUIRE_ADMIN_TWO_FACTOR. */
+  async isRequiredFor(user: Pick<User, 'role'>): Promise<boolean> {
+    if (user.role !== 'admin') return false;
+    return this.appSettingsService.get(REQUIRE_ADMIN_TWO_FACTOR, false);
+  }
+
+  // ---- Enrollment ----
+
+  /**
+   * Starts (or restarts) setup: returns a new secret and its otpauth:// URL
+   * for the QR code. Nothing changes until `enable` confirms a code.
+   */
+  async startSetup(
+    user: Pick<User, 'id' | 'email'>,
+  ): Promise<{ secret: string; otpauthUrl: string }> {
+    const state =
+      (await this.repo.findOne({ where: { userId: user.id } })) ??
+      this.repo.create({ userId: user.id, recoveryCodeHashes: [] });
+    if (state.enabledAt) {
+      throw new ConflictException('A autenticação em dois fatores já está ativa.');
+    }
+    state.pendingSecret = generateTotpSecret();
+    await this.repo.save(state);
+    const issuer = this.config.get<string>('TOTP_ISSUER') || 'Painel WhatsApp';
+    return {
+      secret: state.pendingSecret,
+      otpauthUrl: buildOtpauthUrl(issuer, user.email, state.pendingSecret),
+    };
+  }
+
+  /** Confirms setup with a code from the app; returns the recovery codes once. */
+  async enable(userId: string, code: string): Promise<{ recoveryCodes: string[] }> {
+    const state = await this.repo.findOne({ where: { userId } });
+    if (state?.enabledAt) {
+      throw new ConflictException('A autenticação em dois fatores já está ativa.');
+    }
+    if (!state?.pendingSecret) {
+      throw new BadRequestException('Inicie a configuração antes de confirmar o código.');
+    }
+    const step = verifyTotp(state.pendingSecret, code);
+    if (step === null) throw new BadRequestException('Código inválido.');
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    state.secret = state.pendingSecret;
+    state.pendingSecret = null;
+    state.enabledAt = new Date();
+    state.lastUsedStep = step;
+    state.recoveryCodeHashes = recoveryCodes.map((c) => this.hashRecoveryCode(c));
+    await this.repo.save(state);
+    return { recoveryCodes };
+  }
+
+  /** Needs the password and a current code; not allowed while the policy requires 2FA. */
+  async disable(user: Pick<User, 'id' | 'role'>, password: unknown, code: string): Promise<void> {
+    if (await this.isRequiredFor(user)) {
+      throw new ForbiddenException(
+        'A autenticação em dois fatores é obrigatória para administradores.',
+      );
+    }
+    const withPassword = await this.usersService.findByIdWithPassword(user.id);
+    const passwordMatches =
+      !!withPassword?.password &&
+      typeof password === 'string' &&
+      (await bcrypt.compare(password, withPassword.password));
+    if (!passwordMatches) throw new UnauthorizedException('Senha incorreta.');
+    if (!(await this.verifyCode(user.id, code))) {
+      throw new UnauthorizedException('Código inválido.');
+    }
+    await this.repo.delete({ userId: user.id });
+  }
+
+  /** Replaces all recovery codes; requires a current TOTP code. */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<{ recoveryCodes: string[] }> {
+    const state = await this.repo.findOne({ where: { userId } });
+    if (!state?.enabledAt || !this.consumeTotp(state, code)) {
+      throw new UnauthorizedException('Código inválido.');
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    state.recoveryCodeHashes = recoveryCodes.map((c) => this.hashRecoveryCode(c));
+    await this.repo.save(state);
+    return { recoveryCodes };
+  }
+
+  // ---- Login ----
+
+  createChallenge(userId: string): string {
+    return this.jwtService.sign(
+      { sub: userId, purpose: CHALLENGE_PURPOSE },
+      { expiresIn: Math.floor(CHALLENGE_TTL_MS / 1000), jwtid: randomUUID() },
+    );
+  }
+
+  /**
+   * Returns the user and challenge id of a valid, unexpired challenge token
+   * that has attempts left.
+   */
+  resolveChallenge(challengeToken: string): ResolvedChallenge {
+    try {
+      const payload = this.jwtService.verify<{ sub?: string; purpose?: string; jti?: string }>(
+        challengeToken || '',
+      );
+      const attempts = payload?.jti ? this.challengeFailures.get(payload.jti) : undefined;
+      if (
+        payload?.purpose === CHALLENGE_PURPOSE &&
+        payload.sub &&
+        payload.jti &&
+        (attempts?.failures ?? 0) < MAX_CHALLENGE_ATTEMPTS
+      ) {
+        return { userId: payload.sub, challengeId: payload.jti };
+      }
+    } catch {
+      // Fall through to the generic error.
+    }
+    throw new UnauthorizedException('Desafio de login inválido ou expirado. Faça login novamente.');
+  }
+
+  /** Counts a wrong code; the challenge is rejected after MAX_CHALLENGE_ATTEMPTS. */
+  recordChallengeFailure(challengeId: string): void {
+    this.purgeChallenges();
+    const attempts = this.challengeFailures.get(challengeId) ?? {
+      failures: 0,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    };
+    attempts.failures++;
+    this.challengeFailures.set(challengeId, attempts);
+  }
+
+  /** A challenge works for one login only. */
+  invalidateChallenge(challengeId: string): void {
+    this.purgeChallenges();
+    this.challengeFailures.set(challengeId, {
+      failures: MAX_CHALLENGE_ATTEMPTS,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    });
+  }
+
+  /**
+   * Accepts a TOTP code (each time step only once) or an unused recovery
+   * code, which is consumed.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const state = await this.repo.findOne({ where: { userId } });
+    if (!state?.enabledAt || typeof code !== 'string') return false;
+    if (this.consumeTotp(state, code)) {
+      await this.repo.save(state);
+      return true;
+    }
+    const hash = this.hashRecoveryCode(code);
+    const index = state.recoveryCodeHashes.indexOf(hash);
+    if (index === -1) return false;
+    state.recoveryCodeHashes = state.recoveryCodeHashes.filter((_, i) => i !== index);
+    await this.repo.save(state);
+    return true;
+  }
+
+  // ---- Helpers ----
+
+  private purgeChallenges(): void {
+    const now = Date.now();
+    for (const [challengeId, attempts] of this.challengeFailures.entries()) {
+      if (attempts.expiresAt <= now) this.challengeFailures.delete(challengeId);
+    }
+  }
+
+  /** Checks a TOTP code and records its step on `state` (not saved). */
+  private consumeTotp(state: UserTwoFactor, code: string): boolean {
+    if (!state.secret) return false;
+    const step = verifyTotp(state.secret, code);
+    if (step === null || (state.lastUsedStep !== null && step <= state.lastUsedStep)) return false;
+    state.lastUsedStep = step;
+    return true;
+  }
+
+  /** `xxxxx-xxxxx` in lower-case hex. */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.trim().toLowerCase().replace(/[\s-]/g, ''));
+  }
+}
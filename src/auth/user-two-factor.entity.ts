@@ -0,0 +1,35 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn, OneToOne, JoinColumn } from 'typeorm';
+import { User } from '../users/user.entity';
+
+/** TOTP state of a user; no row means two-factor authentication is off. */
+@Entity({ name: 'user_two_factor' })
+export class UserTwoFactor {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Base32 secret in use; null until setup is confirmed with a code. */
+  @Column({ type: 'varchar', nullable: true })
+  secret: string | null;
+
+  /** Secret shown in the QR code while setup is not confirmed yet. */
+  @Column({ name: 'pending_secret', type: 'varchar', nullable: true })
+  pendingSecret: string | null;
+
+  @Column({ name: 'enabled_at', type: 'timestamp', nullable: true })
+  enabledAt: Date | null;
+
+  /** SHA-256 of the unused recovery codes. */
+  @Column({ name: 'recovery_code_hashes', type: 'jsonb', default: [] })
+  recoveryCodeHashes: string[];
+
+  /** Last accepted time step, so a code can't be replayed. */
+  @Column({ name: 'last_used_step', type: 'integer', nullable: true })
+  lastUsedStep: number | null;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
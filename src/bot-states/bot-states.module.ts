@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatBotState } from './chat-bot-state.entity';
+import { BotStatesService } from './bot-states.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ChatBotState])],
+  providers: [BotStatesService],
+  exports: [BotStatesService],
+})
+export class BotStatesModule {}
@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { BotMode, ChatBotState } from './chat-bot-state.entity';
+import { normalizeJid } from '../messages/jid.utils';
+import { validationException } from '../common/validation.pipe';
+
+export interface BotStateView {
+  mode: BotMode;
+  pausedUntil: Date | null;
+  /** False while a human owns the conversation. */
+  botEnabled: boolean;
+  updatedByUserId: string | null;
+  updatedAt: Date | null;
+}
+
+const ACTIVE_VIEW: BotStateView = {
+  mode: BotMode.ACTIVE,
+  pausedUntil: null,
+  botEnabled: true,
+  updatedByUserId: null,
+  updatedAt: null,
+};
+
+@Injectable()
+export class BotStatesService {
+  constructor(
+    @InjectRepository(ChatBotState)
+    private readonly repo: Repository<ChatBotState>,
+  ) {}
+
+  async getState(userId: string, instanceName: string, remoteJid: string): Promise<BotStateView> {
+    const state = await this.repo.findOne({
+      where: { userId, instanceName, remoteJid: normalizeJid(remoteJid) },
+    });
+    return this.toView(state);
+  }
+
+  /**
+   * Returns the effective state of every chat with a non-default state,
+   * keyed by `${instanceName}|${canonicalJid}`. Chats missing from the map
+   * are active.
+   */
+  async getStatesForUser(userId: string): Promise<Map<string, BotStateView>> {
+    const states = await this.repo.find({ where: { userId } });
+    const result = new Map<string, BotStateView>();
+    for (const state of states) {
+      result.set(`${state.instanceName}|${state.remoteJid}`, this.toView(state));
+    }
+    return result;
+  }
+
+  async isBotEnabled(userId: string, instanceName: string, remoteJid: string): Promise<boolean> {
+    const view = await this.getState(userId, instanceName, remoteJid);
+    return view.botEnabled;
+  }
+
+  async setState(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    dto: { mode: BotMode; pausedUntil?: string; minutes?: number },
+    updatedByUserId: string,
+  ): Promise<BotStateView> {
+    let pausedUntil: Date | null = null;
+    if (dto.mode === BotMode.PAUSED) {
+      if (dto.minutes != null) {
+        pausedUntil = new Date(Date.now() + dto.minutes * 60 * 1000);
+      } else if (dto.pausedUntil) {
+        pausedUntil = new Date(dto.pausedUntil);
+        if (pausedUntil.getTime() <= Date.now()) {
+          throw validationException('pausedUntil', '"pausedUntil" deve ser uma data futura.');
+        }
+      } else {
+        throw validationException(
+          'minutes',
+          'Informe "minutes" ou "pausedUntil" para pausar o bot.',
+        );
+      }
+    }
+
+    return this.save(userId, instanceName, remoteJid, dto.mode, pausedUntil, updatedByUserId);
+  }
+
+  /**
+   * Pauses the bot after an agent replied manually. Never shortens an
+   * existing pause and never overrides a permanent human takeover.
+   */
+  async pauseAfterManualReply(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    minutes: number,
+    updatedByUserId: string,
+  ): Promise<BotStateView> {
+    const current = await this.repo.findOne({
+      where: { userId, instanceName, remoteJid: normalizeJid(remoteJid) },
+    });
+    const pausedUntil = new Date(Date.now() + minutes * 60 * 1000);
+    if (current?.mode === BotMode.HUMAN) return this.toView(current);
+    if (
+      current?.mode === BotMode.PAUSED &&
+      current.pausedUntil &&
+      current.pausedUntil > pausedUntil
+    ) {
+      return this.toView(current);
+    }
+    return this.save(userId, instanceName, remoteJid, BotMode.PAUSED, pausedUntil, updatedByUserId);
+  }
+
+  private async save(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    mode: BotMode,
+    pausedUntil: Date | null,
+    updatedByUserId: string,
+  ): Promise<BotStateView> {
+    const canonicalJid = normalizeJid(remoteJid);
+    let state = await this.repo.findOne({
+      where: { userId, instanceName, remoteJid: canonicalJid },
+    });
+    if (!state) {
+      state = this.repo.create({ userId, instanceName, remoteJid: canonicalJid });
+    }
+    state.mode = mode;
+    state.pausedUntil = pausedUntil;
+    state.updatedByUserId = updatedByUserId;
+    return this.toView(await this.repo.save(state));
+  }
+
+  /** Expired pauses are reported as active without waiting for a write. */
+  private toView(state: ChatBotState | null): BotStateView {
+    if (!state) return ACTIVE_VIEW;
+    const expired =
+      state.mode === BotMode.PAUSED && (!state.pausedUntil || state.pausedUntil <= new Date());
+    if (expired || state.mode === BotMode.ACTIVE) {
+      return { ...ACTIVE_VIEW, updatedByUserId: state.updatedByUserId, updatedAt: state.updatedAt };
+    }
+    return {
+      mode: state.mode,
+      pausedUntil: state.pausedUntil,
+      botEnabled: false,
+      updatedByUserId: state.updatedByUserId,
+      updatedAt: state.updatedAt,
+    };
+  }
+}
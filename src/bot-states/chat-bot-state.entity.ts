@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum BotMode {
+  /** The n8n flow answers the chat. */
+  ACTIVE = 'active',
+  /** A human took over until `pausedUntil`; the bot resumes afterwards. */
+  PAUSED = 'paused',
+  /** Permanently handled by humans until someone re-enables the bot. */
+  HUMAN = 'human',
+}
+
+@Entity({ name: 'chat_bot_states' })
+@Index('UQ_chat_bot_state', ['userId', 'instanceName', 'remoteJid'], { unique: true })
+export class ChatBotState {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'varchar', default: BotMode.ACTIVE })
+  mode: BotMode;
+
+  @Column({ name: 'paused_until', type: 'timestamp', nullable: true })
+  pausedUntil: Date | null;
+
+  /** User or sub-user who last changed the state. */
+  @Column({ name: 'updated_by_user_id', type: 'uuid', nullable: true })
+  updatedByUserId: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
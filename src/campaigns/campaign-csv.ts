@@ -0,0 +1,99 @@
+import { BadRequestException } from '@nestjs/common';
+
+/** Header names accepted for the phone column (compared lower-cased). */
+const PHONE_HEADERS = ['phone', 'number', 'telefone', 'celular', 'whatsapp', 'numero', 'número'];
+const NAME_HEADERS = ['name', 'nome'];
+/** Keeps an upload from creating an unbounded campaign. */
+export const MAX_CSV_RECIPIENTS = 5000;
+
+export interface CsvRecipient {
+  phone: string;
+  name: string | null;
+  /** Every column keyed by its normalised header. */
+  variables: Record<string, string>;
+}
+
+/**
+ * Parses a recipients CSV. The first row is the header and must contain a
+ * phone column; `,` and `;` (Excel pt-BR) delimiters and double-quoted
+ * fields are supported. Rows without a phone are ignored.
+ */
+export function parseRecipientsCsv(content: string): { columns: string[]; rows: CsvRecipient[] } {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+  const [header, ...records] = splitCsv(text, delimiter).filter((r) => r.some((f) => f.trim()));
+  if (!header) {
+    throw new BadRequestException('O arquivo CSV está vazio.');
+  }
+
+  // Headers become placeholder names: "Data da compra" → {{data_da_compra}}.
+  const columns = header.map((h) => h.trim().toLowerCase().replace(/\s+/g, '_'));
+  const phoneIndex = columns.findIndex((c) => PHONE_HEADERS.includes(c));
+  if (phoneIndex < 0) {
+    throw new BadRequestException(
+      `O CSV precisa de uma coluna de telefone (${PHONE_HEADERS.join(', ')}).`,
+    );
+  }
+  const nameIndex = columns.findIndex((c) => NAME_HEADERS.includes(c));
+
+  const rows: CsvRecipient[] = [];
+  for (const record of records) {
+    let phone = (record[phoneIndex] ?? '').replace(/\D/g, '');
+    if (!phone) continue;
+    // Local Brazilian numbers (DDD + number) get the country code.
+    if (phone.length === 10 || phone.length === 11) phone = `55${phone}`;
+    const variables: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      if (column) variables[column] = (record[i] ?? '').trim();
+    });
+    rows.push({
+      phone,
+      name: nameIndex >= 0 ? (record[nameIndex] ?? '').trim() || null : null,
+      variables,
+    });
+  }
+  if (rows.length > MAX_CSV_RECIPIENTS) {
+    throw new BadRequestException(`O CSV pode ter no máximo ${MAX_CSV_RECIPIENTS} destinatários.`);
+  }
+  return { columns, rows };
+}
+
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,70 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Campaign } from './campaign.entity';
+
+export enum CampaignRecipientStatus {
+  PENDING = 'pending',
+  /** Claimed by the sender; the Evolution call is in flight. */
+  SENDING = 'sending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  /** Not sent because the contact opted out. */
+  SKIPPED = 'skipped',
+}
+
+@Entity({ name: 'campaign_recipients' })
+@Index('UQ_campaign_recipients_jid', ['campaignId', 'remoteJid'], { unique: true })
+@Index('IDX_campaign_recipients_status', ['campaignId', 'status'])
+export class CampaignRecipient {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'campaign_id', type: 'uuid' })
+  campaignId: string;
+
+  @ManyToOne(() => Campaign, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'campaign_id' })
+  campaign: Campaign;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  name: string | null;
+
+  /** Extra template values, e.g. the CSV columns of this row. */
+  @Column({ type: 'jsonb', default: {} })
+  variables: Record<string, string>;
+
+  @Column({ type: 'varchar', default: CampaignRecipientStatus.PENDING })
+  status: CampaignRecipientStatus;
+
+  /** When the ticker moved the recipient to `sending`. */
+  @Column({ name: 'claimed_at', type: 'timestamp', nullable: true })
+  claimedAt: Date | null;
+
+  @Column({ name: 'sent_at', type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  /** WhatsApp message id returned by Evolution once sent. */
+  @Column({ name: 'message_key_id', type: 'varchar', nullable: true })
+  messageKeyId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
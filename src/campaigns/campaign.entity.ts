@@ -0,0 +1,87 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum CampaignStatus {
+  DRAFT = 'draft',
+  RUNNING = 'running',
+  PAUSED = 'paused',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum CampaignSource {
+  CATEGORY = 'category',
+  CSV = 'csv',
+}
+
+@Entity({ name: 'campaigns' })
+@Index('IDX_campaigns_user', ['userId'])
+@Index('IDX_campaigns_status', ['status'])
+export class Campaign {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner (parent) user of the instance. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Display instance name (without the user prefix). */
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  @Column()
+  name: string;
+
+  /** Message body with `{{name}}`, `{{phone}}` and CSV column placeholders. */
+  @Column({ name: 'message_template', type: 'text' })
+  messageTemplate: string;
+
+  @Column({ type: 'varchar', default: CampaignStatus.DRAFT })
+  status: CampaignStatus;
+
+  @Column({ type: 'varchar' })
+  source: CampaignSource;
+
+  @Column({ name: 'category_id', type: 'uuid', nullable: true })
+  categoryId: string | null;
+
+  /** Upper bound of messages sent per minute. */
+  @Column({ name: 'rate_per_minute', type: 'int', default: 10 })
+  ratePerMinute: number;
+
+  /** Random extra wait added between two sends, in seconds. */
+  @Column({ name: 'min_delay_seconds', type: 'int', default: 3 })
+  minDelaySeconds: number;
+
+  @Column({ name: 'max_delay_seconds', type: 'int', default: 15 })
+  maxDelaySeconds: number;
+
+  /** User or sub-user who created the campaign. */
+  @Column({ name: 'created_by_user_id', type: 'uuid' })
+  createdByUserId: string;
+
+  @Column({ name: 'started_at', type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,191 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { CampaignsService } from './campaigns.service';
+import { OptOutsService } from './opt-outs.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { OptOutDto } from './dto/opt-out.dto';
+import { RecipientsQueryDto } from './dto/recipients-query.dto';
+
+const MAX_CSV_BYTES = 2 * 1024 * 1024;
+const DEFAULT_RECIPIENTS_PAGE_SIZE = 100;
+
+@Controller('campaigns')
+export class CampaignsController {
+  constructor(
+    private readonly campaignsService: CampaignsService,
+    private readonly optOutsService: OptOutsService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  private async hasInstancePermission(
+    req: any,
+    instanceName: string,
+    capability: SubUserCapability,
+  ): Promise<boolean> {
+    if (!req.user.parentUserId) return true;
+    return this.subUsersService.hasCapabilityForInstance(
+      req.user.id,
+      instanceName,
+      req.user.parentUserId,
+      capability,
+    );
+  }
+
+  /**
+   * For sub-users, checks that their role on the instance grants
+   * `capability`. Creating or running a campaign needs SEND_MESSAGES.
+   */
+  private async ensureSubUserPermission(
+    req: any,
+    instanceName: string,
+    capability: SubUserCapability,
+  ): Promise<void> {
+    if (!(await this.hasInstancePermission(req, instanceName, capability))) {
+      throw new ForbiddenException('Você não tem permissão para acessar esta instância.');
+    }
+  }
+
+  /** For sub-users, checks that any of their roles grants `capability`. */
+  private async ensureSubUserCapability(req: any, capability: SubUserCapability): Promise<void> {
+    if (!req.user.parentUserId) return;
+    if (!(await this.subUsersService.hasCapability(req.user.id, capability))) {
+      throw new ForbiddenException('Sua função não permite esta ação.');
+    }
+  }
+
+  /** Loads a campaign of the effective user and checks the instance permission. */
+  private async findAccessible(req: any, id: string, capability: SubUserCapability) {
+    const campaign = await this.campaignsService.findOne(id, this.getEffectiveUserId(req));
+    await this.ensureSubUserPermission(req, campaign.instanceName, capability);
+    return campaign;
+  }
+
+  // ---- Opt-outs ----
+
+  @Get('opt-outs')
+  async listOptOuts(@Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    return this.optOutsService.list(this.getEffectiveUserId(req));
+  }
+
+  @Post('opt-outs')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async addOptOut(@Body() body: OptOutDto, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.SEND_MESSAGES);
+    await this.optOutsService.add(this.getEffectiveUserId(req), body.remoteJid);
+  }
+
+  @Delete('opt-outs/:remoteJid')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeOptOut(@Param('remoteJid') remoteJid: string, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.SEND_MESSAGES);
+    await this.optOutsService.remove(this.getEffectiveUserId(req), remoteJid);
+  }
+
+  // ---- Campaigns ----
+
+  @Get()
+  async findAll(@Query('instanceName') instanceName: string, @Request() req: any) {
+    const campaigns = await this.campaignsService.list(this.getEffectiveUserId(req), instanceName);
+    if (!req.user.parentUserId) return campaigns;
+
+    const allowed = new Map<string, boolean>();
+    for (const name of new Set(campaigns.map((c) => c.instanceName))) {
+      allowed.set(name, await this.hasInstancePermission(req, name, SubUserCapability.VIEW_CHATS));
+    }
+    return campaigns.filter((c) => allowed.get(c.instanceName));
+  }
+
+  /**
+   * POST /campaigns
+   *
+   * Creates a draft campaign. Send multipart/form-data with a `file` CSV
+   * (phone column required, name and any other column optional) or JSON
+   * with `categoryId`.
+   *
+   * Body: name, instanceName, message (supports {{name}}, {{phone}} and CSV
+   * columns), ratePerMinute, minDelaySeconds, maxDelaySeconds.
+   */
+  @Post()
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_CSV_BYTES } }))
+  async create(
+    @Body() body: CreateCampaignDto,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, body.instanceName, SubUserCapability.SEND_MESSAGES);
+    return this.campaignsService.create(
+      this.getEffectiveUserId(req),
+      body,
+      file?.buffer,
+      req.user.id,
+    );
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string, @Request() req: any) {
+    await this.findAccessible(req, id, SubUserCapability.VIEW_CHATS);
+    return this.campaignsService.getView(id, this.getEffectiveUserId(req));
+  }
+
+  @Get(':id/recipients')
+  async listRecipients(
+    @Param('id') id: string,
+    @Query() query: RecipientsQueryDto,
+    @Request() req: any,
+  ) {
+    await this.findAccessible(req, id, SubUserCapability.VIEW_CHATS);
+    return this.campaignsService.listRecipients(id, this.getEffectiveUserId(req), {
+      status: query.status,
+      limit: query.limit ?? DEFAULT_RECIPIENTS_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    });
+  }
+
+  @Post(':id/start')
+  async start(@Param('id') id: string, @Request() req: any) {
+    await this.findAccessible(req, id, SubUserCapability.SEND_MESSAGES);
+    return this.campaignsService.start(id, this.getEffectiveUserId(req));
+  }
+
+  @Post(':id/pause')
+  async pause(@Param('id') id: string, @Request() req: any) {
+    await this.findAccessible(req, id, SubUserCapability.SEND_MESSAGES);
+    return this.campaignsService.pause(id, this.getEffectiveUserId(req));
+  }
+
+  @Post(':id/resume')
+  async resume(@Param('id') id: string, @Request() req: any) {
+    await this.findAccessible(req, id, SubUserCapability.SEND_MESSAGES);
+    return this.campaignsService.resume(id, this.getEffectiveUserId(req));
+  }
+
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string, @Request() req: any) {
+    await this.findAccessible(req, id, SubUserCapability.SEND_MESSAGES);
+    return this.campaignsService.cancel(id, this.getEffectiveUserId(req));
+  }
+}
@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Campaign } from './campaign.entity';
+import { CampaignRecipient } from './campaign-recipient.entity';
+import { ContactOptOut } from './contact-opt-out.entity';
+import { CampaignsService } from './campaigns.service';
+import { OptOutsService } from './opt-outs.service';
+import { CampaignsController } from './campaigns.controller';
+import { Message } from '../messages/message.entity';
+import { MessagesModule } from '../messages/messages.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+import { InstancesModule } from '../instances/instances.module';
+import { EvolutionModule } from '../evolution/evolution.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Campaign, CampaignRecipient, ContactOptOut, Message]),
+    MessagesModule,
+    CategoriesModule,
+    SubUsersModule,
+    InstancesModule,
+    EvolutionModule,
+  ],
+  controllers: [CampaignsController],
+  providers: [CampaignsService, OptOutsService],
+  exports: [OptOutsService],
+})
+export class CampaignsModule {}
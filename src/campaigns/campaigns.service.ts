@@ -0,0 +1,473 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, LessThan, Repository } from 'typeorm';
+import { Campaign, CampaignSource, CampaignStatus } from './campaign.entity';
+import { CampaignRecipient, CampaignRecipientStatus } from './campaign-recipient.entity';
+import { parseRecipientsCsv } from './campaign-csv';
+import { OptOutsService } from './opt-outs.service';
+import { CategoriesService } from '../categories/categories.service';
+import { MessagesSenderService } from '../messages/messages-sender.service';
+import { InstancesService } from '../instances/instances.service';
+import { EvolutionApiClient } from '../evolution/evolution-api.client';
+import { Message } from '../messages/message.entity';
+import { extractPhoneFromJid, isStandardUserJid, numberToJid } from '../messages/jid.utils';
+import { CreateCampaignDto } from './dto/create-campaign.dto';
+import { validationException } from '../common/validation.pipe';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+/** Placeholders every recipient has, whatever the source. */
+const BASE_TEMPLATE_VARIABLES = ['name', 'phone'];
+const DEFAULT_TICK_MS = 2000;
+/** A recipient still `sending` this long after being claimed was left by a dead process. */
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+export type CampaignCounts = Record<CampaignRecipientStatus, number> & { total: number };
+
+export interface CampaignView extends Campaign {
+  counts: CampaignCounts;
+}
+
+interface RecipientDraft {
+  remoteJid: string;
+  name: string | null;
+  variables: Record<string, string>;
+}
+
+/**
+ * Bulk sending to a recipient list built from a category or a CSV upload.
+ * Running campaigns are driven by a ticker that sends one message per
+ * campaign at a time, spaced by the campaign's rate plus a random delay.
+ * State lives in the database, so running campaigns continue after a restart.
+ */
+@Injectable()
+export class CampaignsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CampaignsService.name);
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+  /** Earliest time (ms) each running campaign may send its next message. */
+  private readonly nextSendAt = new Map<string, number>();
+
+  constructor(
+    @InjectRepository(Campaign)
+    private readonly campaignRepo: Repository<Campaign>,
+    @InjectRepository(CampaignRecipient)
+    private readonly recipientRepo: Repository<CampaignRecipient>,
+    @InjectRepository(Message)
+    private readonly messageRepo: Repository<Message>,
+    private readonly dataSource: DataSource,
+    private readonly optOutsService: OptOutsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly messagesSenderService: MessagesSenderService,
+    private readonly instancesService: InstancesService,
+    private readonly evolutionApi: EvolutionApiClient,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval = Number(this.config.get('CAMPAIGNS_TICK_MS')) || DEFAULT_TICK_MS;
+    this.tickTimer = setInterval(() => void this.tick(), interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+  }
+
+  // ---- CRUD ----
+
+  async list(userId: string, instanceName?: string): Promise<CampaignView[]> {
+    const where: Record<string, unknown> = { userId };
+    if (instanceName) where.instanceName = instanceName;
+    const campaigns = await this.campaignRepo.find({ where, order: { createdAt: 'DESC' } });
+    const counts = await this.getCounts(campaigns.map((c) => c.id));
+    return campaigns.map((c) => ({ ...c, counts: counts.get(c.id) ?? this.emptyCounts() }));
+  }
+
+  async findOne(id: string, userId: string): Promise<Campaign> {
+    const campaign = await this.campaignRepo.findOne({ where: { id, userId } });
+    if (!campaign) throw new NotFoundException('Campanha não encontrada');
+    return campaign;
+  }
+
+  async getView(id: string, userId: string): Promise<CampaignView> {
+    const campaign = await this.findOne(id, userId);
+    const counts = await this.getCounts([campaign.id]);
+    return { ...campaign, counts: counts.get(campaign.id) ?? this.emptyCounts() };
+  }
+
+  async listRecipients(
+    id: string,
+    userId: string,
+    options: { status?: CampaignRecipientStatus; limit: number; offset: number },
+  ): Promise<{ recipients: CampaignRecipient[]; total: number }> {
+    await this.findOne(id, userId);
+    const where: Record<string, unknown> = { campaignId: id };
+    if (options.status) where.status = options.status;
+    const [recipients, total] = await this.recipientRepo.findAndCount({
+      where,
+      order: { createdAt: 'ASC' },
+      take: options.limit,
+      skip: options.offset,
+    });
+    return { recipients, total };
+  }
+
+  /**
+   * Creates a draft campaign. Recipients come from `csv` when a file is
+   * uploaded, otherwise from the chats assigned to `dto.categoryId`.
+   * Contacts that already opted out are added as skipped.
+   */
+  async create(
+    userId: string,
+    dto: CreateCampaignDto,
+    csv: Buffer | undefined,
+    createdByUserId: string,
+  ): Promise<CampaignView> {
+    await this.assertOwnInstance(userId, dto.instanceName);
+    const ratePerMinute = dto.ratePerMinute ?? 10;
+    const minDelaySeconds = dto.minDelaySeconds ?? 3;
+    const maxDelaySeconds = dto.maxDelaySeconds ?? 15;
+    if (minDelaySeconds > maxDelaySeconds) {
+      throw validationException(
+        'minDelaySeconds',
+        '"minDelaySeconds" não pode ser maior que "maxDelaySeconds".',
+      );
+    }
+
+    let source: CampaignSource;
+    let recipients: RecipientDraft[];
+    let extraVariables: string[] = [];
+    if (csv) {
+      source = CampaignSource.CSV;
+      const parsed = parseRecipientsCsv(csv.toString('utf8'));
+      extraVariables = parsed.columns;
+      recipients = parsed.rows.map((row) => ({
+        remoteJid: numberToJid(row.phone),
+        name: row.name,
+        variables: row.variables,
+      }));
+    } else if (dto.categoryId) {
+      source = CampaignSource.CATEGORY;
+      recipients = await this.getCategoryRecipients(userId, dto.categoryId);
+    } else {
+      throw validationException('categoryId', 'Envie um arquivo CSV ou informe "categoryId".');
+    }
+
+    this.assertKnownVariables(dto.message, [...BASE_TEMPLATE_VARIABLES, ...extraVariables]);
+
+    const unique = new Map<string, RecipientDraft>();
+    for (const recipient of recipients) {
+      if (!unique.has(recipient.remoteJid)) unique.set(recipient.remoteJid, recipient);
+    }
+    if (unique.size === 0) {
+      throw new BadRequestException('A campanha não tem destinatários.');
+    }
+    const optedOut = await this.optOutsService.findOptedOut(userId, [...unique.keys()]);
+
+    const campaign = await this.dataSource.transaction(async (manager) => {
+      const saved = await manager.save(
+        manager.create(Campaign, {
+          userId,
+          instanceName: dto.instanceName,
+          name: dto.name.trim(),
+          messageTemplate: dto.message,
+          status: CampaignStatus.DRAFT,
+          source,
+          categoryId: source === CampaignSource.CATEGORY ? dto.categoryId : null,
+          ratePerMinute,
+          minDelaySeconds,
+          maxDelaySeconds,
+          createdByUserId,
+        }),
+      );
+      const rows = [...unique.values()].map((r) => ({
+        campaignId: saved.id,
+        remoteJid: r.remoteJid,
+        name: r.name,
+        variables: r.variables,
+        status: optedOut.has(r.remoteJid)
+          ? CampaignRecipientStatus.SKIPPED
+          : CampaignRecipientStatus.PENDING,
+        error: optedOut.has(r.remoteJid) ? 'opt-out' : null,
+      }));
+      // Rows are written in chunks to stay well below Postgres' parameter limit.
+      for (let i = 0; i < rows.length; i += 500) {
+        await manager.insert(CampaignRecipient, rows.slice(i, i + 500));
+      }
+      return saved;
+    });
+
+    return this.getView(campaign.id, userId);
+  }
+
+  // ---- Lifecycle ----
+
+  async start(id: string, userId: string): Promise<CampaignView> {
+    const campaign = await this.transition(
+      id,
+      userId,
+      [CampaignStatus.DRAFT],
+      CampaignStatus.RUNNING,
+    );
+    return this.getView(campaign.id, userId);
+  }
+
+  async pause(id: string, userId: string): Promise<CampaignView> {
+    const campaign = await this.transition(
+      id,
+      userId,
+      [CampaignStatus.RUNNING],
+      CampaignStatus.PAUSED,
+    );
+    return this.getView(campaign.id, userId);
+  }
+
+  async resume(id: string, userId: string): Promise<CampaignView> {
+    const campaign = await this.transition(
+      id,
+      userId,
+      [CampaignStatus.PAUSED],
+      CampaignStatus.RUNNING,
+    );
+    return this.getView(campaign.id, userId);
+  }
+
+  async cancel(id: string, userId: string): Promise<CampaignView> {
+    const campaign = await this.transition(
+      id,
+      userId,
+      [CampaignStatus.DRAFT, CampaignStatus.RUNNING, CampaignStatus.PAUSED],
+      CampaignStatus.CANCELLED,
+    );
+    return this.getView(campaign.id, userId);
+  }
+
+  private async transition(
+    id: string,
+    userId: string,
+    from: CampaignStatus[],
+    to: CampaignStatus,
+  ): Promise<Campaign> {
+    const campaign = await this.findOne(id, userId);
+    if (!from.includes(campaign.status)) {
+      throw new BadRequestException(
+        `Não é possível passar a campanha de "${campaign.status}" para "${to}".`,
+      );
+    }
+    campaign.status = to;
+    if (to === CampaignStatus.RUNNING && !campaign.startedAt) campaign.startedAt = new Date();
+    if (to === CampaignStatus.CANCELLED) campaign.completedAt = new Date();
+    if (to !== CampaignStatus.RUNNING) this.nextSendAt.delete(campaign.id);
+    return this.campaignRepo.save(campaign);
+  }
+
+  // ---- Sending ----
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      await this.failStaleSends();
+      const running = await this.campaignRepo.find({ where: { status: CampaignStatus.RUNNING } });
+      const now = Date.now();
+      for (const campaign of running) {
+        if ((this.nextSendAt.get(campaign.id) ?? 0) > now) continue;
+        await this.sendNext(campaign);
+      }
+    } catch (error) {
+      this.logger.error(`Campaign tick failed: ${(error as Error).message}`);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async sendNext(campaign: Campaign): Promise<void> {
+    const recipient = await this.recipientRepo.findOne({
+      where: { campaignId: campaign.id, status: CampaignRecipientStatus.PENDING },
+      order: { createdAt: 'ASC' },
+    });
+    if (!recipient) {
+      await this.campaignRepo.update(
+        { id: campaign.id, status: CampaignStatus.RUNNING },
+        { status: CampaignStatus.COMPLETED, completedAt: new Date() },
+      );
+      this.nextSendAt.delete(campaign.id);
+      this.logger.log(`Campaign ${campaign.id} completed`);
+      return;
+    }
+
+    const claim = await this.recipientRepo.update(
+      { id: recipient.id, status: CampaignRecipientStatus.PENDING },
+      { status: CampaignRecipientStatus.SENDING, claimedAt: new Date() },
+    );
+    if (!claim.affected) return;
+
+    // The contact may have replied STOP after the campaign was created.
+    if (await this.optOutsService.isOptedOut(campaign.userId, recipient.remoteJid)) {
+      await this.recipientRepo.update(recipient.id, {
+        status: CampaignRecipientStatus.SKIPPED,
+        error: 'opt-out',
+      });
+      return;
+    }
+
+    const phone = extractPhoneFromJid(recipient.remoteJid).phone;
+    try {
+      const data = await this.messagesSenderService.sendText(
+        campaign.userId,
+        campaign.instanceName,
+        { number: phone, text: this.render(campaign.messageTemplate, recipient, phone) },
+        campaign.createdByUserId,
+      );
+      await this.recipientRepo.update(recipient.id, {
+        status: CampaignRecipientStatus.SENT,
+        sentAt: new Date(),
+        messageKeyId: data?.key?.id ?? null,
+        error: null,
+      });
+    } catch (error) {
+      const message = (error as Error).message || 'Unknown error';
+      this.logger.warn(`Campaign ${campaign.id} failed for ${recipient.remoteJid}: ${message}`);
+      await this.recipientRepo.update(recipient.id, {
+        status: CampaignRecipientStatus.FAILED,
+        error: message,
+      });
+    }
+
+    this.nextSendAt.set(campaign.id, Date.now() + this.nextDelayMs(campaign));
+  }
+
+  /** Rate-limit spacing plus a random jitter between the configured bounds. */
+  private nextDelayMs(campaign: Campaign): number {
+    const spacing = 60000 / Math.max(1, campaign.ratePerMinute);
+    const jitter =
+      campaign.minDelaySeconds +
+      Math.random() * (campaign.maxDelaySeconds - campaign.minDelaySeconds);
+    return spacing + jitter * 1000;
+  }
+
+  /**
+   * Recipients left in `sending` by a crashed process may or may not have
+   * been messaged. Once their lease is over they are marked failed instead
+   * of being retried.
+   */
+  private async failStaleSends(): Promise<void> {
+    const result = await this.recipientRepo.update(
+      {
+        status: CampaignRecipientStatus.SENDING,
+        claimedAt: LessThan(new Date(Date.now() - SENDING_LEASE_MS)),
+      },
+      {
+        status: CampaignRecipientStatus.FAILED,
+        error: 'Envio interrompido por uma falha do servidor; verifique a conversa.',
+      },
+    );
+    if (result.affected) {
+      this.logger.warn(`Marked ${result.affected} interrupted campaign sends as failed`);
+    }
+  }
+
+  // ---- Helpers ----
+
+  private render(template: string, recipient: CampaignRecipient, phone: string): string {
+    const values: Record<string, string> = {
+      ...recipient.variables,
+      name: recipient.name || '',
+      phone,
+    };
+    return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => values[name] ?? '');
+  }
+
+  /** Campaigns may only send through one of the owner's Evolution instances. */
+  private async assertOwnInstance(userId: string, instanceName: string): Promise<void> {
+    const fullName = this.instancesService.getPrefixedInstanceName(userId, instanceName);
+    const instances = await this.evolutionApi.fetchInstances();
+    if (!instances.some((instance) => (instance.name || instance.instanceName) === fullName)) {
+      throw validationException('instanceName', 'Instância não encontrada.');
+    }
+  }
+
+  private assertKnownVariables(template: string, known: string[]): void {
+    const unknownVariables = [
+      ...new Set(
+        [...template.matchAll(PLACEHOLDER_PATTERN)]
+          .map((match) => match[1])
+          .filter((name) => !known.includes(name)),
+      ),
+    ];
+    if (unknownVariables.length > 0) {
+      throw validationException(
+        'message',
+        `Variáveis desconhecidas na mensagem: ${unknownVariables.join(', ')}`,
+      );
+    }
+  }
+
+  /** 1:1 chats of a category, named after the contact's latest pushName. */
+  private async getCategoryRecipients(
+    userId: string,
+    categoryId: string,
+  ): Promise<RecipientDraft[]> {
+    const assignments = await this.categoriesService.getCategoryAssignments(userId, categoryId);
+    const jids = [
+      ...new Set(
+        assignments
+          .filter((a) => isStandardUserJid(a.remoteJid))
+          .map((a) => numberToJid(a.remoteJid)),
+      ),
+    ];
+    if (jids.length === 0) return [];
+
+    const names: { remote_jid: string; push_name: string }[] = await this.messageRepo
+      .createQueryBuilder('m')
+      .select('DISTINCT ON (m.remote_jid) m.remote_jid', 'remote_jid')
+      .addSelect('m.push_name', 'push_name')
+      .where('m.user_id = :userId', { userId })
+      .andWhere('m.remote_jid IN (:...jids)', { jids })
+      .andWhere('m.from_me = false')
+      .andWhere('m.push_name IS NOT NULL')
+      .orderBy('m.remote_jid')
+      .addOrderBy('m.sent_at', 'DESC')
+      .getRawMany();
+    const nameByJid = new Map(names.map((n) => [n.remote_jid, n.push_name]));
+
+    return jids.map((remoteJid) => ({
+      remoteJid,
+      name: nameByJid.get(remoteJid) ?? null,
+      variables: {},
+    }));
+  }
+
+  private async getCounts(campaignIds: string[]): Promise<Map<string, CampaignCounts>> {
+    const result = new Map<string, CampaignCounts>();
+    if (campaignIds.length === 0) return result;
+    const rows: { campaign_id: string; status: CampaignRecipientStatus; count: string }[] =
+      await this.recipientRepo
+        .createQueryBuilder('r')
+        .select('r.campaign_id', 'campaign_id')
+        .addSelect('r.status', 'status')
+        .addSelect('COUNT(*)', 'count')
+        .where({ campaignId: In(campaignIds) })
+        .groupBy('r.campaign_id')
+        .addGroupBy('r.status')
+        .getRawMany();
+    for (const row of rows) {
+      const counts = result.get(row.campaign_id) ?? this.emptyCounts();
+      counts[row.status] = Number(row.count);
+      counts.total += Number(row.count);
+      result.set(row.campaign_id, counts);
+    }
+    return result;
+  }
+
+  private emptyCounts(): CampaignCounts {
+    return { pending: 0, sending: 0, sent: 0, failed: 0, skipped: 0, total: 0 };
+  }
+}
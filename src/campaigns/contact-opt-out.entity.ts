@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * Contact who asked not to receive campaigns (e.g. replied "STOP"). Opt-outs
+ * apply to every instance of the owner.
+ */
+@Entity({ name: 'contact_opt_outs' })
+@Index('UQ_contact_opt_outs_jid', ['userId', 'remoteJid'], { unique: true })
+export class ContactOptOut {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  /** Instance the opt-out message arrived on, when it came from a reply. */
+  @Column({ name: 'instance_name', type: 'varchar', nullable: true })
+  instanceName: string | null;
+
+  /** Text of the reply that triggered the opt-out, or null when added manually. */
+  @Column({ name: 'message_text', type: 'text', nullable: true })
+  messageText: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,46 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+const MAX_RATE_PER_MINUTE = 60;
+const MAX_DELAY_SECONDS = 600;
+
+/** Multipart bodies carry numbers as strings; `@Type` converts them. */
+export class CreateCampaignDto {
+  @IsString()
+  @IsNotBlank()
+  name: string;
+
+  @IsString()
+  @IsNotEmpty()
+  instanceName: string;
+
+  @IsString()
+  @IsNotBlank()
+  message: string;
+
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RATE_PER_MINUTE)
+  ratePerMinute?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_SECONDS)
+  minDelaySeconds?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DELAY_SECONDS)
+  maxDelaySeconds?: number;
+}
@@ -0,0 +1,22 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { CampaignRecipientStatus } from '../campaign-recipient.entity';
+
+export class RecipientsQueryDto {
+  @IsOptional()
+  @IsEnum(CampaignRecipientStatus)
+  status?: CampaignRecipientStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number;
+}
@@ -0,0 +1,117 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { ContactOptOut } from './contact-opt-out.entity';
+import { MessagesRealtimeService, RealtimeEnvelope } from '../messages/messages-realtime.service';
+import {
+  extractMessageRecords,
+  extractMessageText,
+  getRecordCanonicalJid,
+} from '../messages/evolution-message.utils';
+import { numberToJid } from '../messages/jid.utils';
+
+/**
+ * Replies that opt a contact out of campaigns. Matched against the whole
+ * message after trimming, lower-casing and stripping accents/punctuation,
+ * so "Parar!" counts but "não quero parar de receber" does not.
+ */
+const OPT_OUT_KEYWORDS = new Set([
+  'stop',
+  'parar',
+  'pare',
+  'sair',
+  'cancelar',
+  'descadastrar',
+  'remover',
+  'unsubscribe',
+]);
+
+@Injectable()
+export class OptOutsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(OptOutsService.name);
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    @InjectRepository(ContactOptOut)
+    private readonly repo: Repository<ContactOptOut>,
+    private readonly realtimeService: MessagesRealtimeService,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.realtimeService.subscribe((envelope) => {
+      if (envelope.event === 'MESSAGES_UPSERT') void this.handleIncoming(envelope);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+  }
+
+  async list(userId: string): Promise<ContactOptOut[]> {
+    return this.repo.find({ where: { userId }, order: { createdAt: 'DESC' } });
+  }
+
+  /** Canonical JIDs among `remoteJids` that opted out. */
+  async findOptedOut(userId: string, remoteJids: string[]): Promise<Set<string>> {
+    if (remoteJids.length === 0) return new Set();
+    const rows = await this.repo.find({ where: { userId, remoteJid: In(remoteJids) } });
+    return new Set(rows.map((row) => row.remoteJid));
+  }
+
+  async isOptedOut(userId: string, remoteJid: string): Promise<boolean> {
+    return this.repo.existsBy({ userId, remoteJid: numberToJid(remoteJid) });
+  }
+
+  async add(
+    userId: string,
+    remoteJid: string,
+    source: { instanceName?: string; messageText?: string } = {},
+  ): Promise<void> {
+    await this.repo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        userId,
+        remoteJid: numberToJid(remoteJid),
+        instanceName: source.instanceName ?? null,
+        messageText: source.messageText ?? null,
+      })
+      .orIgnore()
+      .execute();
+  }
+
+  async remove(userId: string, remoteJid: string): Promise<void> {
+    await this.repo.delete({ userId, remoteJid: numberToJid(remoteJid) });
+  }
+
+  isOptOutMessage(text: string): boolean {
+    const normalized = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .trim()
+      .toLowerCase();
+    return OPT_OUT_KEYWORDS.has(normalized);
+  }
+
+  private async handleIncoming(envelope: RealtimeEnvelope): Promise<void> {
+    if (!envelope.ownerUserId) return;
+    try {
+      for (const record of extractMessageRecords(envelope.payload)) {
+        if (record.key?.fromMe) continue;
+        const remoteJid = getRecordCanonicalJid(record);
+        const text = extractMessageText(record);
+        if (!remoteJid || !text || !this.isOptOutMessage(text)) continue;
+        await this.add(envelope.ownerUserId, remoteJid, {
+          instanceName: envelope.instanceName,
+          messageText: text,
+        });
+        this.logger.log(`${remoteJid} opted out of campaigns on ${envelope.fullInstanceName}`);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to process opt-outs for ${envelope.fullInstanceName}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
@@ -9,12 +9,22 @@ import {
   Request,
   HttpCode,
   HttpStatus,
+  ForbiddenException,
 } from '@nestjs/common';
 import { CategoriesService } from './categories.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { ChatRefDto } from '../common/dto/chat-ref.dto';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { ReorderChatsDto } from './dto/reorder-chats.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
 
 @Controller('categories')
 export class CategoriesController {
-  constructor(private readonly categoriesService: CategoriesService) {}
+  constructor(
+    private readonly categoriesService: CategoriesService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
 
   /**
    * Returns the effective userId, using the parent's id for sub-users.
@@ -23,6 +33,25 @@ export class CategoriesController {
     return req.user.parentUserId || req.user.id;
   }
 
+  /**
+   * Sub-users need MANAGE_CATEGORIES: on `instanceName` when the action
+   * targets a chat, otherwise on any of their instances.
+   */
+  private async ensureCanManageCategories(req: any, instanceName?: string): Promise<void> {
+    if (!req.user.parentUserId) return;
+    const allowed = instanceName
+      ? await this.subUsersService.hasCapabilityForInstance(
+          req.user.id,
+          instanceName,
+          req.user.parentUserId,
+          SubUserCapability.MANAGE_CATEGORIES,
+        )
+      : await this.subUsersService.hasCapability(req.user.id, SubUserCapability.MANAGE_CATEGORIES);
+    if (!allowed) {
+      throw new ForbiddenException('Você não tem permissão para gerenciar categorias.');
+    }
+  }
+
   // ---- Categories CRUD ----
 
   @Get()
@@ -32,20 +61,15 @@ export class CategoriesController {
   }
 
   @Post()
-  async create(
-    @Request() req: any,
-    @Body() body: { name: string; color?: string },
-  ) {
+  async create(@Request() req: any, @Body() body: CreateCategoryDto) {
+    await this.ensureCanManageCategories(req);
     const userId = this.getEffectiveUserId(req);
     return this.categoriesService.create(userId, body);
   }
 
   @Patch(':id')
-  async update(
-    @Param('id') id: string,
-    @Request() req: any,
-    @Body() body: { name?: string; color?: string; position?: number },
-  ) {
+  async update(@Param('id') id: string, @Request() req: any, @Body() body: UpdateCategoryDto) {
+    await this.ensureCanManageCategories(req);
     const userId = this.getEffectiveUserId(req);
     return this.categoriesService.update(id, userId, body);
   }
@@ -53,6 +77,7 @@ export class CategoriesController {
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   async delete(@Param('id') id: string, @Request() req: any) {
+    await this.ensureCanManageCategories(req);
     const userId = this.getEffectiveUserId(req);
     await this.categoriesService.delete(id, userId);
   }
@@ -66,11 +91,8 @@ export class CategoriesController {
   }
 
   @Post(':id/assign')
-  async assignChat(
-    @Param('id') categoryId: string,
-    @Request() req: any,
-    @Body() body: { remoteJid: string; instanceName: string },
-  ) {
+  async assignChat(@Param('id') categoryId: string, @Request() req: any, @Body() body: ChatRefDto) {
+    await this.ensureCanManageCategories(req, body.instanceName);
     const userId = this.getEffectiveUserId(req);
     return this.categoriesService.assignChat(userId, {
       categoryId,
@@ -84,8 +106,9 @@ export class CategoriesController {
   async unassignChat(
     @Param('id') categoryId: string,
     @Request() req: any,
-    @Body() body: { remoteJid: string; instanceName: string },
+    @Body() body: ChatRefDto,
   ) {
+    await this.ensureCanManageCategories(req, body.instanceName);
     const userId = this.getEffectiveUserId(req);
     await this.categoriesService.unassignChat(userId, {
       remoteJid: body.remoteJid,
@@ -98,8 +121,9 @@ export class CategoriesController {
   async reorderChats(
     @Param('id') categoryId: string,
     @Request() req: any,
-    @Body() body: { chats: { remoteJid: string; instanceName: string }[] },
+    @Body() body: ReorderChatsDto,
   ) {
+    await this.ensureCanManageCategories(req);
     const userId = this.getEffectiveUserId(req);
     await this.categoriesService.reorderChats(categoryId, userId, body.chats);
   }
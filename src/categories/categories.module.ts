@@ -2,13 +2,23 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Category } from './category.entity';
 import { ChatCategoryAssignment } from './chat-category-assignment.entity';
+import { CategoryRule } from './category-rule.entity';
+import { Message } from '../messages/message.entity';
+import { MessagesModule } from '../messages/messages.module';
+import { SubUsersModule } from '../sub-users/sub-users.module';
 import { CategoriesService } from './categories.service';
+import { CategoryRulesService } from './category-rules.service';
 import { CategoriesController } from './categories.controller';
+import { CategoryRulesController } from './category-rules.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Category, ChatCategoryAssignment])],
-  controllers: [CategoriesController],
-  providers: [CategoriesService],
+  imports: [
+    TypeOrmModule.forFeature([Category, ChatCategoryAssignment, CategoryRule, Message]),
+    MessagesModule,
+    SubUsersModule,
+  ],
+  controllers: [CategoriesController, CategoryRulesController],
+  providers: [CategoriesService, CategoryRulesService],
   exports: [CategoriesService],
 })
 export class CategoriesModule {}
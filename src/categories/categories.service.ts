@@ -67,6 +67,19 @@ export class CategoriesService {
     return this.assignmentRepo.find({ where: { userId } });
   }
 
+  /** Chats assigned to one of the user's categories; 404 when the category isn't theirs. */
+  async getCategoryAssignments(
+    userId: string,
+    categoryId: string,
+  ): Promise<ChatCategoryAssignment[]> {
+    const category = await this.categoryRepo.findOne({ where: { id: categoryId, userId } });
+    if (!category) throw new NotFoundException('Categoria não encontrada');
+    return this.assignmentRepo.find({
+      where: { categoryId, userId },
+      order: { position: 'ASC' },
+    });
+  }
+
   async assignChat(
     userId: string,
     dto: { categoryId: string; remoteJid: string; instanceName: string },
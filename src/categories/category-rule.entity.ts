@@ -0,0 +1,65 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+import { Category } from './category.entity';
+
+/**
+ * Moves uncategorized chats into `categoryId` when an incoming message meets
+ * every configured condition. Empty conditions are ignored; rules run by
+ * ascending `priority` and the first match wins.
+ */
+@Entity({ name: 'category_rules' })
+@Index('IDX_category_rules_user_priority', ['userId', 'priority'])
+export class CategoryRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  @Column({ name: 'category_id', type: 'uuid' })
+  categoryId: string;
+
+  @ManyToOne(() => Category, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'category_id' })
+  category: Category;
+
+  @Column({ type: 'int', default: 0 })
+  priority: number;
+
+  @Column({ default: true })
+  enabled: boolean;
+
+  /** Matches when the message text contains any of these (case/accent-insensitive). */
+  @Column({ type: 'jsonb', default: [] })
+  keywords: string[];
+
+  /** Matches messages received on any of these instances (display names). */
+  @Column({ name: 'instance_names', type: 'jsonb', default: [] })
+  instanceNames: string[];
+
+  /** Matches only the first message ever received from the chat. */
+  @Column({ name: 'new_contact_only', default: false })
+  newContactOnly: boolean;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,95 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+} from '@nestjs/common';
+import { CategoryRulesService } from './category-rules.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { CategoryRuleDto } from './dto/category-rule.dto';
+import { ReorderRulesDto } from './dto/reorder-rules.dto';
+
+@Controller('categories/rules')
+export class CategoryRulesController {
+  constructor(
+    private readonly rulesService: CategoryRulesService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /**
+   * Sub-users need MANAGE_CATEGORIES on at least one of their instances.
+   */
+  private async ensureCanManageCategories(req: any): Promise<void> {
+    if (!req.user.parentUserId) return;
+    const allowed = await this.subUsersService.hasCapability(
+      req.user.id,
+      SubUserCapability.MANAGE_CATEGORIES,
+    );
+    if (!allowed) {
+      throw new ForbiddenException('Você não tem permissão para gerenciar categorias.');
+    }
+  }
+
+  @Get()
+  async findAll(@Request() req: any) {
+    return this.rulesService.findAll(this.getEffectiveUserId(req));
+  }
+
+  @Post()
+  async create(@Request() req: any, @Body() body: CategoryRuleDto) {
+    await this.ensureCanManageCategories(req);
+    return this.rulesService.create(this.getEffectiveUserId(req), body);
+  }
+
+  /** Body: { ruleIds: string[] } in the desired evaluation order. */
+  @Post('reorder')
+  async reorder(@Request() req: any, @Body() body: ReorderRulesDto) {
+    await this.ensureCanManageCategories(req);
+    return this.rulesService.reorder(this.getEffectiveUserId(req), body.ruleIds);
+  }
+
+  /** Previews an unsaved rule against recent inbound messages. */
+  @Post('dry-run')
+  @HttpCode(HttpStatus.OK)
+  async dryRun(@Request() req: any, @Body() body: CategoryRuleDto, @Query('days') days?: string) {
+    await this.ensureCanManageCategories(req);
+    return this.rulesService.dryRun(this.getEffectiveUserId(req), body, Number(days));
+  }
+
+  @Get(':id/dry-run')
+  async dryRunSaved(@Param('id') id: string, @Request() req: any, @Query('days') days?: string) {
+    await this.ensureCanManageCategories(req);
+    const userId = this.getEffectiveUserId(req);
+    const rule = await this.rulesService.findOne(id, userId);
+    return this.rulesService.dryRun(userId, rule, Number(days));
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Request() req: any, @Body() body: CategoryRuleDto) {
+    await this.ensureCanManageCategories(req);
+    return this.rulesService.update(id, this.getEffectiveUserId(req), body);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(@Param('id') id: string, @Request() req: any) {
+    await this.ensureCanManageCategories(req);
+    await this.rulesService.delete(id, this.getEffectiveUserId(req));
+  }
+}
@@ -0,0 +1,361 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { CategoryRule } from './category-rule.entity';
+import { Category } from './category.entity';
+import { ChatCategoryAssignment } from './chat-category-assignment.entity';
+import { CategoriesService } from './categories.service';
+import { Message } from '../messages/message.entity';
+import { MessagesRealtimeService, RealtimeEnvelope } from '../messages/messages-realtime.service';
+import {
+  extractMessageRecords,
+  extractMessageText,
+  getRecordCanonicalJid,
+} from '../messages/evolution-message.utils';
+import { getJidVariations, isStandardUserJid } from '../messages/jid.utils';
+import { CategoryRuleDto } from './dto/category-rule.dto';
+import { validationException } from '../common/validation.pipe';
+
+const DEFAULT_DRY_RUN_DAYS = 7;
+const MAX_DRY_RUN_DAYS = 30;
+/** Messages scanned by a dry run; keeps the preview cheap on busy accounts. */
+const DRY_RUN_MESSAGE_LIMIT = 5000;
+
+/** What a rule sees of one incoming message. */
+interface RuleInput {
+  instanceName: string;
+  text: string | null;
+  isFirstMessage: boolean;
+}
+
+export interface DryRunMatch {
+  instanceName: string;
+  remoteJid: string;
+  pushName: string | null;
+  matchedText: string | null;
+  matchedAt: Date;
+  /** Category the chat is in today, if any. */
+  currentCategoryId: string | null;
+  /** False when the chat is already categorized, so the rule would leave it alone. */
+  wouldAssign: boolean;
+}
+
+@Injectable()
+export class CategoryRulesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CategoryRulesService.name);
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    @InjectRepository(CategoryRule)
+    private readonly ruleRepo: Repository<CategoryRule>,
+    @InjectRepository(Category)
+    private readonly categoryRepo: Repository<Category>,
+    @InjectRepository(ChatCategoryAssignment)
+    private readonly assignmentRepo: Repository<ChatCategoryAssignment>,
+    @InjectRepository(Message)
+    private readonly messageRepo: Repository<Message>,
+    private readonly categoriesService: CategoriesService,
+    private readonly realtimeService: MessagesRealtimeService,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.realtimeService.subscribe((envelope) => {
+      if (envelope.event === 'MESSAGES_UPSERT') void this.handleIncoming(envelope);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+  }
+
+  // ---- CRUD ----
+
+  async findAll(userId: string): Promise<CategoryRule[]> {
+    return this.ruleRepo.find({
+      where: { userId },
+      order: { priority: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(id: string, userId: string): Promise<CategoryRule> {
+    const rule = await this.ruleRepo.findOne({ where: { id, userId } });
+    if (!rule) throw new NotFoundException('Regra não encontrada');
+    return rule;
+  }
+
+  async create(userId: string, dto: CategoryRuleDto): Promise<CategoryRule> {
+    const rule = this.ruleRepo.create({ userId });
+    await this.apply(rule, dto, true);
+    if (dto.priority === undefined) {
+      const maxResult = await this.ruleRepo
+        .createQueryBuilder('r')
+        .select('COALESCE(MAX(r.priority), -1)', 'maxPriority')
+        .where('r.user_id = :userId', { userId })
+        .getRawOne();
+      rule.priority = Number(maxResult?.maxPriority ?? -1) + 1;
+    }
+    return this.ruleRepo.save(rule);
+  }
+
+  async update(id: string, userId: string, dto: CategoryRuleDto): Promise<CategoryRule> {
+    const rule = await this.findOne(id, userId);
+    await this.apply(rule, dto, false);
+    return this.ruleRepo.save(rule);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    const rule = await this.findOne(id, userId);
+    await this.ruleRepo.remove(rule);
+  }
+
+  /** Rewrites priorities to follow the order of `ruleIds`. */
+  async reorder(userId: string, ruleIds: string[]): Promise<CategoryRule[]> {
+    const rules = await this.ruleRepo.find({ where: { userId, id: In(ruleIds) } });
+    if (rules.length !== new Set(ruleIds).size) {
+      throw new NotFoundException('Regra não encontrada');
+    }
+    await Promise.all(
+      ruleIds.map((ruleId, index) =>
+        this.ruleRepo.update({ id: ruleId, userId }, { priority: index }),
+      ),
+    );
+    return this.findAll(userId);
+  }
+
+  // ---- Evaluation ----
+
+  /**
+   * Categorizes the chats of incoming 1:1 messages. Chats that already sit
+   * in a category are never moved, so manual kanban moves always win.
+   */
+  private async handleIncoming(envelope: RealtimeEnvelope): Promise<void> {
+    if (!envelope.ownerUserId) return;
+    try {
+      const rules = (await this.findAll(envelope.ownerUserId)).filter((r) => r.enabled);
+      if (rules.length === 0) return;
+
+      for (const record of extractMessageRecords(envelope.payload)) {
+        if (record.key?.fromMe) continue;
+        const remoteJid = getRecordCanonicalJid(record);
+        const rawJid = record.key?.remoteJid;
+        if (!remoteJid || !rawJid || !isStandardUserJid(remoteJid)) continue;
+
+        const existing = await this.findAssignment(
+          envelope.ownerUserId,
+          envelope.instanceName,
+          remoteJid,
+        );
+        if (existing) continue;
+
+        const input: RuleInput = {
+          instanceName: envelope.instanceName,
+          text: extractMessageText(record),
+          isFirstMessage: await this.isFirstMessage(
+            envelope.ownerUserId,
+            envelope.instanceName,
+            remoteJid,
+            record.key?.id,
+          ),
+        };
+        const rule = rules.find((r) => this.matches(r, input));
+        if (!rule) continue;
+
+        // The kanban matches assignments by the JID Evolution lists the chat
+        // under, so keep the raw JID unless it is an opaque @lid.
+        await this.categoriesService.assignChat(envelope.ownerUserId, {
+          categoryId: rule.categoryId,
+          remoteJid: isStandardUserJid(rawJid) ? rawJid : remoteJid,
+          instanceName: envelope.instanceName,
+        });
+        this.logger.log(
+          `Rule "${rule.name}" moved ${remoteJid} on ${envelope.fullInstanceName} to category ${rule.categoryId}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to apply category rules for ${envelope.fullInstanceName}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Shows which chats with inbound messages in the last `days` a rule would
+   * have matched. `rule` may be a saved rule or an unsaved definition.
+   * Messages are scanned newest first; `truncated` is set when the older ones
+   * were cut off by DRY_RUN_MESSAGE_LIMIT.
+   */
+  async dryRun(
+    userId: string,
+    rule: CategoryRuleDto,
+    daysParam?: number,
+  ): Promise<{ matches: DryRunMatch[]; scannedMessages: number; truncated: boolean }> {
+    const days = Math.min(Math.max(Number(daysParam) || DEFAULT_DRY_RUN_DAYS, 1), MAX_DRY_RUN_DAYS);
+    const candidate = this.ruleRepo.create({ userId });
+    // Name and category are optional here: a preview needs only the conditions.
+    await this.apply(candidate, rule, false);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const messages = await this.messageRepo
+      .createQueryBuilder('m')
+      .where('m.user_id = :userId', { userId })
+      .andWhere('m.from_me = false')
+      .andWhere('m.deleted_at IS NULL')
+      .andWhere('m.sent_at >= :since', { since })
+      .orderBy('m.sent_at', 'DESC')
+      .take(DRY_RUN_MESSAGE_LIMIT + 1)
+      .getMany();
+    const truncated = messages.length > DRY_RUN_MESSAGE_LIMIT;
+    if (truncated) messages.pop();
+    if (messages.length === 0) return { matches: [], scannedMessages: 0, truncated };
+
+    const firstKeyByChat = await this.getFirstMessageKeys(userId, messages);
+    const assignments = await this.assignmentRepo.find({ where: { userId } });
+
+    const matches = new Map<string, DryRunMatch>();
+    for (const message of messages) {
+      const chatKey = `${message.instanceName}|${message.remoteJid}`;
+      // Newest first, so each chat reports its latest matching message.
+      if (matches.has(chatKey)) continue;
+      const input: RuleInput = {
+        instanceName: message.instanceName,
+        text: message.text,
+        isFirstMessage: firstKeyByChat.get(chatKey) === message.keyId,
+      };
+      if (!this.matches(candidate, input)) continue;
+
+      const variants = new Set(getJidVariations(message.remoteJid));
+      variants.add(message.rawRemoteJid);
+      const assignment = assignments.find(
+        (a) => a.instanceName === message.instanceName && variants.has(a.remoteJid),
+      );
+      matches.set(chatKey, {
+        instanceName: message.instanceName,
+        remoteJid: message.remoteJid,
+        pushName: message.pushName,
+        matchedText: message.text,
+        matchedAt: message.sentAt,
+        currentCategoryId: assignment?.categoryId ?? null,
+        wouldAssign: !assignment,
+      });
+    }
+    return { matches: [...matches.values()], scannedMessages: messages.length, truncated };
+  }
+
+  private matches(rule: CategoryRule, input: RuleInput): boolean {
+    if (rule.instanceNames.length > 0 && !rule.instanceNames.includes(input.instanceName)) {
+      return false;
+    }
+    if (rule.newContactOnly && !input.isFirstMessage) return false;
+    if (rule.keywords.length > 0) {
+      const text = this.normalizeText(input.text || '');
+      if (!rule.keywords.some((keyword) => text.includes(this.normalizeText(keyword)))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // ---- Helpers ----
+
+  private async findAssignment(
+    userId: string,
+    instanceName: string,
+    canonicalJid: string,
+  ): Promise<ChatCategoryAssignment | null> {
+    return this.assignmentRepo.findOne({
+      where: { userId, instanceName, remoteJid: In(getJidVariations(canonicalJid)) },
+    });
+  }
+
+  /** True when no earlier message of the chat is stored. */
+  private async isFirstMessage(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    keyId: string | undefined,
+  ): Promise<boolean> {
+    const qb = this.messageRepo
+      .createQueryBuilder('m')
+      .where('m.user_id = :userId', { userId })
+      .andWhere('m.instance_name = :instanceName', { instanceName })
+      .andWhere('m.remote_jid = :remoteJid', { remoteJid });
+    if (keyId) qb.andWhere('m.key_id != :keyId', { keyId });
+    return (await qb.getCount()) === 0;
+  }
+
+  /** keyId of the earliest stored message of every chat in `messages`. */
+  private async getFirstMessageKeys(
+    userId: string,
+    messages: Message[],
+  ): Promise<Map<string, string>> {
+    const jids = [...new Set(messages.map((m) => m.remoteJid))];
+    const rows: { instance_name: string; remote_jid: string; key_id: string }[] =
+      await this.messageRepo
+        .createQueryBuilder('m')
+        .select('DISTINCT ON (m.instance_name, m.remote_jid) m.instance_name', 'instance_name')
+        .addSelect('m.remote_jid', 'remote_jid')
+        .addSelect('m.key_id', 'key_id')
+        .where('m.user_id = :userId', { userId })
+        .andWhere('m.remote_jid IN (:...jids)', { jids })
+        .orderBy('m.instance_name')
+        .addOrderBy('m.remote_jid')
+        .addOrderBy('m.sent_at', 'ASC')
+        .getRawMany();
+    return new Map(rows.map((r) => [`${r.instance_name}|${r.remote_jid}`, r.key_id]));
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+  }
+
+  /**
+   * Copies `dto` onto `rule`. Types are checked by CategoryRuleDto; this adds
+   * the rules that depend on the whole rule or on the database.
+   */
+  private async apply(
+    rule: CategoryRule,
+    dto: CategoryRuleDto,
+    requireAll: boolean,
+  ): Promise<void> {
+    if (dto.name !== undefined || requireAll) {
+      const name = dto.name?.trim();
+      if (!name) throw validationException('name', 'Field "name" is required.');
+      rule.name = name;
+    }
+    if (dto.categoryId !== undefined || requireAll) {
+      const category = dto.categoryId
+        ? await this.categoryRepo.findOne({ where: { id: dto.categoryId, userId: rule.userId } })
+        : null;
+      if (!category) throw new NotFoundException('Categoria não encontrada');
+      rule.categoryId = category.id;
+    }
+    if (dto.priority !== undefined) rule.priority = dto.priority;
+    if (dto.enabled !== undefined) rule.enabled = dto.enabled;
+    rule.keywords = this.normalizeList(dto.keywords) ?? rule.keywords ?? [];
+    rule.instanceNames = this.normalizeList(dto.instanceNames) ?? rule.instanceNames ?? [];
+    if (dto.newContactOnly !== undefined) rule.newContactOnly = dto.newContactOnly;
+    rule.newContactOnly = rule.newContactOnly ?? false;
+
+    if (rule.keywords.length === 0 && rule.instanceNames.length === 0 && !rule.newContactOnly) {
+      throw validationException(
+        'keywords',
+        'A regra precisa de ao menos uma condição (keywords, instanceNames ou newContactOnly).',
+      );
+    }
+  }
+
+  /** Trimmed, without blanks and duplicates. */
+  private normalizeList(values: string[] | undefined): string[] | undefined {
+    if (values === undefined) return undefined;
+    return [...new Set(values.map((v) => v.trim()).filter(Boolean))];
+  }
+}
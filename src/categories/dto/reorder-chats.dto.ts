@@ -0,0 +1,10 @@
+import { Type } from 'class-transformer';
+import { IsArray, ValidateNested } from 'class-validator';
+import { ChatRefDto } from '../../common/dto/chat-ref.dto';
+
+export class ReorderChatsDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ChatRefDto)
+  chats: ChatRefDto[];
+}
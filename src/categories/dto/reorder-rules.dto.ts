@@ -0,0 +1,8 @@
+import { ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderRulesDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  ruleIds: string[];
+}
@@ -0,0 +1,17 @@
+import { IsHexColor, IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class UpdateCategoryDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Tracks which users have the inbox open, i.e. hold at least one socket on
+ * the messages-realtime gateway. In-memory: presence resets on restart,
+ * which matches the sockets themselves.
+ */
+@Injectable()
+export class AgentPresenceService {
+  private readonly socketCounts = new Map<string, number>();
+
+  connect(userId: string): void {
+    this.socketCounts.set(userId, (this.socketCounts.get(userId) ?? 0) + 1);
+  }
+
+  disconnect(userId: string): void {
+    const remaining = (this.socketCounts.get(userId) ?? 0) - 1;
+    if (remaining > 0) this.socketCounts.set(userId, remaining);
+    else this.socketCounts.delete(userId);
+  }
+
+  isOnline(userId: string): boolean {
+    return this.socketCounts.has(userId);
+  }
+}
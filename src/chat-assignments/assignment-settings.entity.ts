@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn, OneToOne, JoinColumn } from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum AutoAssignMode {
+  OFF = 'off',
+  /** Rotates through the online agents of the instance. */
+  ROUND_ROBIN = 'round_robin',
+  /** Picks the online agent holding the fewest chats. */
+  LEAST_BUSY = 'least_busy',
+}
+
+/** Per-owner automatic distribution of new chats. */
+@Entity({ name: 'assignment_settings' })
+export class AssignmentSettings {
+  @PrimaryColumn({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'auto_assign_mode', type: 'varchar', default: AutoAssignMode.OFF })
+  autoAssignMode: AutoAssignMode;
+
+  /** Round-robin cursor: the agent who received the previous chat. */
+  @Column({ name: 'last_assigned_user_id', type: 'uuid', nullable: true })
+  lastAssignedUserId: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
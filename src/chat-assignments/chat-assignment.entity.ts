@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum AssignmentMethod {
+  MANUAL = 'manual',
+  ROUND_ROBIN = 'round_robin',
+  LEAST_BUSY = 'least_busy',
+}
+
+/** The team member (owner or sub-user) responsible for answering a chat. */
+@Entity({ name: 'chat_assignments' })
+@Index('UQ_chat_assignment', ['userId', 'instanceName', 'remoteJid'], { unique: true })
+@Index('IDX_chat_assignments_assignee', ['assignedUserId'])
+export class ChatAssignment {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner of the instance. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ name: 'assigned_user_id', type: 'uuid' })
+  assignedUserId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'assigned_user_id' })
+  assignedUser: User;
+
+  @Column({ type: 'varchar', default: AssignmentMethod.MANUAL })
+  method: AssignmentMethod;
+
+  /** Who made a manual assignment; null for automatic ones. */
+  @Column({ name: 'assigned_by_user_id', type: 'uuid', nullable: true })
+  assignedByUserId: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
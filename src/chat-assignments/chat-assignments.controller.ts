@@ -0,0 +1,34 @@
+import { Controller, Get, Put, Body, Request, ForbiddenException } from '@nestjs/common';
+import { ChatAssignmentsService } from './chat-assignments.service';
+import { AssignmentSettingsDto } from './dto/assignment-settings.dto';
+
+@Controller('chat-assignments')
+export class ChatAssignmentsController {
+  constructor(private readonly chatAssignmentsService: ChatAssignmentsService) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /** Sub-users with their online status and number of assigned chats. */
+  @Get('agents')
+  async getAgents(@Request() req: any) {
+    return this.chatAssignmentsService.getAgents(this.getEffectiveUserId(req));
+  }
+
+  @Get('settings')
+  async getSettings(@Request() req: any) {
+    return this.chatAssignmentsService.getSettings(this.getEffectiveUserId(req));
+  }
+
+  @Put('settings')
+  async updateSettings(@Request() req: any, @Body() body: AssignmentSettingsDto) {
+    if (req.user.parentUserId) {
+      throw new ForbiddenException('Sub-usuários não podem alterar a distribuição de conversas.');
+    }
+    return this.chatAssignmentsService.updateSettings(req.user.id, body);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatAssignment } from './chat-assignment.entity';
+import { AssignmentSettings } from './assignment-settings.entity';
+import { User } from '../users/user.entity';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+import { ChatAssignmentsService } from './chat-assignments.service';
+import { AgentPresenceService } from './agent-presence.service';
+import { ChatAssignmentsController } from './chat-assignments.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ChatAssignment, AssignmentSettings, User]), SubUsersModule],
+  controllers: [ChatAssignmentsController],
+  providers: [ChatAssignmentsService, AgentPresenceService],
+  exports: [ChatAssignmentsService, AgentPresenceService],
+})
+export class ChatAssignmentsModule {}
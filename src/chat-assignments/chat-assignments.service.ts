@@ -0,0 +1,279 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AssignmentMethod, ChatAssignment } from './chat-assignment.entity';
+import { AssignmentSettings, AutoAssignMode } from './assignment-settings.entity';
+import { AgentPresenceService } from './agent-presence.service';
+import { User } from '../users/user.entity';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { ConversationStatus } from '../chat-statuses/chat-status.entity';
+import { validationException } from '../common/validation.pipe';
+import { normalizeJid } from '../messages/jid.utils';
+
+export interface ChatAssignmentView {
+  assignedUserId: string;
+  assignedUserName: string | null;
+  method: AssignmentMethod;
+  assignedByUserId: string | null;
+  assignedAt: Date;
+}
+
+export interface AgentView {
+  id: string;
+  name: string;
+  email: string;
+  online: boolean;
+  assignedChats: number;
+}
+
+@Injectable()
+export class ChatAssignmentsService {
+  constructor(
+    @InjectRepository(ChatAssignment)
+    private readonly repo: Repository<ChatAssignment>,
+    @InjectRepository(AssignmentSettings)
+    private readonly settingsRepo: Repository<AssignmentSettings>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+    private readonly subUsersService: SubUsersService,
+    private readonly presenceService: AgentPresenceService,
+  ) {}
+
+  // ---- Reads ----
+
+  async getAssignment(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+  ): Promise<ChatAssignmentView | null> {
+    const assignment = await this.repo.findOne({
+      where: { userId, instanceName, remoteJid: normalizeJid(remoteJid) },
+      relations: ['assignedUser'],
+    });
+    return assignment ? this.toView(assignment) : null;
+  }
+
+  /** Every assignment of the owner, keyed by `${instanceName}|${canonicalJid}`. */
+  async getAssignmentsForUser(userId: string): Promise<Map<string, ChatAssignmentView>> {
+    const assignments = await this.repo.find({ where: { userId }, relations: ['assignedUser'] });
+    const result = new Map<string, ChatAssignmentView>();
+    for (const assignment of assignments) {
+      result.set(`${assignment.instanceName}|${assignment.remoteJid}`, this.toView(assignment));
+    }
+    return result;
+  }
+
+  /** Sub-users of the owner with their presence and number of unresolved chats. */
+  async getAgents(userId: string): Promise<AgentView[]> {
+    const subUsers = await this.userRepo.find({
+      where: { parentUserId: userId },
+      order: { name: 'ASC' },
+    });
+    const load = await this.getLoadByAgent(userId);
+    return subUsers.map((subUser) => ({
+      id: subUser.id,
+      name: subUser.name,
+      email: subUser.email,
+      online: this.presenceService.isOnline(subUser.id),
+      assignedChats: load.get(subUser.id) ?? 0,
+    }));
+  }
+
+  // ---- Manual assignment ----
+
+  /**
+   * Assigns a chat to the owner or one of their sub-users, replacing any
+   * previous assignee. Sub-users must have access to the instance.
+   */
+  async assign(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    assignedUserId: string,
+    assignedByUserId: string,
+  ): Promise<ChatAssignmentView> {
+    if (assignedUserId !== userId) {
+      const assignee = await this.userRepo.findOne({
+        where: { id: assignedUserId, parentUserId: userId },
+      });
+      if (!assignee) throw new NotFoundException('Sub-usuário não encontrado.');
+      const permitted = await this.subUsersService.hasCapabilityForInstance(
+        assignedUserId,
+        instanceName,
+        userId,
+        SubUserCapability.SEND_MESSAGES,
+      );
+      if (!permitted) {
+        throw validationException(
+          'assignedUserId',
+          'O sub-usuário não pode atender conversas desta instância.',
+        );
+      }
+    }
+    return this.save(userId, instanceName, normalizeJid(remoteJid), {
+      assignedUserId,
+      method: AssignmentMethod.MANUAL,
+      assignedByUserId,
+    });
+  }
+
+  /** Returns false when the chat was not assigned. */
+  async unassign(userId: string, instanceName: string, remoteJid: string): Promise<boolean> {
+    const result = await this.repo.delete({
+      userId,
+      instanceName,
+      remoteJid: normalizeJid(remoteJid),
+    });
+    return (result.affected ?? 0) > 0;
+  }
+
+  // ---- Automatic distribution ----
+
+  async getSettings(userId: string): Promise<AssignmentSettings> {
+    return (
+      (await this.settingsRepo.findOne({ where: { userId } })) ??
+      this.settingsRepo.create({
+        userId,
+        autoAssignMode: AutoAssignMode.OFF,
+        lastAssignedUserId: null,
+      })
+    );
+  }
+
+  async updateSettings(
+    userId: string,
+    dto: { autoAssignMode: AutoAssignMode },
+  ): Promise<AssignmentSettings> {
+    const settings = await this.getSettings(userId);
+    settings.autoAssignMode = dto.autoAssignMode;
+    return this.settingsRepo.save(settings);
+  }
+
+  /**
+   * Assigns an unassigned chat to an online sub-user with access to the
+   * instance, following the owner's auto-assign mode. Returns null when the
+   * mode is off, the chat already has an assignee or nobody is online.
+   * `mode` overrides the configured one (used by "distribute now").
+   */
+  async autoAssign(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    mode?: AutoAssignMode,
+  ): Promise<ChatAssignmentView | null> {
+    const settings = await this.getSettings(userId);
+    const effectiveMode = mode ?? settings.autoAssignMode;
+    if (effectiveMode === AutoAssignMode.OFF) return null;
+
+    const canonicalJid = normalizeJid(remoteJid);
+    if (await this.repo.existsBy({ userId, instanceName, remoteJid: canonicalJid })) return null;
+
+    const agents = await this.getOnlineAgents(userId, instanceName);
+    if (agents.length === 0) return null;
+
+    let agentId: string;
+    let method: AssignmentMethod;
+    if (effectiveMode === AutoAssignMode.LEAST_BUSY) {
+      const load = await this.getLoadByAgent(userId);
+      // Ties go to the longest-standing sub-user.
+      agentId = agents.reduce((best, id) =>
+        (load.get(id) ?? 0) < (load.get(best) ?? 0) ? id : best,
+      );
+      method = AssignmentMethod.LEAST_BUSY;
+    } else {
+      const lastIndex = agents.indexOf(settings.lastAssignedUserId ?? '');
+      agentId = agents[(lastIndex + 1) % agents.length];
+      method = AssignmentMethod.ROUND_ROBIN;
+    }
+
+    // Insert-or-ignore so a concurrent manual assignment is never overwritten.
+    const result = await this.repo
+      .createQueryBuilder()
+      .insert()
+      .values({
+        userId,
+        instanceName,
+        remoteJid: canonicalJid,
+        assignedUserId: agentId,
+        method,
+        assignedByUserId: null,
+      })
+      .orIgnore()
+      .execute();
+    if (!result.raw?.length) return null;
+
+    settings.lastAssignedUserId = agentId;
+    await this.settingsRepo.save(settings);
+    return this.getAssignment(userId, instanceName, canonicalJid);
+  }
+
+  // ---- Helpers ----
+
+  /** Online sub-users allowed to answer on the instance, in a stable rotation order. */
+  private async getOnlineAgents(userId: string, instanceName: string): Promise<string[]> {
+    const subUsers = await this.userRepo.find({
+      where: { parentUserId: userId },
+      order: { createdAt: 'ASC' },
+    });
+    const agents: string[] = [];
+    for (const subUser of subUsers) {
+      if (!this.presenceService.isOnline(subUser.id)) continue;
+      const permitted = await this.subUsersService.hasCapabilityForInstance(
+        subUser.id,
+        instanceName,
+        userId,
+        SubUserCapability.SEND_MESSAGES,
+      );
+      if (permitted) agents.push(subUser.id);
+    }
+    return agents;
+  }
+
+  /** Number of unresolved chats assigned to each agent of the owner. */
+  private async getLoadByAgent(userId: string): Promise<Map<string, number>> {
+    const rows: { assigned_user_id: string; count: string }[] = await this.repo
+      .createQueryBuilder('a')
+      .select('a.assigned_user_id', 'assigned_user_id')
+      .addSelect('COUNT(*)', 'count')
+      .where('a.user_id = :userId', { userId })
+      .andWhere(
+        `NOT EXISTS (
+          SELECT 1 FROM chat_statuses s
+          WHERE s.user_id = a.user_id
+            AND s.instance_name = a.instance_name
+            AND s.remote_jid = a.remote_jid
+            AND s.status = :resolved
+        )`,
+        { resolved: ConversationStatus.RESOLVED },
+      )
+      .groupBy('a.assigned_user_id')
+      .getRawMany();
+    return new Map(rows.map((r) => [r.assigned_user_id, Number(r.count)]));
+  }
+
+  private async save(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    fields: Pick<ChatAssignment, 'assignedUserId' | 'method' | 'assignedByUserId'>,
+  ): Promise<ChatAssignmentView> {
+    const existing = await this.repo.findOne({ where: { userId, instanceName, remoteJid } });
+    await this.repo.save(
+      existing
+        ? Object.assign(existing, fields)
+        : this.repo.create({ userId, instanceName, remoteJid, ...fields }),
+    );
+    return (await this.getAssignment(userId, instanceName, remoteJid))!;
+  }
+
+  private toView(assignment: ChatAssignment): ChatAssignmentView {
+    return {
+      assignedUserId: assignment.assignedUserId,
+      assignedUserName: assignment.assignedUser?.name ?? null,
+      method: assignment.method,
+      assignedByUserId: assignment.assignedByUserId,
+      assignedAt: assignment.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { AutoAssignMode } from '../assignment-settings.entity';
+
+export class AssignmentSettingsDto {
+  @IsEnum(AutoAssignMode)
+  autoAssignMode: AutoAssignMode;
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/** Team-only note on a chat. Stored apart from messages and never sent to WhatsApp. */
+@Entity({ name: 'chat_notes' })
+@Index('IDX_chat_notes_chat', ['userId', 'instanceName', 'remoteJid', 'createdAt'])
+export class ChatNote {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner of the instance. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  /** Owner or sub-users mentioned in the note. */
+  @Column({ name: 'mentioned_user_ids', type: 'jsonb', default: [] })
+  mentionedUserIds: string[];
+
+  @Column({ name: 'author_user_id', type: 'uuid', nullable: true })
+  authorUserId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'author_user_id' })
+  author: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
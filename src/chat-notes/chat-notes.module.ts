@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatNote } from './chat-note.entity';
+import { User } from '../users/user.entity';
+import { ChatNotesService } from './chat-notes.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ChatNote, User])],
+  providers: [ChatNotesService],
+  exports: [ChatNotesService],
+})
+export class ChatNotesModule {}
@@ -0,0 +1,170 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { ChatNote } from './chat-note.entity';
+import { User } from '../users/user.entity';
+import { getJidVariations, normalizeJid } from '../messages/jid.utils';
+import { CreateChatNoteDto } from './dto/create-chat-note.dto';
+import { UpdateChatNoteDto } from './dto/update-chat-note.dto';
+import { validationException } from '../common/validation.pipe';
+
+export interface ChatNoteView {
+  /** Lets clients tell notes apart from WhatsApp messages in the timeline. */
+  kind: 'note';
+  id: string;
+  instanceName: string;
+  remoteJid: string;
+  text: string;
+  author: { id: string; name: string } | null;
+  mentions: { id: string; name: string }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+@Injectable()
+export class ChatNotesService {
+  constructor(
+    @InjectRepository(ChatNote)
+    private readonly repo: Repository<ChatNote>,
+    @InjectRepository(User)
+    private readonly userRepo: Repository<User>,
+  ) {}
+
+  /**
+   * Notes of a chat, newest first. `jids` may hold any JID variants of the
+   * chat. `range` limits the result to `from <= createdAt < before`.
+   */
+  async list(
+    userId: string,
+    instanceName: string,
+    jids: string[],
+    range: { from?: Date | null; before?: Date | null } = {},
+  ): Promise<ChatNoteView[]> {
+    const remoteJids = [...new Set(jids.flatMap((jid) => getJidVariations(jid).map(normalizeJid)))];
+    const qb = this.repo
+      .createQueryBuilder('n')
+      .leftJoinAndSelect('n.author', 'author')
+      .where('n.user_id = :userId', { userId })
+      .andWhere('n.instance_name = :instanceName', { instanceName })
+      .andWhere('n.remote_jid IN (:...remoteJids)', { remoteJids });
+    if (range.from) qb.andWhere('n.created_at >= :from', { from: range.from });
+    if (range.before) qb.andWhere('n.created_at < :before', { before: range.before });
+    const notes = await qb.orderBy('n.created_at', 'DESC').getMany();
+    return this.toViews(userId, notes);
+  }
+
+  async create(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    dto: CreateChatNoteDto,
+    authorUserId: string,
+  ): Promise<ChatNoteView> {
+    const note = this.repo.create({
+      userId,
+      instanceName,
+      remoteJid: normalizeJid(remoteJid),
+      text: dto.text.trim(),
+      mentionedUserIds: await this.checkMentions(userId, dto.mentionedUserIds ?? []),
+      authorUserId,
+    });
+    const saved = await this.repo.save(note);
+    return this.findView(userId, saved.id);
+  }
+
+  /** Only the author may edit a note. */
+  async update(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    noteId: string,
+    dto: UpdateChatNoteDto,
+    actingUserId: string,
+  ): Promise<ChatNoteView> {
+    const note = await this.findOne(userId, instanceName, remoteJid, noteId);
+    if (note.authorUserId !== actingUserId) {
+      throw new ForbiddenException('Apenas o autor pode editar esta nota.');
+    }
+    if (dto.text !== undefined) note.text = dto.text.trim();
+    if (dto.mentionedUserIds !== undefined) {
+      note.mentionedUserIds = await this.checkMentions(userId, dto.mentionedUserIds);
+    }
+    await this.repo.save(note);
+    return this.findView(userId, note.id);
+  }
+
+  /** The author or the account owner may delete a note. */
+  async delete(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    noteId: string,
+    actingUserId: string,
+  ): Promise<ChatNote> {
+    const note = await this.findOne(userId, instanceName, remoteJid, noteId);
+    if (note.authorUserId !== actingUserId && actingUserId !== userId) {
+      throw new ForbiddenException('Apenas o autor pode excluir esta nota.');
+    }
+    await this.repo.remove(note);
+    return note;
+  }
+
+  /** `remoteJid` may be any JID variant of the chat the note belongs to. */
+  private async findOne(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    id: string,
+  ): Promise<ChatNote> {
+    const remoteJids = [...new Set(getJidVariations(remoteJid).map(normalizeJid))];
+    const note = await this.repo.findOne({
+      where: { id, userId, instanceName, remoteJid: In(remoteJids) },
+    });
+    if (!note) throw new NotFoundException('Nota não encontrada');
+    return note;
+  }
+
+  private async findView(userId: string, id: string): Promise<ChatNoteView> {
+    const note = await this.repo.findOneOrFail({ where: { id }, relations: ['author'] });
+    const [view] = await this.toViews(userId, [note]);
+    return view;
+  }
+
+  private async toViews(userId: string, notes: ChatNote[]): Promise<ChatNoteView[]> {
+    const mentionedIds = [...new Set(notes.flatMap((note) => note.mentionedUserIds))];
+    const mentioned = mentionedIds.length
+      ? await this.userRepo.find({ where: { id: In(mentionedIds) } })
+      : [];
+    const namesById = new Map(mentioned.map((user) => [user.id, user.name]));
+    return notes.map((note) => ({
+      kind: 'note',
+      id: note.id,
+      instanceName: note.instanceName,
+      remoteJid: note.remoteJid,
+      text: note.text,
+      author: note.author ? { id: note.author.id, name: note.author.name } : null,
+      mentions: note.mentionedUserIds
+        .filter((id) => namesById.has(id))
+        .map((id) => ({ id, name: namesById.get(id)! })),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+    }));
+  }
+
+  // ---- Validation helpers ----
+
+  /** Mentions must point at the owner or one of their sub-users. */
+  private async checkMentions(userId: string, mentionedUserIds: string[]): Promise<string[]> {
+    const ids = [...new Set(mentionedUserIds)];
+    const subUserIds = ids.filter((id) => id !== userId);
+    if (subUserIds.length > 0) {
+      const count = await this.userRepo.count({
+        where: { id: In(subUserIds), parentUserId: userId },
+      });
+      if (count !== subUserIds.length) {
+        throw validationException('mentionedUserIds', 'Só é possível mencionar membros da equipe.');
+      }
+    }
+    return ids;
+  }
+}
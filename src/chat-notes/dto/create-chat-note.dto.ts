@@ -0,0 +1,16 @@
+import { IsArray, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+export const MAX_NOTE_LENGTH = 5000;
+
+export class CreateChatNoteDto {
+  @IsString()
+  @IsNotBlank()
+  @MaxLength(MAX_NOTE_LENGTH)
+  text: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  mentionedUserIds?: string[];
+}
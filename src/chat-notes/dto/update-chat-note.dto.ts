@@ -0,0 +1,16 @@
+import { IsArray, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+import { MAX_NOTE_LENGTH } from './create-chat-note.dto';
+
+export class UpdateChatNoteDto {
+  @IsOptional()
+  @IsString()
+  @IsNotBlank()
+  @MaxLength(MAX_NOTE_LENGTH)
+  text?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsUUID('all', { each: true })
+  mentionedUserIds?: string[];
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum ConversationStatus {
+  /** Needs an answer from the team. Chats without a row are open. */
+  OPEN = 'open',
+  /** Waiting on the customer or on a third party. */
+  PENDING = 'pending',
+  /** Handled; reopened automatically by the next inbound message. */
+  RESOLVED = 'resolved',
+}
+
+@Entity({ name: 'chat_statuses' })
+@Index('UQ_chat_status', ['userId', 'instanceName', 'remoteJid'], { unique: true })
+export class ChatStatus {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'varchar', default: ConversationStatus.OPEN })
+  status: ConversationStatus;
+
+  /** User or sub-user who last changed the status; null when reopened automatically. */
+  @Column({ name: 'updated_by_user_id', type: 'uuid', nullable: true })
+  updatedByUserId: string | null;
+
+  /** Set while the chat is resolved. */
+  @Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+  resolvedAt: Date | null;
+
+  @Column({ name: 'resolved_by_user_id', type: 'uuid', nullable: true })
+  resolvedByUserId: string | null;
+
+  @Column({ name: 'reopened_at', type: 'timestamp', nullable: true })
+  reopenedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
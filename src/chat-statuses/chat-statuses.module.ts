@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ChatStatus } from './chat-status.entity';
+import { ChatStatusesService } from './chat-statuses.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ChatStatus])],
+  providers: [ChatStatusesService],
+  exports: [ChatStatusesService],
+})
+export class ChatStatusesModule {}
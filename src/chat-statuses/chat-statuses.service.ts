@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ChatStatus, ConversationStatus } from './chat-status.entity';
+import { normalizeJid } from '../messages/jid.utils';
+
+export interface ChatStatusView {
+  status: ConversationStatus;
+  updatedByUserId: string | null;
+  updatedAt: Date | null;
+  resolvedAt: Date | null;
+  resolvedByUserId: string | null;
+  reopenedAt: Date | null;
+}
+
+const OPEN_VIEW: ChatStatusView = {
+  status: ConversationStatus.OPEN,
+  updatedByUserId: null,
+  updatedAt: null,
+  resolvedAt: null,
+  resolvedByUserId: null,
+  reopenedAt: null,
+};
+
+@Injectable()
+export class ChatStatusesService {
+  constructor(
+    @InjectRepository(ChatStatus)
+    private readonly repo: Repository<ChatStatus>,
+  ) {}
+
+  async getStatus(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+  ): Promise<ChatStatusView> {
+    const state = await this.repo.findOne({
+      where: { userId, instanceName, remoteJid: normalizeJid(remoteJid) },
+    });
+    return this.toView(state);
+  }
+
+  /**
+   * Returns the status of every chat with a stored status, keyed by
+   * `${instanceName}|${canonicalJid}`. Chats missing from the map are open.
+   */
+  async getStatusesForUser(userId: string): Promise<Map<string, ChatStatusView>> {
+    const states = await this.repo.find({ where: { userId } });
+    const result = new Map<string, ChatStatusView>();
+    for (const state of states) {
+      result.set(`${state.instanceName}|${state.remoteJid}`, this.toView(state));
+    }
+    return result;
+  }
+
+  async setStatus(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+    status: ConversationStatus,
+    updatedByUserId: string,
+  ): Promise<ChatStatusView> {
+    const canonicalJid = normalizeJid(remoteJid);
+    const state =
+      (await this.repo.findOne({ where: { userId, instanceName, remoteJid: canonicalJid } })) ??
+      this.repo.create({
+        userId,
+        instanceName,
+        remoteJid: canonicalJid,
+        status: ConversationStatus.OPEN,
+      });
+    if (state.status === status) return this.toView(state);
+
+    if (status === ConversationStatus.RESOLVED) {
+      state.resolvedAt = new Date();
+      state.resolvedByUserId = updatedByUserId;
+    } else {
+      if (state.status === ConversationStatus.RESOLVED) state.reopenedAt = new Date();
+      state.resolvedAt = null;
+      state.resolvedByUserId = null;
+    }
+    state.status = status;
+    state.updatedByUserId = updatedByUserId;
+    return this.toView(await this.repo.save(state));
+  }
+
+  /**
+   * Moves a resolved chat back to open after the customer wrote again.
+   * Returns the new view, or null when the chat was not resolved.
+   */
+  async reopenIfResolved(
+    userId: string,
+    instanceName: string,
+    remoteJid: string,
+  ): Promise<ChatStatusView | null> {
+    const state = await this.repo.findOne({
+      where: {
+        userId,
+        instanceName,
+        remoteJid: normalizeJid(remoteJid),
+        status: ConversationStatus.RESOLVED,
+      },
+    });
+    if (!state) return null;
+    state.status = ConversationStatus.OPEN;
+    state.updatedByUserId = null;
+    state.resolvedAt = null;
+    state.resolvedByUserId = null;
+    state.reopenedAt = new Date();
+    return this.toView(await this.repo.save(state));
+  }
+
+  private toView(state: ChatStatus | null): ChatStatusView {
+    if (!state) return OPEN_VIEW;
+    return {
+      status: state.status,
+      updatedByUserId: state.updatedByUserId ?? null,
+      updatedAt: state.updatedAt ?? null,
+      resolvedAt: state.resolvedAt ?? null,
+      resolvedByUserId: state.resolvedByUserId ?? null,
+      reopenedAt: state.reopenedAt ?? null,
+    };
+  }
+}
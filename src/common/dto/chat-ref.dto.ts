@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/** Identifies one chat: the instance it lives on and the contact's JID. */
+export class ChatRefDto {
+  @IsString()
+  @IsNotEmpty()
+  instanceName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  remoteJid: string;
+}
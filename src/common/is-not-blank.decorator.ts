@@ -0,0 +1,18 @@
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+
+/** A string with at least one non-whitespace character. */
+export function IsNotBlank(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isNotBlank',
+      validator: {
+        validate: (value: unknown) => typeof value === 'string' && value.trim().length > 0,
+        defaultMessage: buildMessage(
+          (eachPrefix) => `${eachPrefix}$property should not be blank`,
+          validationOptions,
+        ),
+      },
+    },
+    validationOptions,
+  );
+}
@@ -0,0 +1,56 @@
+import { BadRequestException, ValidationError, ValidationPipe } from '@nestjs/common';
+
+export interface FieldError {
+  /** Dotted path of the property, e.g. `permissions.0.instanceId`. */
+  field: string;
+  messages: string[];
+}
+
+/**
+ * Body of every 400 produced by request validation. `message` repeats the
+ * first error so clients that only show `message` still say something useful.
+ */
+export interface ValidationErrorResponse {
+  statusCode: 400;
+  error: 'Bad Request';
+  message: string;
+  errors: FieldError[];
+}
+
+function flattenErrors(errors: ValidationError[], parentPath = ''): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = error.constraints ? [{ field, messages: Object.values(error.constraints) }] : [];
+    return [...own, ...flattenErrors(error.children ?? [], field)];
+  });
+}
+
+function toException(fieldErrors: FieldError[]): BadRequestException {
+  const response: ValidationErrorResponse = {
+    statusCode: 400,
+    error: 'Bad Request',
+    message: fieldErrors[0]?.messages[0] ?? 'Validation failed',
+    errors: fieldErrors,
+  };
+  return new BadRequestException(response);
+}
+
+/**
+ * A 400 in the ValidationErrorResponse shape, for the checks a DTO can't
+ * express (cross-field rules, values that need the database).
+ */
+export function validationException(field: string, message: string): BadRequestException {
+  return toException([{ field, messages: [message] }]);
+}
+
+/**
+ * The app-wide pipe: bodies are turned into their DTO class, unknown
+ * properties are dropped and invalid requests get a ValidationErrorResponse.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    exceptionFactory: (errors) => toException(flattenErrors(errors)),
+  });
+}
@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Contact } from './contact.entity';
+import { User } from '../users/user.entity';
+
+export enum ContactEventType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  /** Manual timeline entry (call summary, visit, etc.). */
+  ENTRY = 'entry',
+}
+
+/** One entry of a contact's timeline. */
+@Entity({ name: 'contact_events' })
+@Index('IDX_contact_events_contact', ['contactId', 'createdAt'])
+export class ContactEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'contact_id', type: 'uuid' })
+  contactId: string;
+
+  @ManyToOne(() => Contact, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'contact_id' })
+  contact: Contact;
+
+  @Column({ type: 'varchar' })
+  type: ContactEventType;
+
+  /** Entry text for manual entries. */
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  /** Changed fields for `updated` events: `{ field: { from, to } }`. */
+  @Column({ type: 'jsonb', nullable: true })
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+
+  @Column({ name: 'author_user_id', type: 'uuid', nullable: true })
+  authorUserId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'author_user_id' })
+  author: User | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
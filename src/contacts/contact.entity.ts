@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export type ContactCustomFields = Record<string, string | number | boolean | null>;
+
+/**
+ * CRM data about a WhatsApp contact, shared by every instance of the owner.
+ * `remoteJid` is the canonical JID (see normalizeJid), so Brazilian 9th-digit
+ * variants resolve to the same contact.
+ */
+@Entity({ name: 'contacts' })
+@Index('UQ_contacts_user_jid', ['userId', 'remoteJid'], { unique: true })
+export class Contact {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner (parent) user. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  name: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  email: string | null;
+
+  @Column({ name: 'custom_fields', type: 'jsonb', default: {} })
+  customFields: ContactCustomFields;
+
+  /** Free-form internal notes; never sent to the contact. */
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
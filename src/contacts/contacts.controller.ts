@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ContactsService } from './contacts.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { ContactDto } from './dto/contact.dto';
+import { TimelineEntryDto } from './dto/timeline-entry.dto';
+import { ContactsQueryDto } from './dto/contacts-query.dto';
+
+const DEFAULT_CONTACTS_PAGE_SIZE = 50;
+
+@Controller('contacts')
+export class ContactsController {
+  constructor(
+    private readonly contactsService: ContactsService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /**
+   * Contacts span every instance, so sub-users need `capability` on any of
+   * them: VIEW_CHATS to read and add timeline notes, SEND_MESSAGES to change
+   * the contact itself.
+   */
+  private async ensureSubUserCapability(req: any, capability: SubUserCapability): Promise<void> {
+    if (!req.user.parentUserId) return;
+    if (!(await this.subUsersService.hasCapability(req.user.id, capability))) {
+      throw new ForbiddenException('Sua função não permite esta ação.');
+    }
+  }
+
+  /**
+   * GET /contacts?q=&limit=&offset=
+   *
+   * Lists contacts, optionally filtered by name, e-mail or number.
+   */
+  @Get()
+  async findAll(@Query() query: ContactsQueryDto, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    return this.contactsService.list(this.getEffectiveUserId(req), {
+      q: query.q,
+      limit: query.limit ?? DEFAULT_CONTACTS_PAGE_SIZE,
+      offset: query.offset ?? 0,
+    });
+  }
+
+  /** Looks a contact up by JID or phone number (any 9th-digit variant). */
+  @Get('by-jid/:remoteJid')
+  async findByJid(@Param('remoteJid') remoteJid: string, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    const contact = await this.contactsService.findByJid(this.getEffectiveUserId(req), remoteJid);
+    if (!contact) throw new NotFoundException('Contato não encontrado');
+    return contact;
+  }
+
+  @Post()
+  async create(@Body() body: ContactDto, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.SEND_MESSAGES);
+    return this.contactsService.create(this.getEffectiveUserId(req), body, req.user.id);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    return this.contactsService.findOne(id, this.getEffectiveUserId(req));
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: ContactDto, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.SEND_MESSAGES);
+    return this.contactsService.update(id, this.getEffectiveUserId(req), body, req.user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(@Param('id') id: string, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.SEND_MESSAGES);
+    await this.contactsService.delete(id, this.getEffectiveUserId(req));
+  }
+
+  // ---- Timeline ----
+
+  @Get(':id/timeline')
+  async getTimeline(@Param('id') id: string, @Request() req: any) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    return this.contactsService.getTimeline(id, this.getEffectiveUserId(req));
+  }
+
+  @Post(':id/timeline')
+  async addTimelineEntry(
+    @Param('id') id: string,
+    @Body() body: TimelineEntryDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserCapability(req, SubUserCapability.VIEW_CHATS);
+    return this.contactsService.addTimelineEntry(
+      id,
+      this.getEffectiveUserId(req),
+      body.text,
+      req.user.id,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Contact } from './contact.entity';
+import { ContactEvent } from './contact-event.entity';
+import { ContactsService } from './contacts.service';
+import { ContactsController } from './contacts.controller';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Contact, ContactEvent]), SubUsersModule],
+  controllers: [ContactsController],
+  providers: [ContactsService],
+  exports: [ContactsService],
+})
+export class ContactsModule {}
@@ -0,0 +1,250 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Contact, ContactCustomFields } from './contact.entity';
+import { ContactEvent, ContactEventType } from './contact-event.entity';
+import { isStandardUserJid, numberToJid } from '../messages/jid.utils';
+import { ContactDto } from './dto/contact.dto';
+import { validationException } from '../common/validation.pipe';
+
+const MAX_CUSTOM_FIELDS = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Contact fields embedded in chat lists. */
+export interface ContactSummary {
+  id: string;
+  name: string | null;
+  email: string | null;
+  customFields: ContactCustomFields;
+}
+
+export interface ContactTimelineEntry {
+  id: string;
+  type: ContactEventType;
+  text: string | null;
+  changes: Record<string, { from: unknown; to: unknown }> | null;
+  createdAt: Date;
+  author: { id: string; name: string; email: string } | null;
+}
+
+/** Fields tracked on the timeline when they change. */
+const TRACKED_FIELDS = ['name', 'email', 'customFields', 'notes'] as const;
+
+@Injectable()
+export class ContactsService {
+  constructor(
+    @InjectRepository(Contact)
+    private readonly repo: Repository<Contact>,
+    @InjectRepository(ContactEvent)
+    private readonly eventRepo: Repository<ContactEvent>,
+  ) {}
+
+  async list(
+    userId: string,
+    options: { q?: string; limit: number; offset: number },
+  ): Promise<{ contacts: Contact[]; total: number }> {
+    const qb = this.repo.createQueryBuilder('c').where('c.user_id = :userId', { userId });
+    if (options.q?.trim()) {
+      qb.andWhere('(c.name ILIKE :q OR c.email ILIKE :q OR c.remote_jid ILIKE :q)', {
+        q: `%${options.q.trim().replace(/[%_\\]/g, '\\$&')}%`,
+      });
+    }
+    const [contacts, total] = await qb
+      .orderBy('c.name', 'ASC', 'NULLS LAST')
+      .addOrderBy('c.created_at', 'DESC')
+      .take(options.limit)
+      .skip(options.offset)
+      .getManyAndCount();
+    return { contacts, total };
+  }
+
+  async findOne(id: string, userId: string): Promise<Contact> {
+    const contact = await this.repo.findOne({ where: { id, userId } });
+    if (!contact) throw new NotFoundException('Contato não encontrado');
+    return contact;
+  }
+
+  /** Looks a contact up by any JID variant or phone number. */
+  async findByJid(userId: string, remoteJid: string): Promise<Contact | null> {
+    return this.repo.findOne({ where: { userId, remoteJid: this.toCanonicalJid(remoteJid) } });
+  }
+
+  /**
+   * Returns the user's contacts among `remoteJids` (canonical JIDs), keyed by
+   * JID. Used to embed contact data in chat lists.
+   */
+  async getSummariesByJid(
+    userId: string,
+    remoteJids: string[],
+  ): Promise<Map<string, ContactSummary>> {
+    const result = new Map<string, ContactSummary>();
+    if (remoteJids.length === 0) return result;
+    const contacts = await this.repo.find({ where: { userId, remoteJid: In(remoteJids) } });
+    for (const contact of contacts) {
+      result.set(contact.remoteJid, {
+        id: contact.id,
+        name: contact.name,
+        email: contact.email,
+        customFields: contact.customFields,
+      });
+    }
+    return result;
+  }
+
+  async create(userId: string, dto: ContactDto, authorUserId: string): Promise<Contact> {
+    if (!dto.remoteJid) {
+      throw validationException('remoteJid', 'Field "remoteJid" is required.');
+    }
+    const remoteJid = this.toCanonicalJid(dto.remoteJid);
+    if (await this.repo.existsBy({ userId, remoteJid })) {
+      throw new ConflictException('Já existe um contato para este número.');
+    }
+
+    const contact = await this.repo.save(
+      this.repo.create({
+        userId,
+        remoteJid,
+        name: this.parseOptionalText(dto.name),
+        email: this.parseEmail(dto.email),
+        customFields: this.parseCustomFields(dto.customFields ?? {}),
+        notes: this.parseOptionalText(dto.notes),
+      }),
+    );
+    await this.eventRepo.save(
+      this.eventRepo.create({
+        contactId: contact.id,
+        type: ContactEventType.CREATED,
+        authorUserId,
+      }),
+    );
+    return contact;
+  }
+
+  /** Partial update; every changed field is recorded on the timeline. */
+  async update(
+    id: string,
+    userId: string,
+    dto: ContactDto,
+    authorUserId: string,
+  ): Promise<Contact> {
+    const contact = await this.findOne(id, userId);
+    const next: Partial<Contact> = {};
+    if (dto.name !== undefined) next.name = this.parseOptionalText(dto.name);
+    if (dto.email !== undefined) next.email = this.parseEmail(dto.email);
+    if (dto.customFields !== undefined) {
+      next.customFields = this.parseCustomFields(dto.customFields);
+    }
+    if (dto.notes !== undefined) next.notes = this.parseOptionalText(dto.notes);
+
+    const changes: Record<string, { from: unknown; to: unknown }> = {};
+    for (const field of TRACKED_FIELDS) {
+      if (!(field in next)) continue;
+      if (JSON.stringify(contact[field]) !== JSON.stringify(next[field])) {
+        changes[field] = { from: contact[field], to: next[field] };
+      }
+    }
+    if (Object.keys(changes).length === 0) return contact;
+
+    Object.assign(contact, next);
+    const saved = await this.repo.save(contact);
+    await this.eventRepo.save(
+      this.eventRepo.create({
+        contactId: contact.id,
+        type: ContactEventType.UPDATED,
+        changes,
+        authorUserId,
+      }),
+    );
+    return saved;
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    const contact = await this.findOne(id, userId);
+    await this.repo.remove(contact);
+  }
+
+  // ---- Timeline ----
+
+  async getTimeline(id: string, userId: string): Promise<ContactTimelineEntry[]> {
+    await this.findOne(id, userId);
+    const events = await this.eventRepo.find({
+      where: { contactId: id },
+      relations: ['author'],
+      order: { createdAt: 'DESC' },
+    });
+    return events.map((event) => ({
+      id: event.id,
+      type: event.type,
+      text: event.text,
+      changes: event.changes,
+      createdAt: event.createdAt,
+      author: event.author
+        ? { id: event.author.id, name: event.author.name, email: event.author.email }
+        : null,
+    }));
+  }
+
+  async addTimelineEntry(
+    id: string,
+    userId: string,
+    text: string,
+    authorUserId: string,
+  ): Promise<ContactEvent> {
+    await this.findOne(id, userId);
+    return this.eventRepo.save(
+      this.eventRepo.create({
+        contactId: id,
+        type: ContactEventType.ENTRY,
+        text: text.trim(),
+        authorUserId,
+      }),
+    );
+  }
+
+  // ---- Validation helpers ----
+
+  /** Applies the Brazilian 9th-digit rule; only 1:1 WhatsApp JIDs are accepted. */
+  private toCanonicalJid(remoteJid: string): string {
+    const jid = numberToJid(remoteJid);
+    if (!jid || !isStandardUserJid(jid)) {
+      throw validationException('remoteJid', `JID inválido: "${remoteJid}".`);
+    }
+    return jid;
+  }
+
+  private parseOptionalText(value: string | null | undefined): string | null {
+    return value?.trim() || null;
+  }
+
+  private parseEmail(value: string | null | undefined): string | null {
+    const email = this.parseOptionalText(value);
+    if (email && !EMAIL_PATTERN.test(email)) {
+      throw validationException('email', `E-mail inválido: "${email}".`);
+    }
+    return email ? email.toLowerCase() : null;
+  }
+
+  /** The object shape is checked by ContactDto; this checks its entries. */
+  private parseCustomFields(value: ContactCustomFields): ContactCustomFields {
+    const entries = Object.entries(value);
+    if (entries.length > MAX_CUSTOM_FIELDS) {
+      throw validationException(
+        'customFields',
+        `"customFields" pode ter no máximo ${MAX_CUSTOM_FIELDS} campos.`,
+      );
+    }
+    const result: ContactCustomFields = {};
+    for (const [key, fieldValue] of entries) {
+      const name = key.trim();
+      if (!name) throw validationException('customFields', 'Nomes de campos não podem ser vazios.');
+      if (fieldValue !== null && !['string', 'number', 'boolean'].includes(typeof fieldValue)) {
+        throw validationException(
+          `customFields.${name}`,
+          `O campo "${name}" deve ser texto, número, booleano ou null.`,
+        );
+      }
+      result[name] = fieldValue as string | number | boolean | null;
+    }
+    return result;
+  }
+}
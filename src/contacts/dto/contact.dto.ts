@@ -0,0 +1,29 @@
+import { IsObject, IsOptional, IsString, ValidateIf } from 'class-validator';
+import { ContactCustomFields } from '../contact.entity';
+
+/**
+ * Types only; the service normalizes values and checks the JID, the email format and the
+ * custom field entries.
+ */
+export class ContactDto {
+  @IsOptional()
+  @IsString()
+  remoteJid?: string;
+
+  @IsOptional()
+  @IsString()
+  name?: string | null;
+
+  @IsOptional()
+  @IsString()
+  email?: string | null;
+
+  // `null` is rejected: send `{}` to clear the custom fields.
+  @ValidateIf((dto: ContactDto) => dto.customFields !== undefined)
+  @IsObject()
+  customFields?: ContactCustomFields;
+
+  @IsOptional()
+  @IsString()
+  notes?: string | null;
+}
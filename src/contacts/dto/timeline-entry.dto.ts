@@ -0,0 +1,8 @@
+import { IsString } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+export class TimelineEntryDto {
+  @IsString()
+  @IsNotBlank()
+  text: string;
+}
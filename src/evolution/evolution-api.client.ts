@@ -0,0 +1,308 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  EvolutionChat,
+  EvolutionConnectionState,
+  EvolutionContact,
+  EvolutionInstance,
+  EvolutionMessage,
+  EvolutionSendAudioPayload,
+  EvolutionSendMediaPayload,
+  EvolutionSendTextPayload,
+  EvolutionWebhookConfig,
+  EvolutionWebsocketConfig,
+} from './evolution-api.types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+
+/**
+ * Raised by EvolutionApiClient for every failed call. `status` is the HTTP
+ * status the controllers should answer with: the upstream status for HTTP
+ * errors, 504 on timeout, 502 when Evolution is unreachable and 500 when the
+ * backend is missing its Evolution configuration.
+ */
+export class EvolutionApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly details: unknown = {},
+    readonly misconfigured = false,
+  ) {
+    super(message);
+    this.name = 'EvolutionApiError';
+  }
+
+  /**
+   * Builds the JSON error body returned to the frontend, keeping the
+   * `{ error, details }` shape the controllers have always used.
+   */
+  toResponse(failureMessage: string): { error: string; details?: unknown } {
+    if (this.misconfigured) {
+      return { error: 'Server misconfiguration' };
+    }
+    return { error: failureMessage, details: this.details };
+  }
+}
+
+interface RequestOptions {
+  method: 'GET' | 'POST' | 'DELETE';
+  body?: unknown;
+  /** Safe to repeat on transient failures (reads and idempotent config writes). */
+  retryable?: boolean;
+}
+
+/**
+ * Single entry point for every call the backend makes to the Evolution API.
+ * All methods take the full (user-prefixed) instance name and share the same
+ * timeout, retry and error-mapping rules.
+ */
+@Injectable()
+export class EvolutionApiClient {
+  private readonly logger = new Logger(EvolutionApiClient.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return !!this.getBaseUrl() && !!this.getApiKey();
+  }
+
+  /**
+   * Returns the socket.io URL and API key for an instance's event namespace,
+   * or null when the Evolution configuration is missing.
+   */
+  getSocketConnection(fullInstanceName: string): { url: string; apiKey: string } | null {
+    if (!this.isConfigured()) return null;
+    return { url: `${this.getBaseUrl()}/${fullInstanceName}`, apiKey: this.getApiKey() };
+  }
+
+  // ---- Instances ----
+
+  async fetchInstances(): Promise<EvolutionInstance[]> {
+    const data = await this.request<unknown>('/instance/fetchInstances', {
+      method: 'GET',
+      retryable: true,
+    });
+    return Array.isArray(data) ? data : [];
+  }
+
+  async createInstance(fullInstanceName: string): Promise<Record<string, unknown>> {
+    const integration = this.configService.get<string>('WPP_INTEGRATION_TYPE');
+    if (!integration) {
+      throw new EvolutionApiError('WPP_INTEGRATION_TYPE is not set', 500, {}, true);
+    }
+    return this.request('/instance/create', {
+      method: 'POST',
+      body: { instanceName: fullInstanceName, integration, qrcode: true },
+    });
+  }
+
+  async connectionState(fullInstanceName: string): Promise<EvolutionConnectionState> {
+    return this.request(`/instance/connectionState/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'GET',
+      retryable: true,
+    });
+  }
+
+  async connectInstance(fullInstanceName: string): Promise<Record<string, unknown>> {
+    return this.request(`/instance/connect/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'GET',
+      retryable: true,
+    });
+  }
+
+  async deleteInstance(fullInstanceName: string): Promise<Record<string, unknown>> {
+    return this.request(`/instance/delete/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // ---- Chats, messages and contacts ----
+
+  async findChats(fullInstanceName: string): Promise<EvolutionChat[]> {
+    const data = await this.request<unknown>(
+      `/chat/findChats/${encodeURIComponent(fullInstanceName)}`,
+      { method: 'POST', body: {}, retryable: true },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  /**
+   * Returns the message records matching `where`. Evolution answers with
+   * `{ messages: { records } }`, `{ messages: [] }` or a bare array depending
+   * on version; all three are flattened to an array here.
+   */
+  async findMessages(
+    fullInstanceName: string,
+    where: Record<string, unknown>,
+    paging: { page?: number; offset?: number } = {},
+  ): Promise<EvolutionMessage[]> {
+    type FindMessagesResponse =
+      | EvolutionMessage[]
+      | { messages?: EvolutionMessage[] | { records?: EvolutionMessage[] } };
+    const data = await this.request<FindMessagesResponse>(
+      `/chat/findMessages/${encodeURIComponent(fullInstanceName)}`,
+      { method: 'POST', body: { where, ...paging }, retryable: true },
+    );
+    if (Array.isArray(data)) return data;
+    const messages = data?.messages;
+    if (Array.isArray(messages)) return messages;
+    if (messages && Array.isArray(messages.records)) return messages.records;
+    return [];
+  }
+
+  async findContacts(fullInstanceName: string): Promise<EvolutionContact[]> {
+    const data = await this.request<unknown>(
+      `/chat/findContacts/${encodeURIComponent(fullInstanceName)}`,
+      { method: 'POST', body: {}, retryable: true },
+    );
+    return Array.isArray(data) ? data : [];
+  }
+
+  async sendText(
+    fullInstanceName: string,
+    payload: EvolutionSendTextPayload,
+  ): Promise<EvolutionMessage> {
+    return this.request(`/message/sendText/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'POST',
+      body: payload,
+    });
+  }
+
+  async sendMedia(
+    fullInstanceName: string,
+    payload: EvolutionSendMediaPayload,
+  ): Promise<EvolutionMessage> {
+    return this.request(`/message/sendMedia/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'POST',
+      body: payload,
+    });
+  }
+
+  async sendWhatsAppAudio(
+    fullInstanceName: string,
+    payload: EvolutionSendAudioPayload,
+  ): Promise<EvolutionMessage> {
+    return this.request(`/message/sendWhatsAppAudio/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'POST',
+      body: payload,
+    });
+  }
+
+  // ---- Event delivery ----
+
+  async setWebhook(
+    fullInstanceName: string,
+    webhook: EvolutionWebhookConfig,
+  ): Promise<Record<string, unknown>> {
+    return this.request(`/webhook/set/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'POST',
+      body: { webhook },
+      retryable: true,
+    });
+  }
+
+  async setWebsocket(
+    fullInstanceName: string,
+    websocket: EvolutionWebsocketConfig,
+  ): Promise<Record<string, unknown>> {
+    return this.request(`/websocket/set/${encodeURIComponent(fullInstanceName)}`, {
+      method: 'POST',
+      body: { websocket },
+      retryable: true,
+    });
+  }
+
+  // ---- Transport ----
+
+  private getBaseUrl(): string {
+    return (this.configService.get<string>('WPP_API_BASE_URL') || '').replace(/\/$/, '');
+  }
+
+  private getApiKey(): string {
+    return this.configService.get<string>('WPP_API_KEY') || '';
+  }
+
+  private getNumberSetting(key: string, fallback: number): number {
+    const raw = this.configService.get<string>(key);
+    const parsed = raw != null ? parseInt(raw, 10) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  }
+
+  /**
+   * Performs a request with the shared timeout. Retryable requests are
+   * repeated with exponential backoff on network errors, timeouts, 429 and
+   * 5xx responses; any other failure surfaces immediately.
+   */
+  private async request<T>(path: string, options: RequestOptions): Promise<T> {
+    if (!this.isConfigured()) {
+      throw new EvolutionApiError('WPP_API_BASE_URL or WPP_API_KEY is not set', 500, {}, true);
+    }
+
+    const maxRetries = options.retryable
+      ? this.getNumberSetting('WPP_API_MAX_RETRIES', DEFAULT_MAX_RETRIES)
+      : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(path, options);
+      } catch (error) {
+        const transient =
+          error instanceof EvolutionApiError && (error.status >= 500 || error.status === 429);
+        if (!transient || attempt >= maxRetries) throw error;
+        this.logger.warn(
+          `${options.method} ${path} failed (${(error as Error).message}), retrying ` +
+            `(${attempt + 1}/${maxRetries})`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** attempt));
+      }
+    }
+  }
+
+  private async send<T>(path: string, options: RequestOptions): Promise<T> {
+    const timeoutMs = this.getNumberSetting('WPP_API_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    const headers: Record<string, string> = { apikey: this.getApiKey() };
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+    let response: globalThis.Response;
+    let text: string;
+    try {
+      response = await fetch(`${this.getBaseUrl()}${path}`, {
+        method: options.method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new EvolutionApiError(`Evolution API timed out after ${timeoutMs}ms`, 504);
+      }
+      throw new EvolutionApiError(`Evolution API unreachable: ${(error as Error).message}`, 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    let data: unknown = {};
+    if (text) {
+      try {
+        data = JSON.parse(text);
+      } catch {
+        data = { message: text };
+      }
+    }
+
+    if (!response.ok) {
+      throw new EvolutionApiError(
+        `${options.method} ${path} failed: HTTP ${response.status}`,
+        response.status,
+        data,
+      );
+    }
+    return data as T;
+  }
+}
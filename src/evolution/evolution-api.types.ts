@@ -0,0 +1,115 @@
+/**
+ * Shapes returned by the Evolution API v2. Only the fields the backend reads
+ * are declared; everything else is passed through to the frontend untouched.
+ */
+
+export interface EvolutionInstance {
+  name?: string;
+  instanceName?: string;
+  connectionStatus?: string;
+  [key: string]: unknown;
+}
+
+export interface EvolutionConnectionState {
+  instance?: {
+    instanceName?: string;
+    state?: string;
+  };
+  [key: string]: unknown;
+}
+
+export interface EvolutionChat {
+  id?: string;
+  remoteJid?: string;
+  name?: string;
+  pushName?: string;
+  unreadCount?: number;
+  updatedAt?: string;
+  lastMessage?: EvolutionMessage;
+  [key: string]: unknown;
+}
+
+export interface EvolutionMessageKey {
+  id?: string;
+  remoteJid?: string;
+  /** Phone JID sent next to an @lid `remoteJid` by newer Evolution versions. */
+  remoteJidAlt?: string;
+  senderPn?: string;
+  fromMe?: boolean;
+  [key: string]: unknown;
+}
+
+/** The WhatsApp message shapes we read text from; the others stay untyped. */
+export interface EvolutionMessageContent {
+  conversation?: string;
+  extendedTextMessage?: { text?: string };
+  imageMessage?: { caption?: string };
+  videoMessage?: { caption?: string };
+  documentMessage?: { caption?: string; fileName?: string };
+  documentWithCaptionMessage?: { message?: { documentMessage?: { caption?: string } } };
+  [key: string]: unknown;
+}
+
+export interface EvolutionMessage {
+  id?: string;
+  key?: EvolutionMessageKey;
+  pushName?: string;
+  messageType?: string;
+  message?: EvolutionMessageContent;
+  messageTimestamp?: number | string | { low: number };
+  [key: string]: unknown;
+}
+
+export interface EvolutionContact {
+  id?: string;
+  remoteJid?: string;
+  lid?: string;
+  lidJid?: string;
+  phoneNumber?: string;
+  pushName?: string;
+  [key: string]: unknown;
+}
+
+export interface EvolutionSendTextPayload {
+  number: string;
+  text: string;
+  delay?: number;
+  linkPreview?: boolean;
+  quoted?: {
+    key: { id: string };
+    message: { conversation: string };
+  };
+}
+
+export interface EvolutionSendMediaPayload {
+  number: string;
+  mediatype: 'image' | 'video' | 'document';
+  mimetype: string;
+  /** Base64-encoded file contents or a public URL. */
+  media: string;
+  fileName?: string;
+  caption?: string;
+  delay?: number;
+}
+
+export interface EvolutionSendAudioPayload {
+  number: string;
+  /** Base64-encoded audio or a public URL; Evolution converts it to a voice note. */
+  audio: string;
+  delay?: number;
+}
+
+export interface EvolutionWebhookConfig {
+  enabled: boolean;
+  url: string;
+  /** Sent with every delivery. */
+  headers?: Record<string, string>;
+  byEvents: boolean;
+  base64: boolean;
+  events: string[];
+}
+
+export interface EvolutionWebsocketConfig {
+  enabled: boolean;
+  events: string[];
+}
@@ -0,0 +1,6 @@
+import { IsObject } from 'class-validator';
+
+export class PutPromptVariablesDto {
+  @IsObject()
+  variables: Record<string, string>;
+}
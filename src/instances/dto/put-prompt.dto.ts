@@ -0,0 +1,11 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class PutPromptDto {
+  @IsString()
+  prompt: string;
+
+  /** Stored with the revision this change creates. */
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,7 @@
+import { IsOptional, IsString } from 'class-validator';
+
+export class RestorePromptRevisionDto {
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
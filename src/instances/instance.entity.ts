@@ -21,6 +21,10 @@ export class Instance {
   @Column({ type: 'text' })
   prompt: string;
 
+  /** Values for the prompt's `{{name}}` placeholders, keyed by dotted name. */
+  @Column({ type: 'jsonb', default: {} })
+  variables: Record<string, string>;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
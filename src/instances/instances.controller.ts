@@ -1,15 +1,45 @@
-import { Body, Controller, Get, Param, Put, Res, Post, Request, Delete, Headers, UnauthorizedException, ForbiddenException, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Put,
+  Res,
+  Post,
+  Request,
+  Delete,
+  Headers,
+  Query,
+  UnauthorizedException,
+  ForbiddenException,
+  UseGuards,
+} from '@nestjs/common';
 import { InstancesService } from './instances.service';
 import { Response } from 'express';
 import { Public } from '../auth/public.decorator';
 import { PremiumGuard } from '../auth/premium.guard';
+import { ApiKeyScopes } from '../api-keys/api-key-scopes.decorator';
+import { ApiKeyScope } from '../api-keys/api-key.entity';
 import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { EvolutionApiClient, EvolutionApiError } from '../evolution/evolution-api.client';
+import { BotStatesService } from '../bot-states/bot-states.service';
+import { PromptRevisionsService } from './prompt-revisions.service';
+import { BUILTIN_PROMPT_VARIABLES } from './prompt-template.service';
+import { WEBHOOK_TOKEN_HEADER } from '../messages/webhook-token.guard';
+import { ConnectInstanceDto } from './dto/connect-instance.dto';
+import { PutPromptVariablesDto } from './dto/put-prompt-variables.dto';
+import { PutPromptDto } from './dto/put-prompt.dto';
+import { RestorePromptRevisionDto } from './dto/restore-prompt-revision.dto';
 
 @Controller('instances')
 export class InstancesController {
   constructor(
     private readonly service: InstancesService,
     private readonly subUsersService: SubUsersService,
+    private readonly evolutionApi: EvolutionApiClient,
+    private readonly botStatesService: BotStatesService,
+    private readonly promptRevisionsService: PromptRevisionsService,
   ) {}
 
   /**
@@ -28,29 +58,43 @@ export class InstancesController {
   }
 
   /**
-   * For sub-users, checks permission for a specific instance name
+   * For sub-users, checks permission for a specific instance name and,
+   * when given, that their role on it grants `capability`
    */
-  private async ensureSubUserPermission(req: any, instanceName: string): Promise<void> {
+  private async ensureSubUserPermission(
+    req: any,
+    instanceName: string,
+    capability?: SubUserCapability,
+  ): Promise<void> {
     if (!this.isSubUser(req)) return;
     const ownerUserId = req.user.parentUserId;
-    const hasPermission = await this.subUsersService.hasPermissionForInstance(
+    const capabilities = await this.subUsersService.getCapabilitiesForInstance(
       req.user.id,
       instanceName,
       ownerUserId,
     );
-    if (!hasPermission) {
+    if (!capabilities) {
       throw new ForbiddenException('Você não tem permissão para acessar esta instância.');
     }
+    if (capability && !capabilities.includes(capability)) {
+      throw new ForbiddenException('Sua função não permite esta ação nesta instância.');
+    }
   }
 
   /**
    * Public endpoint for n8n to fetch prompt by full instance name (with user prefix)
    * Requires N8N_API_KEY header for authentication
+   *
+   * The prompt comes back with its `{{variables}}` rendered. When `remoteJid`
+   * is given, contact variables are filled in and the response also carries
+   * `botEnabled` and `botState` so the flow can stay silent while a human
+   * handles the chat.
    */
   @Public()
   @Get('n8n/:fullInstanceName/prompt')
   async getPromptForN8n(
     @Param('fullInstanceName') fullInstanceName: string,
+    @Query('remoteJid') remoteJid: string,
     @Headers('x-api-key') apiKey: string,
     @Res() res: Response,
   ) {
@@ -61,8 +105,17 @@ export class InstancesController {
     }
 
     try {
-      const result = await this.service.getPromptByFullInstanceName(fullInstanceName);
-      return res.json(result);
+      const result = await this.service.getPromptByFullInstanceName(fullInstanceName, remoteJid);
+      if (!remoteJid) {
+        return res.json(result);
+      }
+
+      const botState = await this.botStatesService.getState(
+        result.userId,
+        result.instanceName,
+        remoteJid,
+      );
+      return res.json({ ...result, remoteJid, botEnabled: botState.botEnabled, botState });
     } catch (error) {
       if (error.status === 404) {
         return res.status(404).json({ error: 'Instance not found', prompt: null });
@@ -72,34 +125,13 @@ export class InstancesController {
   }
 
   @Get()
+  @ApiKeyScopes(ApiKeyScope.READ_CHATS)
   async getInstances(@Request() req: any, @Res() res: Response) {
     try {
       const effectiveUserId = this.getEffectiveUserId(req);
       console.log('Fetching instances for effective user:', effectiveUserId, 'isSubUser:', this.isSubUser(req));
-      
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
-
-      const url = `${baseUrl.replace(/\/$/, '')}/instance/fetchInstances`;
 
-      const upstreamResponse = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'apikey': apiKey,
-        },
-      });
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to fetch instances',
-        });
-      }
-
-      const data = await upstreamResponse.json();
+      const data = await this.evolutionApi.fetchInstances();
       console.log('Raw instances from external API:', data);
       
       // Filter instances by effective user ID prefix and strip prefix from names
@@ -140,6 +172,9 @@ export class InstancesController {
       console.log('Filtered user instances:', userInstances);
       return res.json(userInstances);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to fetch instances'));
+      }
       console.error('Error fetching instances:', error);
       return res.status(500).json({ error: 'Unexpected server error' });
     }
@@ -147,7 +182,7 @@ export class InstancesController {
 
   @Post('connect')
   @UseGuards(PremiumGuard)
-  async connect(@Body() body: { instanceName: string }, @Res() res: Response, @Request() req: any) {
+  async connect(@Body() body: ConnectInstanceDto, @Res() res: Response, @Request() req: any) {
     try {
       // Sub-users cannot create instances
       if (this.isSubUser(req)) {
@@ -155,57 +190,27 @@ export class InstancesController {
       }
 
       const { instanceName } = body;
-      
-      if (!instanceName) {
-        return res.status(400).json({ error: 'Instance name is required' });
-      }
-
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-      const integration = process.env.WPP_INTEGRATION_TYPE;
-
-      if (!baseUrl || !apiKey || !integration) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
 
-      const url = `${baseUrl.replace(/\/$/, '')}/instance/create`;
-      
       // Prefix instance name with user ID
       const userId = req.user.id;
       const prefixedInstanceName = this.service.getPrefixedInstanceName(userId, instanceName);
 
-      const upstreamResponse = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': apiKey,
-        },
-        body: JSON.stringify({
-          instanceName: prefixedInstanceName,
-          integration,
-          qrcode: true,
-        }),
-      });
-
-      const data = await upstreamResponse.json().catch(() => ({}));
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to create instance',
-          details: data
-        });
-      }
+      const data = await this.evolutionApi.createInstance(prefixedInstanceName);
 
       // Create local DB record so the instance appears in sub-user permissions immediately
       await this.service.ensureInstanceExists(instanceName, userId);
 
       return res.json(data);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to create instance'));
+      }
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
 
   @Get(':name/prompt')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
   async getPrompt(@Param('name') name: string, @Request() req: any): Promise<{ prompt: string }> {
     await this.ensureSubUserPermission(req, name);
     const userId = this.getEffectiveUserId(req);
@@ -214,22 +219,111 @@ export class InstancesController {
   }
 
   @Put(':name/prompt')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
   async putPrompt(
     @Param('name') name: string,
-    @Body() body: { prompt: string },
+    @Body() body: PutPromptDto,
     @Res() res: Response,
     @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, name, SubUserCapability.EDIT_PROMPT);
+    const userId = this.getEffectiveUserId(req);
+    const { instance, created } = await this.service.upsertPromptByName(name, body.prompt, userId, {
+      authorUserId: req.user.id,
+      note: body.note,
+    });
+    return res
+      .status(created ? 201 : 200)
+      .json({ id: instance.id, name: instance.name, prompt: instance.prompt });
+  }
+
+  /**
+   * Returns the instance's variable set plus the built-in variables that
+   * are resolved when n8n fetches the prompt.
+   */
+  @Get(':name/prompt/variables')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async getPromptVariables(@Param('name') name: string, @Request() req: any) {
+    await this.ensureSubUserPermission(req, name);
+    const userId = this.getEffectiveUserId(req);
+    const instance = await this.service.findByNameOrFail(name, userId);
+    return { variables: instance.variables, builtins: BUILTIN_PROMPT_VARIABLES };
+  }
+
+  @Put(':name/prompt/variables')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async putPromptVariables(
+    @Param('name') name: string,
+    @Body() body: PutPromptVariablesDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, name, SubUserCapability.EDIT_PROMPT);
+    const userId = this.getEffectiveUserId(req);
+    const instance = await this.service.updateVariablesByName(name, userId, body.variables);
+    return { variables: instance.variables, builtins: BUILTIN_PROMPT_VARIABLES };
+  }
+
+  /**
+   * Lists the prompt's revision history, newest first (without prompt bodies).
+   */
+  @Get(':name/prompt/revisions')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async listPromptRevisions(@Param('name') name: string, @Request() req: any) {
+    await this.ensureSubUserPermission(req, name);
+    const userId = this.getEffectiveUserId(req);
+    const instance = await this.service.findByNameOrFail(name, userId);
+    return this.promptRevisionsService.list(instance.id);
+  }
+
+  /**
+   * Shows the changes of a revision. Compares against `against` when given,
+   * otherwise against the revision right before it.
+   */
+  @Get(':name/prompt/revisions/:revisionId/diff')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async diffPromptRevision(
+    @Param('name') name: string,
+    @Param('revisionId') revisionId: string,
+    @Query('against') against: string,
+    @Request() req: any,
   ) {
     await this.ensureSubUserPermission(req, name);
     const userId = this.getEffectiveUserId(req);
-    const { instance, created } = await this.service.upsertPromptByName(
+    const instance = await this.service.findByNameOrFail(name, userId);
+    return this.promptRevisionsService.diff(instance.id, revisionId, against || undefined);
+  }
+
+  @Get(':name/prompt/revisions/:revisionId')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async getPromptRevision(
+    @Param('name') name: string,
+    @Param('revisionId') revisionId: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, name);
+    const userId = this.getEffectiveUserId(req);
+    const instance = await this.service.findByNameOrFail(name, userId);
+    return this.promptRevisionsService.getWithSummary(instance.id, revisionId);
+  }
+
+  @Post(':name/prompt/revisions/:revisionId/restore')
+  @ApiKeyScopes(ApiKeyScope.MANAGE_PROMPTS)
+  async restorePromptRevision(
+    @Param('name') name: string,
+    @Param('revisionId') revisionId: string,
+    @Body() body: RestorePromptRevisionDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, name, SubUserCapability.EDIT_PROMPT);
+    const userId = this.getEffectiveUserId(req);
+    const instance = await this.service.restorePromptRevision(
       name,
-      body.prompt,
       userId,
+      revisionId,
+      req.user.id,
+      body.note,
     );
-    return res
-      .status(created ? 201 : 200)
-      .json({ id: instance.id, name: instance.name, prompt: instance.prompt });
+    return { id: instance.id, name: instance.name, prompt: instance.prompt };
   }
 
   @Get(':name/state')
@@ -237,36 +331,16 @@ export class InstancesController {
     try {
       await this.ensureSubUserPermission(req, name);
       const userId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
 
       // Prefix instance name with effective user ID for external API call
       const prefixedInstanceName = this.service.getPrefixedInstanceName(userId, name);
-      const url = `${baseUrl.replace(/\/$/, '')}/instance/connectionState/${encodeURIComponent(prefixedInstanceName)}`;
-
-      const upstreamResponse = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'apikey': apiKey,
-        },
-        cache: 'no-store',
-      });
-
-      const data = await upstreamResponse.json().catch(() => ({}));
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to fetch connection state',
-          details: data
-        });
-      }
+      const data = await this.evolutionApi.connectionState(prefixedInstanceName);
 
       return res.json(data);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to fetch connection state'));
+      }
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
@@ -276,36 +350,16 @@ export class InstancesController {
     try {
       await this.ensureSubUserPermission(req, name);
       const userId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
 
       // Prefix instance name with effective user ID for external API call
       const prefixedInstanceName = this.service.getPrefixedInstanceName(userId, name);
-      const url = `${baseUrl.replace(/\/$/, '')}/instance/connect/${encodeURIComponent(prefixedInstanceName)}`;
-
-      const upstreamResponse = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'apikey': apiKey,
-        },
-        cache: 'no-store',
-      });
-
-      const data = await upstreamResponse.json().catch(() => ({}));
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to initiate connection',
-          details: data
-        });
-      }
+      const data = await this.evolutionApi.connectInstance(prefixedInstanceName);
 
       return res.json(data);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to initiate connection'));
+      }
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
@@ -319,104 +373,63 @@ export class InstancesController {
       }
 
       const userId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
 
       // Prefix instance name with user ID for external API call
       const prefixedInstanceName = this.service.getPrefixedInstanceName(userId, name);
-      const url = `${baseUrl.replace(/\/$/, '')}/instance/delete/${encodeURIComponent(prefixedInstanceName)}`;
-
-      const upstreamResponse = await fetch(url, {
-        method: 'DELETE',
-        headers: {
-          'apikey': apiKey,
-        },
-        cache: 'no-store',
-      });
-
-      const data = await upstreamResponse.json().catch(() => ({}));
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to delete instance',
-          details: data
-        });
-      }
+      const data = await this.evolutionApi.deleteInstance(prefixedInstanceName);
 
       return res.json(data);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to delete instance'));
+      }
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
 
   @Post(':name/webhook')
   async configureWebhook(@Param('name') name: string, @Request() req: any, @Res() res: Response) {
+    await this.ensureSubUserPermission(req, name, SubUserCapability.MANAGE_WEBHOOK);
     try {
-      await this.ensureSubUserPermission(req, name);
       const userId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
       const webhookUrl = process.env.WPP_WEBHOOK_URL;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
+      const webhookToken = process.env.WPP_WEBHOOK_TOKEN;
 
       if (!webhookUrl) {
         return res.status(500).json({ error: 'Webhook URL not configured' });
       }
+      if (!webhookToken) {
+        return res.status(500).json({ error: 'Webhook token not configured' });
+      }
 
       // Prefix instance name with effective user ID for external API call
       const prefixedInstanceName = this.service.getPrefixedInstanceName(userId, name);
-      const url = `${baseUrl.replace(/\/$/, '')}/webhook/set/${encodeURIComponent(prefixedInstanceName)}`;
 
       // Event scope must match cavekit-messaging.md R3 (relay pipeline events).
-      const webhookConfig = {
-        webhook: {
-          byEvents: false,
-          base64: true,
-          events: [
-            'MESSAGES_UPSERT',
-            'MESSAGES_UPDATE',
-            'MESSAGES_DELETE',
-            'CHATS_UPSERT',
-            'CHATS_UPDATE',
-            'CHATS_DELETE',
-            'CONNECTION_UPDATE',
-            'SEND_MESSAGE',
-          ],
-          enabled: true,
-          url: webhookUrl
-        }
-      };
-
-      const upstreamResponse = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': apiKey,
-        },
-        body: JSON.stringify(webhookConfig),
+      const data = await this.evolutionApi.setWebhook(prefixedInstanceName, {
+        byEvents: false,
+        base64: true,
+        events: [
+          'MESSAGES_UPSERT',
+          'MESSAGES_UPDATE',
+          'MESSAGES_DELETE',
+          'CHATS_UPSERT',
+          'CHATS_UPDATE',
+          'CHATS_DELETE',
+          'CONNECTION_UPDATE',
+          'SEND_MESSAGE',
+        ],
+        enabled: true,
+        url: webhookUrl,
+        headers: { [WEBHOOK_TOKEN_HEADER]: webhookToken },
       });
 
-      const data = await upstreamResponse.json().catch(() => ({}));
-
-      if (!upstreamResponse.ok) {
-        return res.status(upstreamResponse.status).json({
-          error: 'Failed to configure webhook',
-          details: data
-        });
-      }
-
       return res.json(data);
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to configure webhook'));
+      }
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
 }
-
-
@@ -1,25 +1,33 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Instance } from './instance.entity';
+import { PromptRevision } from './prompt-revision.entity';
 import { InstancesService } from './instances.service';
+import { PromptRevisionsService } from './prompt-revisions.service';
+import { PromptTemplateService } from './prompt-template.service';
+import { Message } from '../messages/message.entity';
 import { InstancesController } from './instances.controller';
 import { UsersModule } from '../users/users.module';
 import { ExamplePromptsModule } from '../example-prompts/example-prompts.module';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
 import { SubUsersModule } from '../sub-users/sub-users.module';
+import { EvolutionModule } from '../evolution/evolution.module';
+import { BotStatesModule } from '../bot-states/bot-states.module';
+import { ContactsModule } from '../contacts/contacts.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Instance]),
+    TypeOrmModule.forFeature([Instance, PromptRevision, Message]),
     UsersModule,
     ExamplePromptsModule,
     SubscriptionsModule,
     forwardRef(() => SubUsersModule),
+    EvolutionModule,
+    BotStatesModule,
+    ContactsModule,
   ],
-  providers: [InstancesService],
+  providers: [InstancesService, PromptRevisionsService, PromptTemplateService],
   controllers: [InstancesController],
-  exports: [InstancesService],
+  exports: [InstancesService, PromptTemplateService],
 })
 export class InstancesModule {}
-
-
@@ -3,6 +3,8 @@ import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { Instance } from './instance.entity';
 import { ExamplePromptsService } from '../example-prompts/example-prompts.service';
+import { PromptRevisionsService } from './prompt-revisions.service';
+import { PromptTemplateService } from './prompt-template.service';
 
 @Injectable()
 export class InstancesService {
@@ -10,6 +12,8 @@ export class InstancesService {
     @InjectRepository(Instance)
     private readonly repo: Repository<Instance>,
     private readonly examplePromptsService: ExamplePromptsService,
+    private readonly promptRevisionsService: PromptRevisionsService,
+    private readonly promptTemplateService: PromptTemplateService,
   ) {}
 
   async getPromptByName(name: string, userId: string): Promise<string> {
@@ -29,9 +33,13 @@ export class InstancesService {
 
   /**
    * Gets prompt by full instance name (with user prefix)
-   * Used by n8n to fetch prompts without knowing userId separately
+   * Used by n8n to fetch prompts without knowing userId separately.
+   * The prompt is returned rendered; `remoteJid` fills the contact variables.
    */
-  async getPromptByFullInstanceName(fullInstanceName: string): Promise<{ prompt: string; instanceName: string; userId: string }> {
+  async getPromptByFullInstanceName(
+    fullInstanceName: string,
+    remoteJid?: string,
+  ): Promise<{ prompt: string; instanceName: string; userId: string }> {
     // Full instance name format: userId_instanceName
     const separatorIndex = fullInstanceName.indexOf('_');
     
@@ -54,28 +62,80 @@ export class InstancesService {
     }
 
     return {
-      prompt: inst.prompt,
+      prompt: await this.promptTemplateService.render(inst, remoteJid),
       instanceName: name,
       userId: userId,
     };
   }
 
+  /**
+   * Saves the prompt and records it as a new revision authored by
+   * `revision.authorUserId` (the acting user, which may be a sub-user).
+   */
   async upsertPromptByName(
     name: string,
     prompt: string,
     userId: string,
+    revision: { authorUserId: string; note?: string | null; restoredFromRevisionId?: string },
   ): Promise<{ instance: Instance; created: boolean }> {
     const existing = await this.repo.findOne({ where: { name, userId } });
+    this.promptTemplateService.assertKnownVariables(prompt, existing?.variables || {});
     if (existing) {
+      const previousPrompt = existing.prompt;
       existing.prompt = prompt;
       const saved = await this.repo.save(existing);
+      await this.promptRevisionsService.record(saved, previousPrompt, revision);
       return { instance: saved, created: false };
     }
     const created = this.repo.create({ name, prompt, userId });
     const saved = await this.repo.save(created);
+    await this.promptRevisionsService.record(saved, null, revision);
     return { instance: saved, created: true };
   }
 
+  /**
+   * Makes an older revision the current prompt. The restore itself is
+   * recorded as a new revision pointing back at the restored one.
+   */
+  async restorePromptRevision(
+    name: string,
+    userId: string,
+    revisionId: string,
+    authorUserId: string,
+    note?: string,
+  ): Promise<Instance> {
+    const instance = await this.findByNameOrFail(name, userId);
+    const revision = await this.promptRevisionsService.get(instance.id, revisionId);
+    const { instance: saved } = await this.upsertPromptByName(name, revision.prompt, userId, {
+      authorUserId,
+      note: note || `Restaurado da versão ${revision.version}`,
+      restoredFromRevisionId: revision.id,
+    });
+    return saved;
+  }
+
+  /**
+   * Replaces the instance's variable set. Variables still referenced by the
+   * current prompt can't be removed.
+   */
+  async updateVariablesByName(
+    name: string,
+    userId: string,
+    variables: Record<string, unknown>,
+  ): Promise<Instance> {
+    const instance = await this.findByNameOrFail(name, userId);
+    const sanitized = this.promptTemplateService.sanitizeVariables(variables);
+    this.promptTemplateService.assertKnownVariables(instance.prompt, sanitized);
+    instance.variables = sanitized;
+    return this.repo.save(instance);
+  }
+
+  async findByNameOrFail(name: string, userId: string): Promise<Instance> {
+    const instance = await this.repo.findOne({ where: { name, userId } });
+    if (!instance) throw new NotFoundException('Instance not found');
+    return instance;
+  }
+
   /**
    * Ensures an instance record exists in the local DB (creates with default prompt if missing).
    * Called when a new instance is created on the external API so it immediately
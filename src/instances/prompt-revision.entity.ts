@@ -0,0 +1,53 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Instance } from './instance.entity';
+import { User } from '../users/user.entity';
+
+/**
+ * Immutable snapshot of an instance prompt. A new row is written on every
+ * save and restore; the instance row keeps only the current prompt.
+ */
+@Entity({ name: 'prompt_revisions' })
+@Index('UQ_prompt_revisions_instance_version', ['instanceId', 'version'], { unique: true })
+export class PromptRevision {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'instance_id', type: 'uuid' })
+  instanceId: string;
+
+  @ManyToOne(() => Instance, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'instance_id' })
+  instance: Instance;
+
+  /** Sequential per instance, starting at 1. */
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'text' })
+  prompt: string;
+
+  /** User or sub-user who saved this revision; null for the pre-history baseline. */
+  @Column({ name: 'author_user_id', type: 'uuid', nullable: true })
+  authorUserId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'author_user_id' })
+  author: User | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  note: string | null;
+
+  @Column({ name: 'restored_from_revision_id', type: 'uuid', nullable: true })
+  restoredFromRevisionId: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,153 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Change, createTwoFilesPatch, diffLines } from 'diff';
+import { PromptRevision } from './prompt-revision.entity';
+import { Instance } from './instance.entity';
+
+export interface PromptRevisionSummary {
+  id: string;
+  version: number;
+  note: string | null;
+  restoredFromRevisionId: string | null;
+  createdAt: Date;
+  author: { id: string; name: string; email: string; isSubUser: boolean } | null;
+}
+
+export interface PromptRevisionDiff {
+  from: PromptRevisionSummary | null;
+  to: PromptRevisionSummary;
+  /** Line-level hunks (`added` / `removed` flags), ready for side-by-side rendering. */
+  changes: Change[];
+  /** Same diff as a unified patch. */
+  patch: string;
+}
+
+@Injectable()
+export class PromptRevisionsService {
+  constructor(
+    @InjectRepository(PromptRevision)
+    private readonly repo: Repository<PromptRevision>,
+  ) {}
+
+  /**
+   * Records a new revision for `instance.prompt`. When the instance has no
+   * history yet, the prompt it had before this save is stored first as an
+   * author-less baseline so the pre-history version can still be restored.
+   */
+  async record(
+    instance: Instance,
+    previousPrompt: string | null,
+    meta: { authorUserId: string; note?: string | null; restoredFromRevisionId?: string | null },
+  ): Promise<PromptRevision> {
+    let latestVersion = await this.getLatestVersion(instance.id);
+
+    if (latestVersion === 0 && previousPrompt !== null) {
+      await this.repo.save(
+        this.repo.create({
+          instanceId: instance.id,
+          version: 1,
+          prompt: previousPrompt,
+          authorUserId: null,
+          note: 'Versão anterior ao histórico',
+        }),
+      );
+      latestVersion = 1;
+    }
+
+    return this.repo.save(
+      this.repo.create({
+        instanceId: instance.id,
+        version: latestVersion + 1,
+        prompt: instance.prompt,
+        authorUserId: meta.authorUserId,
+        note: meta.note?.trim() || null,
+        restoredFromRevisionId: meta.restoredFromRevisionId ?? null,
+      }),
+    );
+  }
+
+  async list(instanceId: string): Promise<PromptRevisionSummary[]> {
+    const revisions = await this.repo.find({
+      where: { instanceId },
+      relations: ['author'],
+      order: { version: 'DESC' },
+    });
+    return revisions.map((r) => this.toSummary(r));
+  }
+
+  async get(instanceId: string, revisionId: string): Promise<PromptRevision> {
+    const revision = await this.repo.findOne({
+      where: { id: revisionId, instanceId },
+      relations: ['author'],
+    });
+    if (!revision) throw new NotFoundException('Revisão não encontrada');
+    return revision;
+  }
+
+  async getWithSummary(
+    instanceId: string,
+    revisionId: string,
+  ): Promise<PromptRevisionSummary & { prompt: string }> {
+    const revision = await this.get(instanceId, revisionId);
+    return { ...this.toSummary(revision), prompt: revision.prompt };
+  }
+
+  /**
+   * Diffs revision `revisionId` against `againstId`, or against the
+   * revision right before it when no comparison target is given.
+   */
+  async diff(
+    instanceId: string,
+    revisionId: string,
+    againstId?: string,
+  ): Promise<PromptRevisionDiff> {
+    const to = await this.get(instanceId, revisionId);
+    const from = againstId
+      ? await this.get(instanceId, againstId)
+      : await this.repo.findOne({
+          where: { instanceId, version: to.version - 1 },
+          relations: ['author'],
+        });
+
+    const fromPrompt = from?.prompt ?? '';
+    return {
+      from: from ? this.toSummary(from) : null,
+      to: this.toSummary(to),
+      changes: diffLines(fromPrompt, to.prompt),
+      patch: createTwoFilesPatch(
+        from ? `v${from.version}` : 'empty',
+        `v${to.version}`,
+        fromPrompt,
+        to.prompt,
+      ),
+    };
+  }
+
+  private async getLatestVersion(instanceId: string): Promise<number> {
+    const result = await this.repo
+      .createQueryBuilder('r')
+      .select('COALESCE(MAX(r.version), 0)', 'maxVersion')
+      .where('r.instance_id = :instanceId', { instanceId })
+      .getRawOne();
+    return Number(result?.maxVersion ?? 0);
+  }
+
+  private toSummary(revision: PromptRevision): PromptRevisionSummary {
+    return {
+      id: revision.id,
+      version: revision.version,
+      note: revision.note,
+      restoredFromRevisionId: revision.restoredFromRevisionId,
+      createdAt: revision.createdAt,
+      author: revision.author
+        ? {
+            id: revision.author.id,
+            name: revision.author.name,
+            email: revision.author.email,
+            isSubUser: !!revision.author.parentUserId,
+          }
+        : null,
+    };
+  }
+}
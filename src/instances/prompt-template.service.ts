@@ -0,0 +1,159 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Instance } from './instance.entity';
+import { Message } from '../messages/message.entity';
+import { extractPhoneFromJid, numberToJid } from '../messages/jid.utils';
+import { ContactsService } from '../contacts/contacts.service';
+import { validationException } from '../common/validation.pipe';
+
+/** `{{ business.name }}`; surrounding whitespace inside the braces is allowed. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z0-9_.]+)\s*\}\}/g;
+/** Dotted lower-case names such as `business.name` or `links.menu`. */
+const VARIABLE_NAME_PATTERN = /^[a-z][a-z0-9_]*(\.[a-z0-9_]+)*$/;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Variables resolved at render time; they can't be defined in an instance's
+ * variable set. `contact.*` is empty when no remoteJid is given and
+ * `hours.today` picks the `hours.<weekday>` entry for the current day.
+ */
+export const BUILTIN_PROMPT_VARIABLES: Record<string, string> = {
+  'contact.name': 'Nome do contato (cadastro ou nome no WhatsApp)',
+  'contact.phone': 'Telefone do contato',
+  'hours.today': 'Horário de hoje, a partir de hours.monday … hours.sunday',
+  'date.today': 'Data de hoje (dd/mm/aaaa)',
+};
+
+@Injectable()
+export class PromptTemplateService {
+  constructor(
+    @InjectRepository(Message)
+    private readonly messagesRepo: Repository<Message>,
+    private readonly config: ConfigService,
+    private readonly contactsService: ContactsService,
+  ) {}
+
+  /** Placeholder names used in a prompt, in order of first appearance. */
+  extractVariables(prompt: string): string[] {
+    const names = new Set<string>();
+    for (const match of (prompt || '').matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1]);
+    }
+    return [...names];
+  }
+
+  /**
+   * Rejects prompts that reference variables which are neither built in nor
+   * defined in `variables`.
+   */
+  assertKnownVariables(prompt: string, variables: Record<string, string>): void {
+    const unknownVariables = this.extractVariables(prompt).filter(
+      (name) => !(name in BUILTIN_PROMPT_VARIABLES) && !(name in variables),
+    );
+    if (unknownVariables.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Variáveis desconhecidas no prompt: ${unknownVariables.join(', ')}`,
+        unknownVariables,
+      });
+    }
+  }
+
+  /**
+   * Validates and normalises a variable set. Values must be strings, names
+   * must be dotted lower-case identifiers and built-in names are reserved.
+   * The object shape itself is checked by PutPromptVariablesDto.
+   */
+  sanitizeVariables(input: Record<string, unknown>): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const [rawName, value] of Object.entries(input)) {
+      const name = rawName.trim();
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        throw validationException('variables', `Nome de variável inválido: "${rawName}".`);
+      }
+      if (name in BUILTIN_PROMPT_VARIABLES || name.startsWith('contact.')) {
+        throw validationException('variables', `A variável "${name}" é reservada.`);
+      }
+      if (typeof value !== 'string') {
+        throw validationException(`variables.${name}`, `O valor de "${name}" deve ser um texto.`);
+      }
+      result[name] = value;
+    }
+    return result;
+  }
+
+  /**
+   * Renders the instance prompt. When `remoteJid` is given, `contact.name`
+   * comes from the contact record, falling back to the latest WhatsApp name.
+   */
+  async render(instance: Instance, remoteJid?: string): Promise<string> {
+    return this.renderTemplate(instance.prompt || '', instance, remoteJid);
+  }
+
+  /**
+   * Renders any text against an instance's variables and the built-ins.
+   * `extraValues` win over both. Unknown placeholders are left untouched.
+   */
+  async renderTemplate(
+    template: string,
+    instance: Pick<Instance, 'userId' | 'name' | 'variables'>,
+    remoteJid?: string,
+    extraValues: Record<string, string> = {},
+  ): Promise<string> {
+    const values: Record<string, string> = {
+      ...(instance.variables || {}),
+      ...this.getDateValues(instance.variables || {}),
+      ...(await this.getContactValues(instance, remoteJid)),
+      ...extraValues,
+    };
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+      name in values ? values[name] : placeholder,
+    );
+  }
+
+  private getDateValues(variables: Record<string, string>): Record<string, string> {
+    const timeZone = this.config.get<string>('PROMPT_TIMEZONE') || 'America/Sao_Paulo';
+    const now = new Date();
+    const weekdayIndex = new Date(now.toLocaleString('en-US', { timeZone })).getDay();
+    return {
+      'hours.today': variables[`hours.${WEEKDAYS[weekdayIndex]}`] ?? '',
+      'date.today': now.toLocaleDateString('pt-BR', { timeZone }),
+    };
+  }
+
+  private async getContactValues(
+    instance: Pick<Instance, 'userId' | 'name'>,
+    remoteJid?: string,
+  ): Promise<Record<string, string>> {
+    if (!remoteJid) return { 'contact.name': '', 'contact.phone': '' };
+
+    // n8n may send either a JID or a bare phone number.
+    const canonicalJid = numberToJid(remoteJid);
+    const phone = extractPhoneFromJid(canonicalJid).phone;
+    // findByJid rejects non-user JIDs (groups, @lid); those simply have no contact.
+    const contact = await this.contactsService
+      .findByJid(instance.userId, canonicalJid)
+      .catch(() => null);
+    if (contact?.name) return { 'contact.name': contact.name, 'contact.phone': phone };
+
+    const latestInbound = await this.messagesRepo
+      .createQueryBuilder('m')
+      .select(['m.pushName'])
+      .where('m.user_id = :userId', { userId: instance.userId })
+      .andWhere('m.instance_name = :instanceName', { instanceName: instance.name })
+      .andWhere('m.remote_jid = :remoteJid', { remoteJid: canonicalJid })
+      .andWhere('m.from_me = false')
+      .andWhere('m.push_name IS NOT NULL')
+      .orderBy('m.sent_at', 'DESC')
+      .getOne();
+
+    return {
+      'contact.name': latestInbound?.pushName || '',
+      'contact.phone': phone,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from './mail.types';
+
+/** Development transport: prints every message to the log instead of sending it. */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+      ].join('\n'),
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { MailMessage, MailTransport } from './mail.types';
+
+/**
+ * Development transport: writes each message as an .eml file into
+ * `directory`, so links in it can be opened from a mail client or editor.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const file = path.join(this.directory, `${Date.now()}-${recipient}.eml`);
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+    await fs.writeFile(file, `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`, 'utf8');
+  }
+}
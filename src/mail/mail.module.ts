@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailTransport } from './mail.types';
+import { MailService } from './mail.service';
+import { ConsoleMailTransport } from './console-mail.transport';
+import { FileMailTransport } from './file-mail.transport';
+
+/**
+ * `MAIL_TRANSPORT` picks the transport: `console` (default) or `file`,
+ * which writes to `MAIL_FILE_DIR`. Other transports implement MailTransport
+ * and are added to the factory below.
+ */
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (config: ConfigService): MailTransport => {
+        const transport = config.get<string>('MAIL_TRANSPORT') || 'console';
+        switch (transport) {
+          case 'console':
+            return new ConsoleMailTransport();
+          case 'file':
+            return new FileMailTransport(config.get<string>('MAIL_FILE_DIR') || 'tmp/mail');
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
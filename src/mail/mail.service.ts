@@ -0,0 +1,23 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './mail.types';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private readonly transport: MailTransport,
+    private readonly config: ConfigService,
+  ) {}
+
+  /** Sends through the configured transport; transport errors propagate. */
+  async send(message: MailMessage): Promise<void> {
+    const from = this.config.get<string>('MAIL_FROM') || 'no-reply@localhost';
+    await this.transport.send({ ...message, from });
+  }
+
+  /** Base URL of the frontend, for links in emails. */
+  getFrontendUrl(): string {
+    return (this.config.get<string>('FRONTEND_URL') || 'http://localhost:3000').replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/** Delivers a fully built message; `from` is already filled in by MailService. */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/** Injection token for the active MailTransport. */
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
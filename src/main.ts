@@ -1,9 +1,17 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap(): Promise<void> {
-  const app = await NestFactory.create(AppModule, { rawBody: true });
-  
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+
+  // Behind a reverse proxy, trust its X-Forwarded-For so req.ip (used by the
+  // login rate limits) is the client's address, e.g. TRUST_PROXY=1
+  if (process.env.TRUST_PROXY) {
+    const hops = Number(process.env.TRUST_PROXY);
+    app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+  }
+
   // Enable CORS for frontend
   // CORS_ORIGINS can be a comma-separated list of allowed origins
   // e.g., "http://localhost:9002,https://my-frontend.example.com"
@@ -24,7 +32,7 @@ async function bootstrap(): Promise<void> {
     },
     credentials: true,
   });
-  
+
   const port = process.env.PORT ? Number(process.env.PORT) : 4000;
   await app.listen(port);
   console.log(`Application is running on: http://localhost:${port}`);
@@ -32,5 +40,3 @@ async function bootstrap(): Promise<void> {
 }
 
 bootstrap();
-
-
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { AutoAssignMode } from '../../chat-assignments/assignment-settings.entity';
+
+export class AutoAssignChatDto {
+  @IsOptional()
+  @IsIn([AutoAssignMode.ROUND_ROBIN, AutoAssignMode.LEAST_BUSY])
+  mode?: AutoAssignMode;
+}
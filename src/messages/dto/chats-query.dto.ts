@@ -0,0 +1,17 @@
+import { IsEnum, IsIn, IsOptional, IsString } from 'class-validator';
+import { ConversationStatus } from '../../chat-statuses/chat-status.entity';
+
+export class ChatsQueryDto {
+  /** Comma-separated tag ids. */
+  @IsOptional()
+  @IsString()
+  tags?: string;
+
+  @IsOptional()
+  @IsIn(['me', 'unassigned'])
+  assigned?: 'me' | 'unassigned';
+
+  @IsOptional()
+  @IsEnum(ConversationStatus)
+  status?: ConversationStatus;
+}
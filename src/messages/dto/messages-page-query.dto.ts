@@ -0,0 +1,25 @@
+import { Type } from 'class-transformer';
+import { IsBooleanString, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+
+export class MessagesPageQueryDto {
+  /** Comma-separated JID variants of the chat. */
+  @IsOptional()
+  @IsString()
+  allJids?: string;
+
+  /** `nextCursor` of the previous page. */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+
+  @IsOptional()
+  @IsBooleanString()
+  includeNotes?: string;
+}
@@ -0,0 +1,19 @@
+import { IsBooleanString, IsNotEmpty, IsNumberString, IsOptional, IsString } from 'class-validator';
+
+export class SendAudioDto {
+  @IsString()
+  @IsNotEmpty()
+  number: string;
+
+  @IsOptional()
+  @IsNumberString()
+  delay?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  pauseBot?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pauseBotMinutes?: string;
+}
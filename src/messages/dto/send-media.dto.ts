@@ -0,0 +1,28 @@
+import { IsBooleanString, IsNotEmpty, IsNumberString, IsOptional, IsString } from 'class-validator';
+
+/** Multipart form fields, so numbers arrive as strings. */
+export class SendMediaDto {
+  @IsString()
+  @IsNotEmpty()
+  number: string;
+
+  @IsOptional()
+  @IsString()
+  caption?: string;
+
+  @IsOptional()
+  @IsString()
+  fileName?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  delay?: string;
+
+  @IsOptional()
+  @IsBooleanString()
+  pauseBot?: string;
+
+  @IsOptional()
+  @IsNumberString()
+  pauseBotMinutes?: string;
+}
@@ -0,0 +1,36 @@
+import { IsBoolean, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, Min } from 'class-validator';
+
+export class SendTextInput {
+  @IsString()
+  @IsNotEmpty()
+  number: string;
+
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  delay?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  linkPreview?: boolean;
+
+  @IsOptional()
+  @IsObject()
+  quoted?: {
+    key: { id: string };
+    message: { conversation: string };
+  };
+
+  @IsOptional()
+  @IsBoolean()
+  pauseBot?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  pauseBotMinutes?: number;
+}
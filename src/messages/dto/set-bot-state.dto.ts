@@ -0,0 +1,16 @@
+import { IsDateString, IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { BotMode } from '../../bot-states/chat-bot-state.entity';
+
+export class SetBotStateDto {
+  @IsEnum(BotMode)
+  mode: BotMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  minutes?: number;
+
+  @IsOptional()
+  @IsDateString()
+  pausedUntil?: string;
+}
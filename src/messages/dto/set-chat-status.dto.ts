@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { ConversationStatus } from '../../chat-statuses/chat-status.entity';
+
+export class SetChatStatusDto {
+  @IsEnum(ConversationStatus)
+  status: ConversationStatus;
+}
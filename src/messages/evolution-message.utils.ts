@@ -0,0 +1,46 @@
+import { EvolutionMessage, EvolutionMessageContent } from '../evolution/evolution-api.types';
+import { isGroupOrBroadcastJid, isLidJid, isStandardUserJid, normalizeJid } from './jid.utils';
+
+/** Socket and webhook payloads wrap records differently; flatten them all. */
+export function extractMessageRecords(payload: unknown): EvolutionMessage[] {
+  const data = (isObject(payload) ? payload.data : undefined) ?? payload;
+  if (Array.isArray(data)) return data as EvolutionMessage[];
+  if (isObject(data) && Array.isArray(data.messages)) return data.messages as EvolutionMessage[];
+  return isObject(data) ? [data as EvolutionMessage] : [];
+}
+
+/**
+ * Canonical chat JID of a 1:1 message record, or null for groups, broadcasts
+ * and records without a key. Newer Evolution versions report the phone JID
+ * next to an opaque @lid; the phone JID wins when present.
+ */
+export function getRecordCanonicalJid(record: EvolutionMessage): string | null {
+  const rawJid = record?.key?.remoteJid;
+  if (!rawJid || isGroupOrBroadcastJid(rawJid)) return null;
+
+  let canonicalSource = rawJid;
+  if (isLidJid(rawJid)) {
+    const alt = record.key?.remoteJidAlt || record.key?.senderPn;
+    if (alt && isStandardUserJid(alt)) canonicalSource = alt;
+  }
+  return normalizeJid(canonicalSource);
+}
+
+/** Pulls the human-readable text out of the common WhatsApp message shapes. */
+export function extractMessageText(record: EvolutionMessage): string | null {
+  const message: EvolutionMessageContent = record.message ?? {};
+  const text =
+    message.conversation ||
+    message.extendedTextMessage?.text ||
+    message.imageMessage?.caption ||
+    message.videoMessage?.caption ||
+    message.documentMessage?.caption ||
+    message.documentMessage?.fileName ||
+    message.documentWithCaptionMessage?.message?.documentMessage?.caption ||
+    null;
+  return typeof text === 'string' && text.trim() ? text : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
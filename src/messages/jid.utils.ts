@@ -0,0 +1,139 @@
+/**
+ * Checks whether a JID is a regular WhatsApp contact (@s.whatsapp.net).
+ * Filters out @lid, @g.us, @broadcast, etc.
+ */
+export function isStandardUserJid(jid: string): boolean {
+  return typeof jid === 'string' && jid.endsWith('@s.whatsapp.net');
+}
+
+/**
+ * Checks whether a JID belongs to a WhatsApp group chat (@g.us) or
+ * broadcast list (@broadcast).  These are excluded from all endpoints
+ * so the app only works with individual (1-to-1) chats.
+ */
+export function isGroupOrBroadcastJid(jid: string): boolean {
+  return typeof jid === 'string' && (jid.endsWith('@g.us') || jid === 'status@broadcast');
+}
+
+/**
+ * Checks whether a JID uses WhatsApp's newer Linked Identifier format.
+ */
+export function isLidJid(jid: string): boolean {
+  return typeof jid === 'string' && jid.endsWith('@lid');
+}
+
+/**
+ * Extracts just the phone-number digits from a JID's local part.
+ * For @lid JIDs the format is `phone:deviceId@lid` – we strip the
+ * `:deviceId` suffix.  For all other JIDs we return the part before `@`.
+ */
+export function extractPhoneFromJid(jid: string): { phone: string; domain: string } {
+  const atIdx = jid.indexOf('@');
+  if (atIdx < 0) return { phone: jid, domain: '' };
+  const rawLocal = jid.slice(0, atIdx);
+  const domain = jid.slice(atIdx); // includes '@'
+
+  if (domain === '@lid') {
+    const colonIdx = rawLocal.indexOf(':');
+    const phone = colonIdx >= 0 ? rawLocal.slice(0, colonIdx) : rawLocal;
+    return { phone, domain };
+  }
+  return { phone: rawLocal, domain };
+}
+
+/**
+ * Normalises a phone-number string by applying the Brazilian 9th-digit
+ * rule.  Returns a canonical `<number>@s.whatsapp.net` JID regardless
+ * of whether the input was @s.whatsapp.net or @lid.
+ *
+ * Brazilian mobile numbers:
+ *   +55 XX 9XXXX-XXXX  (13 digits, canonical)
+ *   +55 XX XXXX-XXXX   (12 digits, legacy – missing the leading 9)
+ *
+ * Non-Brazilian numbers, group JIDs (@g.us), and broadcast JIDs are
+ * returned as-is.
+ */
+export function normalizeJid(jid: string): string {
+  if (!jid) return jid;
+  const atIdx = jid.indexOf('@');
+  if (atIdx < 0) return jid;
+
+  const rawLocal = jid.slice(0, atIdx);
+  const { phone, domain } = extractPhoneFromJid(jid);
+
+  // For @lid JIDs, map to the canonical @s.whatsapp.net form so they
+  // merge with the standard chat entry during deduplication.
+  if (domain === '@lid') {
+    // Only normalise when we're confident the local part contains a
+    // real phone number.  Older WhatsApp versions use the format
+    // `phone:deviceId@lid` (colon-separated) where the part before the
+    // colon is the actual phone number.  Newer versions use opaque
+    // numeric identifiers with NO colon – these can't be reliably
+    // mapped to a phone number and must be left as-is so the second
+    // deduplication pass can match them by name/pushName instead.
+    const hasDeviceId = rawLocal.includes(':');
+    if (hasDeviceId && /^\d{10,15}$/.test(phone)) {
+      const normalized = normalizeBrazilianNumber(phone);
+      return `${normalized}@s.whatsapp.net`;
+    }
+    // Opaque LID – can't normalise, return as-is
+    return jid;
+  }
+
+  // Only touch @s.whatsapp.net JIDs
+  if (domain !== '@s.whatsapp.net') return jid;
+
+  const normalized = normalizeBrazilianNumber(phone);
+  return `${normalized}${domain}`;
+}
+
+/**
+ * Adds the Brazilian 9th digit to a 12-digit number if applicable.
+ * Returns the number string unchanged for non-Brazilian or already-
+ * canonical numbers.
+ */
+export function normalizeBrazilianNumber(phone: string): string {
+  if (!phone.startsWith('55')) return phone;
+  if (phone.length === 12) {
+    return `55${phone.slice(2, 4)}9${phone.slice(4)}`;
+  }
+  return phone;
+}
+
+/**
+ * Returns all plausible JID variants for a given phone JID so we can
+ * query messages stored under any of them.
+ *
+ * For Brazilian numbers this returns both the 12- and 13-digit forms.
+ */
+export function getJidVariations(jid: string): string[] {
+  if (!jid) return [jid];
+  const atIdx = jid.indexOf('@');
+  if (atIdx < 0) return [jid];
+  const number = jid.slice(0, atIdx);
+  const domain = jid.slice(atIdx);
+
+  if (domain !== '@s.whatsapp.net' || !number.startsWith('55')) return [jid];
+
+  const variations: string[] = [jid];
+  if (number.length === 13 && number[4] === '9') {
+    // With 9th digit → also try without
+    variations.push(`55${number.slice(2, 4)}${number.slice(5)}${domain}`);
+  } else if (number.length === 12) {
+    // Without 9th digit → also try with
+    variations.push(`55${number.slice(2, 4)}9${number.slice(4)}${domain}`);
+  }
+  return variations;
+}
+
+/**
+ * Converts the `number` field accepted by the send endpoints (bare digits,
+ * optionally with `+` or formatting) into a canonical chat JID. Values that
+ * already carry a domain are only normalised.
+ */
+export function numberToJid(number: string): string {
+  if (!number) return number;
+  if (number.includes('@')) return normalizeJid(number);
+  const digits = number.replace(/\D/g, '');
+  return normalizeJid(`${digits}@s.whatsapp.net`);
+}
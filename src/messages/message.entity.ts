@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+/**
+ * Local copy of a WhatsApp message, filled from webhook/socket events and the
+ * Evolution history backfill. `remoteJid` is always the canonical JID (see
+ * normalizeJid) so Brazilian 9th-digit variants land in the same chat.
+ */
+@Entity({ name: 'messages' })
+@Index('UQ_messages_chat_key', ['userId', 'instanceName', 'remoteJid', 'keyId'], {
+  unique: true,
+})
+@Index('IDX_messages_chat_sent_at', ['userId', 'instanceName', 'remoteJid', 'sentAt'])
+// Full-text GIN expression index, managed by the AddMessagesSearchIndex migration.
+@Index('IDX_messages_search', { synchronize: false })
+export class Message {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner (parent) user of the instance. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Display instance name (without the user prefix). */
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  /** JID exactly as Evolution reported it (may be a @lid or legacy variant). */
+  @Column({ name: 'raw_remote_jid' })
+  rawRemoteJid: string;
+
+  @Column({ name: 'key_id' })
+  keyId: string;
+
+  @Column({ name: 'from_me', default: false })
+  fromMe: boolean;
+
+  @Column({ name: 'push_name', type: 'varchar', nullable: true })
+  pushName: string | null;
+
+  @Column({ name: 'message_type', type: 'varchar', nullable: true })
+  messageType: string | null;
+
+  /** Plain-text body or media caption, when the message has one. */
+  @Column({ type: 'text', nullable: true })
+  text: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  status: string | null;
+
+  @Column({ name: 'sent_at', type: 'timestamp' })
+  sentAt: Date;
+
+  @Column({ name: 'deleted_at', type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
+
+  /** Full Evolution message record, returned to the frontend as-is. */
+  @Column({ type: 'jsonb' })
+  payload: Record<string, unknown>;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,75 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { MessagesRealtimeService, RealtimeEnvelope } from './messages-realtime.service';
+import { extractMessageRecords, getRecordCanonicalJid } from './evolution-message.utils';
+import { isStandardUserJid } from './jid.utils';
+import {
+  ChatAssignmentsService,
+  ChatAssignmentView,
+} from '../chat-assignments/chat-assignments.service';
+
+/** Relay event pushed to the owner's room whenever a chat changes hands. */
+export const CHAT_ASSIGNMENT_EVENT = 'CHAT_ASSIGNMENT';
+
+/**
+ * Distributes new inbound chats among online sub-users and broadcasts every
+ * assignment change over the messages-realtime gateway.
+ */
+@Injectable()
+export class MessagesAssignmentService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagesAssignmentService.name);
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly realtimeService: MessagesRealtimeService,
+    private readonly chatAssignmentsService: ChatAssignmentsService,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.realtimeService.subscribe((envelope) => {
+      if (envelope.event === 'MESSAGES_UPSERT') void this.handleIncoming(envelope);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+  }
+
+  /** Emits `CHAT_ASSIGNMENT` with the new assignee (null when unassigned). */
+  broadcast(
+    ownerUserId: string,
+    instanceName: string,
+    remoteJid: string,
+    assignment: ChatAssignmentView | null,
+  ): void {
+    this.realtimeService.relayEvent({
+      event: CHAT_ASSIGNMENT_EVENT,
+      fullInstanceName: `${ownerUserId}_${instanceName}`,
+      instanceName,
+      ownerUserId,
+      payload: { remoteJid, assignment },
+    });
+  }
+
+  private async handleIncoming(envelope: RealtimeEnvelope): Promise<void> {
+    if (!envelope.ownerUserId) return;
+    try {
+      for (const record of extractMessageRecords(envelope.payload)) {
+        if (record.key?.fromMe) continue;
+        const remoteJid = getRecordCanonicalJid(record);
+        if (!remoteJid || !isStandardUserJid(remoteJid)) continue;
+        const assignment = await this.chatAssignmentsService.autoAssign(
+          envelope.ownerUserId,
+          envelope.instanceName,
+          remoteJid,
+        );
+        if (assignment) {
+          this.broadcast(envelope.ownerUserId, envelope.instanceName, remoteJid, assignment);
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Auto-assignment failed for ${envelope.fullInstanceName}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
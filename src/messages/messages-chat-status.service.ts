@@ -0,0 +1,69 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { MessagesRealtimeService, RealtimeEnvelope } from './messages-realtime.service';
+import { extractMessageRecords, getRecordCanonicalJid } from './evolution-message.utils';
+import { isStandardUserJid } from './jid.utils';
+import { ChatStatusesService, ChatStatusView } from '../chat-statuses/chat-statuses.service';
+
+/** Relay event pushed to the owner's room whenever a chat changes status. */
+export const CHAT_STATUS_EVENT = 'CHAT_STATUS';
+
+/**
+ * Reopens resolved chats when the customer writes again and broadcasts
+ * every status change over the messages-realtime gateway.
+ */
+@Injectable()
+export class MessagesChatStatusService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagesChatStatusService.name);
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly realtimeService: MessagesRealtimeService,
+    private readonly chatStatusesService: ChatStatusesService,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.realtimeService.subscribe((envelope) => {
+      if (envelope.event === 'MESSAGES_UPSERT') void this.handleIncoming(envelope);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+  }
+
+  broadcast(
+    ownerUserId: string,
+    instanceName: string,
+    remoteJid: string,
+    status: ChatStatusView,
+  ): void {
+    this.realtimeService.relayEvent({
+      event: CHAT_STATUS_EVENT,
+      fullInstanceName: `${ownerUserId}_${instanceName}`,
+      instanceName,
+      ownerUserId,
+      payload: { remoteJid, status },
+    });
+  }
+
+  private async handleIncoming(envelope: RealtimeEnvelope): Promise<void> {
+    if (!envelope.ownerUserId) return;
+    try {
+      for (const record of extractMessageRecords(envelope.payload)) {
+        if (record.key?.fromMe) continue;
+        const remoteJid = getRecordCanonicalJid(record);
+        if (!remoteJid || !isStandardUserJid(remoteJid)) continue;
+        const status = await this.chatStatusesService.reopenIfResolved(
+          envelope.ownerUserId,
+          envelope.instanceName,
+          remoteJid,
+        );
+        if (status) this.broadcast(envelope.ownerUserId, envelope.instanceName, remoteJid, status);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to reopen chats for ${envelope.fullInstanceName}: ${(error as Error).message}`,
+      );
+    }
+  }
+}
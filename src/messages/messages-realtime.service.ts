@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
 import { io, Socket } from 'socket.io-client';
+import { EvolutionApiClient } from '../evolution/evolution-api.client';
 
 export interface RealtimeEnvelope {
   event: string;
@@ -32,6 +33,8 @@ export class MessagesRealtimeService implements OnModuleDestroy {
     'SEND_MESSAGE',
   ];
 
+  constructor(private readonly evolutionApi: EvolutionApiClient) {}
+
   /**
    * Replaces the set of instances watched on behalf of a specific owner user,
    * then recomputes the global union. Instances no longer needed by any user
@@ -119,24 +122,17 @@ export class MessagesRealtimeService implements OnModuleDestroy {
    * Fires on every socket `connect` event (initial + reconnect) to re-arm
    * Evolution API event toggles after a server restart (Issue #1559).
    */
-  private async configureInstanceWebsocket(
-    baseUrl: string,
-    apiKey: string,
-    fullInstanceName: string,
-  ): Promise<void> {
-    const url = `${baseUrl}/websocket/set/${encodeURIComponent(fullInstanceName)}`;
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', apikey: apiKey },
-      body: JSON.stringify({
-        websocket: { enabled: true, events: this.wantedEvents },
-      }),
-    });
-    if (!response.ok) {
-      const body = await response.text().catch(() => '');
-      const msg = `/websocket/set failed for ${fullInstanceName}: HTTP ${response.status} — ${body}`;
-      this.logger.error(msg);
-      throw new Error(msg);
+  private async configureInstanceWebsocket(fullInstanceName: string): Promise<void> {
+    try {
+      await this.evolutionApi.setWebsocket(fullInstanceName, {
+        enabled: true,
+        events: this.wantedEvents,
+      });
+    } catch (error) {
+      this.logger.error(
+        `/websocket/set failed for ${fullInstanceName}: ${(error as Error).message}`,
+      );
+      throw error;
     }
     this.logger.log(`WebSocket events configured for: ${fullInstanceName}`);
   }
@@ -146,14 +142,9 @@ export class MessagesRealtimeService implements OnModuleDestroy {
    * Called from the `connect` handler so it fires on both initial connect
    * and every reconnect, re-arming Evolution event toggles each time.
    */
-  private async activateSocket(
-    fullInstanceName: string,
-    socket: Socket,
-    baseUrl: string,
-    apiKey: string,
-  ): Promise<void> {
+  private async activateSocket(fullInstanceName: string, socket: Socket): Promise<void> {
     try {
-      await this.configureInstanceWebsocket(baseUrl, apiKey, fullInstanceName);
+      await this.configureInstanceWebsocket(fullInstanceName);
       // Store as active only if the instance is still tracked (not cleaned up).
       if (this.socketRefs.has(fullInstanceName)) {
         this.socketsByInstance.set(fullInstanceName, socket);
@@ -169,31 +160,29 @@ export class MessagesRealtimeService implements OnModuleDestroy {
   private ensureSocket(fullInstanceName: string): void {
     if (this.socketRefs.has(fullInstanceName)) return; // Already exists (active or reconnecting)
 
-    const baseUrl = (process.env.WPP_API_BASE_URL || '').replace(/\/$/, '');
-    const apiKey = process.env.WPP_API_KEY || '';
-    if (!baseUrl || !apiKey) {
+    const connection = this.evolutionApi.getSocketConnection(fullInstanceName);
+    if (!connection) {
       this.logger.error(
         'WPP_API_BASE_URL or WPP_API_KEY missing — realtime socket connections disabled',
       );
       return;
     }
 
-    const socketUrl = `${baseUrl}/${fullInstanceName}`;
-    const socket = io(socketUrl, {
+    const socket = io(connection.url, {
       transports: ['websocket'],
       reconnection: true,
       reconnectionAttempts: Infinity,
       reconnectionDelay: 1500,
       reconnectionDelayMax: 10000,
       timeout: 15000,
-      extraHeaders: { apikey: apiKey },
+      extraHeaders: { apikey: connection.apiKey },
     });
 
     socket.on('connect', () => {
       this.logger.log(`Evolution WS connected: ${fullInstanceName}`);
       // Await /websocket/set before marking socket active.
       // Fires on initial connect AND every reconnect (re-arms event toggles).
-      void this.activateSocket(fullInstanceName, socket, baseUrl, apiKey);
+      void this.activateSocket(fullInstanceName, socket);
     });
 
     socket.on('disconnect', (reason: string) => {
@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Message } from './message.entity';
+import { MessagesStoreService } from './messages-store.service';
+import { validationException } from '../common/validation.pipe';
+
+/**
+ * Text search configuration. Must match the IDX_messages_search expression
+ * index (see AddMessagesSearchIndex migration) or Postgres won't use it.
+ */
+const SEARCH_CONFIG = 'portuguese';
+const SEARCH_DOCUMENT =
+  `to_tsvector('${SEARCH_CONFIG}', coalesce(m.text, '') || ' ' || ` +
+  `coalesce(CASE WHEN m.from_me THEN NULL ELSE m.push_name END, ''))`;
+
+export interface MessageSearchHit {
+  rank: number;
+  instanceName: string;
+  remoteJid: string;
+  /** WhatsApp display name of the contact, when the hit came from them. */
+  contactName: string | null;
+  keyId: string;
+  fromMe: boolean;
+  text: string | null;
+  sentAt: Date;
+  /** Full Evolution record of the matching message. */
+  message: Record<string, unknown>;
+  /**
+   * Pass as `cursor` to GET /messages/:instanceName/:remoteJid to load the
+   * messages right before the hit.
+   */
+  cursor: string;
+}
+
+@Injectable()
+export class MessagesSearchService {
+  constructor(
+    @InjectRepository(Message)
+    private readonly repo: Repository<Message>,
+    private readonly messagesStoreService: MessagesStoreService,
+  ) {}
+
+  /**
+   * Lists the instance names that have stored messages for an owner. The
+   * controller narrows this down to the instances a sub-user may access.
+   */
+  async getSearchableInstanceNames(userId: string): Promise<string[]> {
+    const rows: { instance_name: string }[] = await this.repo
+      .createQueryBuilder('m')
+      .select('DISTINCT m.instance_name', 'instance_name')
+      .where('m.user_id = :userId', { userId })
+      .getRawMany();
+    return rows.map((r) => r.instance_name);
+  }
+
+  /**
+   * Ranked full-text search over message text and contact pushNames.
+   * Every term is matched as a prefix, so partially typed words still hit.
+   */
+  async search(
+    userId: string,
+    instanceNames: string[],
+    query: string,
+    options: { limit: number; offset: number },
+  ): Promise<{ results: MessageSearchHit[]; hasMore: boolean }> {
+    const tsquery = this.buildTsQuery(query);
+    if (!tsquery) {
+      throw validationException('q', 'Parâmetro "q" inválido.');
+    }
+    if (instanceNames.length === 0) {
+      return { results: [], hasMore: false };
+    }
+
+    const { raw, entities } = await this.repo
+      .createQueryBuilder('m')
+      .addSelect(`ts_rank(${SEARCH_DOCUMENT}, to_tsquery('${SEARCH_CONFIG}', :tsquery))`, 'rank')
+      .where('m.user_id = :userId', { userId })
+      .andWhere('m.instance_name IN (:...instanceNames)', { instanceNames })
+      .andWhere('m.deleted_at IS NULL')
+      .andWhere(`${SEARCH_DOCUMENT} @@ to_tsquery('${SEARCH_CONFIG}', :tsquery)`, { tsquery })
+      .orderBy('rank', 'DESC')
+      .addOrderBy('m.sent_at', 'DESC')
+      .offset(options.offset)
+      .limit(options.limit + 1)
+      .getRawAndEntities();
+
+    const hasMore = entities.length > options.limit;
+    const results = entities.slice(0, options.limit).map((m, i) => ({
+      rank: Number(raw[i]?.rank ?? 0),
+      instanceName: m.instanceName,
+      remoteJid: m.remoteJid,
+      contactName: m.fromMe ? null : m.pushName,
+      keyId: m.keyId,
+      fromMe: m.fromMe,
+      text: m.text,
+      sentAt: m.sentAt,
+      message: m.payload,
+      cursor: this.messagesStoreService.encodeCursor(m),
+    }));
+
+    return { results, hasMore };
+  }
+
+  /**
+   * Turns free user input into a prefix-matching tsquery (`foo:* & bar:*`),
+   * dropping everything but letters and digits so the input can't inject
+   * tsquery operators.
+   */
+  private buildTsQuery(query: string): string | null {
+    const terms = (query || '')
+      .split(/\s+/)
+      .map((term) => term.replace(/[^\p{L}\p{N}]/gu, ''))
+      .filter(Boolean)
+      .slice(0, 10);
+    if (terms.length === 0) return null;
+    return terms.map((term) => `${term}:*`).join(' & ');
+  }
+}
@@ -0,0 +1,170 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InstancesService } from '../instances/instances.service';
+import { BotStatesService } from '../bot-states/bot-states.service';
+import { EvolutionApiClient } from '../evolution/evolution-api.client';
+import {
+  EvolutionMessage,
+  EvolutionSendAudioPayload,
+  EvolutionSendMediaPayload,
+  EvolutionSendTextPayload,
+} from '../evolution/evolution-api.types';
+import { MessagesRealtimeService } from './messages-realtime.service';
+import { numberToJid } from './jid.utils';
+import { SendTextInput } from './dto/send-text-input.dto';
+
+/** How long a send pauses the bot when `pauseBot` is set without minutes. */
+const DEFAULT_MANUAL_REPLY_PAUSE_MINUTES = 60;
+
+/**
+ * Outgoing path shared by the send endpoints and background senders
+ * (scheduled messages, quick replies). Sends through Evolution, optionally
+ * pauses the bot and pushes the optimistic SEND_MESSAGE event to the relay
+ * pipeline.
+ */
+@Injectable()
+export class MessagesSenderService {
+  private readonly logger = new Logger(MessagesSenderService.name);
+
+  constructor(
+    private readonly instancesService: InstancesService,
+    private readonly botStatesService: BotStatesService,
+    private readonly evolutionApi: EvolutionApiClient,
+    private readonly messagesRealtimeService: MessagesRealtimeService,
+  ) {}
+
+  /**
+   * Sends `input.text` from the owner's instance. `actingUserId` is recorded
+   * as the author of any bot pause. Evolution failures surface as
+   * EvolutionApiError.
+   */
+  async sendText(
+    ownerUserId: string,
+    instanceName: string,
+    input: SendTextInput,
+    actingUserId: string,
+  ): Promise<EvolutionMessage> {
+    if (!input.number || !input.text) {
+      throw new BadRequestException('Fields "number" and "text" are required.');
+    }
+
+    const prefixedInstanceName = this.instancesService.getPrefixedInstanceName(
+      ownerUserId,
+      instanceName,
+    );
+
+    // Build the payload, only including optional fields when provided
+    const payload: EvolutionSendTextPayload = {
+      number: input.number,
+      text: input.text,
+    };
+    if (input.delay != null) payload.delay = input.delay;
+    if (input.linkPreview != null) payload.linkPreview = input.linkPreview;
+    if (input.quoted) payload.quoted = input.quoted;
+
+    const data = await this.evolutionApi.sendText(prefixedInstanceName, payload);
+
+    if (input.pauseBot) {
+      await this.pauseBot(
+        ownerUserId,
+        instanceName,
+        input.number,
+        input.pauseBotMinutes,
+        actingUserId,
+      );
+    }
+
+    this.messagesRealtimeService.emitOptimisticMessage({
+      ownerUserId,
+      instanceName,
+      fullInstanceName: prefixedInstanceName,
+      payload: data,
+    });
+
+    return data;
+  }
+
+  /**
+   * Sends an image, video or document; `payload.media` is base64 or a public
+   * URL. `options` pauses the bot like the text path does.
+   */
+  async sendMedia(
+    ownerUserId: string,
+    instanceName: string,
+    payload: EvolutionSendMediaPayload,
+    actingUserId: string,
+    options: Pick<SendTextInput, 'pauseBot' | 'pauseBotMinutes'> = {},
+  ): Promise<EvolutionMessage> {
+    const prefixedInstanceName = this.instancesService.getPrefixedInstanceName(
+      ownerUserId,
+      instanceName,
+    );
+    const data = await this.evolutionApi.sendMedia(prefixedInstanceName, payload);
+    if (options.pauseBot) {
+      await this.pauseBot(
+        ownerUserId,
+        instanceName,
+        payload.number,
+        options.pauseBotMinutes,
+        actingUserId,
+      );
+    }
+    this.messagesRealtimeService.emitOptimisticMessage({
+      ownerUserId,
+      instanceName,
+      fullInstanceName: prefixedInstanceName,
+      payload: data,
+    });
+    return data;
+  }
+
+  /**
+   * Sends a voice note; `payload.audio` is base64 or a public URL. `options`
+   * pauses the bot like the text path does.
+   */
+  async sendAudio(
+    ownerUserId: string,
+    instanceName: string,
+    payload: EvolutionSendAudioPayload,
+    actingUserId: string,
+    options: Pick<SendTextInput, 'pauseBot' | 'pauseBotMinutes'> = {},
+  ): Promise<EvolutionMessage> {
+    const prefixedInstanceName = this.instancesService.getPrefixedInstanceName(
+      ownerUserId,
+      instanceName,
+    );
+    const data = await this.evolutionApi.sendWhatsAppAudio(prefixedInstanceName, payload);
+    if (options.pauseBot) {
+      await this.pauseBot(
+        ownerUserId,
+        instanceName,
+        payload.number,
+        options.pauseBotMinutes,
+        actingUserId,
+      );
+    }
+    this.messagesRealtimeService.emitOptimisticMessage({
+      ownerUserId,
+      instanceName,
+      fullInstanceName: prefixedInstanceName,
+      payload: data,
+    });
+    return data;
+  }
+
+  private async pauseBot(
+    ownerUserId: string,
+    instanceName: string,
+    number: string,
+    pauseBotMinutes: number | undefined,
+    actingUserId: string,
+  ): Promise<void> {
+    const minutes =
+      Number(pauseBotMinutes) > 0 ? Number(pauseBotMinutes) : DEFAULT_MANUAL_REPLY_PAUSE_MINUTES;
+    // The message is already out; a failed pause must not turn this into an error.
+    await this.botStatesService
+      .pauseAfterManualReply(ownerUserId, instanceName, numberToJid(number), minutes, actingUserId)
+      .catch((error) =>
+        this.logger.error(`Error pausing bot after manual reply: ${(error as Error).message}`),
+      );
+  }
+}
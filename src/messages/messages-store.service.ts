@@ -0,0 +1,347 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { Message } from './message.entity';
+import { MessagesRealtimeService, RealtimeEnvelope } from './messages-realtime.service';
+import { EvolutionApiClient } from '../evolution/evolution-api.client';
+import { EvolutionMessage } from '../evolution/evolution-api.types';
+import { getJidVariations, normalizeJid } from './jid.utils';
+import {
+  extractMessageRecords,
+  extractMessageText,
+  getRecordCanonicalJid,
+} from './evolution-message.utils';
+
+/** Records requested per Evolution findMessages page during a backfill. */
+const BACKFILL_PAGE_SIZE = 200;
+/** Hard stop so a misbehaving upstream can't keep a backfill running forever. */
+const BACKFILL_MAX_PAGES = 5000;
+/** Shape of `messages.id`; anything else in a cursor would make Postgres reject the query. */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface MessagesPage {
+  messages: Record<string, unknown>[];
+  total: number;
+  /** Page count and position at this page size, kept for clients predating cursors. */
+  pages: number;
+  currentPage: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface BackfillStatus {
+  instanceName: string;
+  state: 'running' | 'completed' | 'failed';
+  imported: number;
+  startedAt: Date;
+  finishedAt: Date | null;
+  error: string | null;
+}
+
+/**
+ * Persists every message seen on the relay pipeline (webhook + Evolution
+ * sockets) into the local `messages` table and serves chat history from it.
+ */
+@Injectable()
+export class MessagesStoreService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MessagesStoreService.name);
+  private unsubscribe: (() => void) | null = null;
+  /** Backfill jobs keyed by `${userId}:${instanceName}`; kept for status polling. */
+  private readonly backfillJobs = new Map<string, BackfillStatus>();
+
+  constructor(
+    @InjectRepository(Message)
+    private readonly repo: Repository<Message>,
+    private readonly realtimeService: MessagesRealtimeService,
+    private readonly evolutionApi: EvolutionApiClient,
+  ) {}
+
+  onModuleInit(): void {
+    this.unsubscribe = this.realtimeService.subscribe((envelope) => {
+      void this.handleEnvelope(envelope);
+    });
+  }
+
+  onModuleDestroy(): void {
+    this.unsubscribe?.();
+  }
+
+  // ---- Reads ----
+
+  /**
+   * Returns one page of a chat's history, newest first. `jids` may hold any
+   * mix of raw, legacy and @lid JIDs; they are canonicalised before querying.
+   */
+  async listChatMessages(
+    userId: string,
+    instanceName: string,
+    jids: string[],
+    options: { cursor?: string; limit: number },
+  ): Promise<MessagesPage> {
+    const remoteJids = this.canonicalJids(jids);
+    const qb = this.repo
+      .createQueryBuilder('m')
+      .where('m.user_id = :userId', { userId })
+      .andWhere('m.instance_name = :instanceName', { instanceName })
+      .andWhere('m.remote_jid IN (:...remoteJids)', { remoteJids })
+      .andWhere('m.deleted_at IS NULL');
+
+    const total = await qb.clone().getCount();
+    let newer = 0;
+
+    if (options.cursor) {
+      const { sentAt, id } = this.decodeCursor(options.cursor);
+      qb.andWhere('(m.sent_at < :sentAt OR (m.sent_at = :sentAt AND m.id < :id))', {
+        sentAt,
+        id,
+      });
+      newer = total - (await qb.clone().getCount());
+    }
+
+    const rows = await qb
+      .orderBy('m.sent_at', 'DESC')
+      .addOrderBy('m.id', 'DESC')
+      .take(options.limit + 1)
+      .getMany();
+
+    const hasMore = rows.length > options.limit;
+    const pageRows = hasMore ? rows.slice(0, options.limit) : rows;
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      messages: pageRows.map((row) => row.payload),
+      total,
+      pages: Math.max(1, Math.ceil(total / options.limit)),
+      currentPage: Math.floor(newer / options.limit) + 1,
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+      hasMore,
+    };
+  }
+
+  // ---- Imports ----
+
+  /**
+   * Imports a single chat's history from Evolution, querying every JID
+   * variant. Used when a chat is opened before any of its messages reached
+   * the store. Per-JID failures are logged and skipped.
+   */
+  async importChatHistory(userId: string, instanceName: string, jids: string[]): Promise<number> {
+    const fullInstanceName = `${userId}_${instanceName}`;
+    const variants = new Set<string>();
+    for (const jid of jids) {
+      for (const v of getJidVariations(jid)) variants.add(v);
+    }
+
+    let imported = 0;
+    for (const remoteJid of variants) {
+      try {
+        const records = await this.evolutionApi.findMessages(fullInstanceName, {
+          key: { remoteJid },
+        });
+        imported += await this.storeRecords(userId, instanceName, records);
+      } catch (error) {
+        this.logger.warn(
+          `importChatHistory: ${remoteJid} on ${fullInstanceName} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+    return imported;
+  }
+
+  /**
+   * Starts importing the full message history of an instance in the
+   * background. Returns the running job instead of starting a second one.
+   */
+  startBackfill(userId: string, instanceName: string): BackfillStatus {
+    const jobKey = `${userId}:${instanceName}`;
+    const existing = this.backfillJobs.get(jobKey);
+    if (existing?.state === 'running') return existing;
+
+    const job: BackfillStatus = {
+      instanceName,
+      state: 'running',
+      imported: 0,
+      startedAt: new Date(),
+      finishedAt: null,
+      error: null,
+    };
+    this.backfillJobs.set(jobKey, job);
+    void this.runBackfill(userId, job);
+    return job;
+  }
+
+  getBackfillStatus(userId: string, instanceName: string): BackfillStatus | null {
+    return this.backfillJobs.get(`${userId}:${instanceName}`) ?? null;
+  }
+
+  private async runBackfill(userId: string, job: BackfillStatus): Promise<void> {
+    const fullInstanceName = `${userId}_${job.instanceName}`;
+    try {
+      for (let page = 1; page <= BACKFILL_MAX_PAGES; page++) {
+        const records = await this.evolutionApi.findMessages(
+          fullInstanceName,
+          {},
+          { page, offset: BACKFILL_PAGE_SIZE },
+        );
+        job.imported += await this.storeRecords(userId, job.instanceName, records);
+        if (records.length < BACKFILL_PAGE_SIZE) break;
+      }
+      job.state = 'completed';
+      this.logger.log(`Backfill of ${fullInstanceName} imported ${job.imported} messages`);
+    } catch (error) {
+      job.state = 'failed';
+      job.error = (error as Error).message;
+      this.logger.error(`Backfill of ${fullInstanceName} failed: ${job.error}`);
+    } finally {
+      job.finishedAt = new Date();
+    }
+  }
+
+  // ---- Relay pipeline ----
+
+  private async handleEnvelope(envelope: RealtimeEnvelope): Promise<void> {
+    if (!envelope.ownerUserId) return;
+    try {
+      switch (envelope.event) {
+        case 'MESSAGES_UPSERT':
+        case 'SEND_MESSAGE':
+          await this.storeRecords(
+            envelope.ownerUserId,
+            envelope.instanceName,
+            extractMessageRecords(envelope.payload),
+          );
+          break;
+        case 'MESSAGES_UPDATE':
+          await this.applyStatusUpdates(envelope);
+          break;
+        case 'MESSAGES_DELETE':
+          await this.applyDeletes(envelope);
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to persist ${envelope.event} for ${envelope.fullInstanceName}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Upserts Evolution message records; re-delivered records overwrite the
+   * stored copy. Returns the number of records written.
+   */
+  async storeRecords(
+    userId: string,
+    instanceName: string,
+    records: EvolutionMessage[],
+  ): Promise<number> {
+    const rows = records
+      .map((record) => this.toRow(userId, instanceName, record))
+      .filter((row): row is Partial<Message> => row !== null);
+    if (rows.length === 0) return 0;
+
+    // Rows are written in chunks to stay well below Postgres' parameter limit.
+    for (let i = 0; i < rows.length; i += 500) {
+      await this.repo.upsert(rows.slice(i, i + 500), [
+        'userId',
+        'instanceName',
+        'remoteJid',
+        'keyId',
+      ]);
+    }
+    return rows.length;
+  }
+
+  private async applyStatusUpdates(envelope: RealtimeEnvelope): Promise<void> {
+    for (const record of extractMessageRecords(envelope.payload)) {
+      const keyId = (record.keyId as string) || record.key?.id;
+      const status =
+        (record.status as string) || (record.update as { status?: string } | undefined)?.status;
+      if (!keyId || !status) continue;
+      await this.repo.update(
+        { userId: envelope.ownerUserId, instanceName: envelope.instanceName, keyId },
+        { status: String(status) },
+      );
+    }
+  }
+
+  private async applyDeletes(envelope: RealtimeEnvelope): Promise<void> {
+    const keyIds = extractMessageRecords(envelope.payload)
+      .map((record) => record.key?.id || (record.keyId as string) || (record.id as string))
+      .filter(Boolean);
+    if (keyIds.length === 0) return;
+    await this.repo.update(
+      {
+        userId: envelope.ownerUserId,
+        instanceName: envelope.instanceName,
+        keyId: In(keyIds),
+        deletedAt: IsNull(),
+      },
+      { deletedAt: new Date() },
+    );
+  }
+
+  // ---- Mapping helpers ----
+
+  private toRow(
+    userId: string,
+    instanceName: string,
+    record: EvolutionMessage,
+  ): Partial<Message> | null {
+    const rawJid = record?.key?.remoteJid;
+    const remoteJid = getRecordCanonicalJid(record);
+    const keyId = record?.key?.id;
+    if (!rawJid || !remoteJid || !keyId) return null;
+
+    const row: Partial<Message> = {
+      userId,
+      instanceName,
+      remoteJid,
+      rawRemoteJid: rawJid,
+      keyId,
+      fromMe: !!record.key?.fromMe,
+      pushName: record.pushName || null,
+      messageType: record.messageType || null,
+      text: extractMessageText(record),
+      sentAt: new Date(this.getTimestampSeconds(record) * 1000),
+      payload: record,
+    };
+    if (typeof record.status === 'string') row.status = record.status;
+    return row;
+  }
+
+  private getTimestampSeconds(record: EvolutionMessage): number {
+    const ts = record.messageTimestamp;
+    if (ts && typeof ts === 'object' && ts.low != null) return ts.low;
+    const n = typeof ts === 'number' ? ts : parseInt(String(ts ?? ''), 10);
+    return n > 0 ? n : Math.floor(Date.now() / 1000);
+  }
+
+  private canonicalJids(jids: string[]): string[] {
+    const result = new Set<string>();
+    for (const jid of jids) {
+      for (const v of getJidVariations(jid)) result.add(normalizeJid(v));
+    }
+    return [...result];
+  }
+
+  /** Cursor that makes listChatMessages continue with messages older than `row`. */
+  encodeCursor(row: Pick<Message, 'sentAt' | 'id'>): string {
+    return Buffer.from(`${row.sentAt.toISOString()}|${row.id}`).toString('base64url');
+  }
+
+  /** Inverse of encodeCursor; throws 400 on malformed cursors. */
+  decodeCursor(cursor: string): { sentAt: Date; id: string } {
+    const [iso, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const sentAt = new Date(iso);
+    if (!id || !UUID_PATTERN.test(id) || !Number.isFinite(sentAt.getTime())) {
+      throw new BadRequestException('Invalid cursor.');
+    }
+    return { sentAt, id };
+  }
+}
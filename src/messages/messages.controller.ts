@@ -1,10 +1,79 @@
-import { Controller, Get, Post, Body, Param, Query, Res, Request, ForbiddenException, BadRequestException, HttpCode } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  Request,
+  ForbiddenException,
+  BadRequestException,
+  NotFoundException,
+  HttpCode,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
 import { InstancesService } from '../instances/instances.service';
 import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
 import { MessagesRealtimeService } from './messages-realtime.service';
 import { MessagesWebhookDedupService } from './messages-webhook-dedup.service';
+import { MessagesStoreService } from './messages-store.service';
+import { MessagesSearchService } from './messages-search.service';
+import { MessagesSenderService } from './messages-sender.service';
+import { BotStatesService } from '../bot-states/bot-states.service';
+import { BotMode } from '../bot-states/chat-bot-state.entity';
+import { ContactsService } from '../contacts/contacts.service';
+import { TagsService } from '../tags/tags.service';
+import { ChatAssignmentsService } from '../chat-assignments/chat-assignments.service';
+import { AutoAssignMode } from '../chat-assignments/assignment-settings.entity';
+import { MessagesAssignmentService } from './messages-assignment.service';
+import { ChatStatusesService } from '../chat-statuses/chat-statuses.service';
+import { ConversationStatus } from '../chat-statuses/chat-status.entity';
+import { MessagesChatStatusService } from './messages-chat-status.service';
+import { ChatNotesService, ChatNoteView } from '../chat-notes/chat-notes.service';
 import { Public } from '../auth/public.decorator';
+import { ApiKeyScopes } from '../api-keys/api-key-scopes.decorator';
+import { ApiKeyScope } from '../api-keys/api-key.entity';
+import { WebhookTokenGuard } from './webhook-token.guard';
+import { EvolutionApiClient, EvolutionApiError } from '../evolution/evolution-api.client';
+import {
+  EvolutionSendAudioPayload,
+  EvolutionSendMediaPayload,
+} from '../evolution/evolution-api.types';
+import {
+  getJidVariations,
+  isGroupOrBroadcastJid,
+  isLidJid,
+  isStandardUserJid,
+  normalizeJid,
+} from './jid.utils';
+import {
+  MAX_OUTGOING_MEDIA_BYTES,
+  OUTGOING_MEDIA_RULES,
+  OutgoingMediaType,
+  classifyOutgoingMedia,
+} from './outgoing-media';
+import { CreateChatNoteDto } from '../chat-notes/dto/create-chat-note.dto';
+import { UpdateChatNoteDto } from '../chat-notes/dto/update-chat-note.dto';
+import { AssignChatDto } from './dto/assign-chat.dto';
+import { ChatsQueryDto } from './dto/chats-query.dto';
+import { SearchMessagesQueryDto } from './dto/search-messages-query.dto';
+import { MessagesPageQueryDto } from './dto/messages-page-query.dto';
+import { AutoAssignChatDto } from './dto/auto-assign-chat.dto';
+import { SendAudioDto } from './dto/send-audio.dto';
+import { SendMediaDto } from './dto/send-media.dto';
+import { SendTextInput } from './dto/send-text-input.dto';
+import { SetBotStateDto } from './dto/set-bot-state.dto';
+import { SetChatStatusDto } from './dto/set-chat-status.dto';
 
 /** Event types the relay pipeline handles; matches MessagesRealtimeService.wantedEvents. */
 const RELAY_EVENTS = new Set([
@@ -18,6 +87,12 @@ const RELAY_EVENTS = new Set([
   'SEND_MESSAGE',
 ]);
 
+/** Relay event pushed to the owner's room when an internal note is created, edited or deleted. */
+const CHAT_NOTE_EVENT = 'CHAT_NOTE';
+
+const DEFAULT_MESSAGES_PAGE_SIZE = 50;
+const DEFAULT_SEARCH_PAGE_SIZE = 20;
+
 @Controller('messages')
 export class MessagesController {
   constructor(
@@ -25,6 +100,18 @@ export class MessagesController {
     private readonly subUsersService: SubUsersService,
     private readonly messagesRealtimeService: MessagesRealtimeService,
     private readonly webhookDedupService: MessagesWebhookDedupService,
+    private readonly evolutionApi: EvolutionApiClient,
+    private readonly messagesStoreService: MessagesStoreService,
+    private readonly messagesSearchService: MessagesSearchService,
+    private readonly botStatesService: BotStatesService,
+    private readonly messagesSenderService: MessagesSenderService,
+    private readonly contactsService: ContactsService,
+    private readonly tagsService: TagsService,
+    private readonly chatAssignmentsService: ChatAssignmentsService,
+    private readonly messagesAssignmentService: MessagesAssignmentService,
+    private readonly chatStatusesService: ChatStatusesService,
+    private readonly messagesChatStatusService: MessagesChatStatusService,
+    private readonly chatNotesService: ChatNotesService,
   ) {}
 
   // =========================================================================
@@ -47,152 +134,75 @@ export class MessagesController {
   }
 
   /**
-   * For sub-users, checks permission for a specific instance name
+   * For sub-users, checks that their role on the instance grants
+   * `capability`. Chat endpoints need at least VIEW_CHATS.
    */
-  private async ensureSubUserPermission(req: any, instanceName: string): Promise<void> {
+  private async ensureSubUserPermission(
+    req: any,
+    instanceName: string,
+    capability: SubUserCapability = SubUserCapability.VIEW_CHATS,
+  ): Promise<void> {
     if (!this.isSubUser(req)) return;
     const ownerUserId = req.user.parentUserId;
-    const hasPermission = await this.subUsersService.hasPermissionForInstance(
+    const capabilities = await this.subUsersService.getCapabilitiesForInstance(
       req.user.id,
       instanceName,
       ownerUserId,
     );
-    if (!hasPermission) {
+    if (!capabilities) {
       throw new ForbiddenException('Você não tem permissão para acessar esta instância.');
     }
+    if (!capabilities.includes(capability)) {
+      throw new ForbiddenException('Sua função não permite esta ação nesta instância.');
+    }
   }
 
   // =========================================================================
-  // JID normalization & deduplication helpers
+  // Timeline helpers
   // =========================================================================
 
-  /**
-   * Checks whether a JID is a regular WhatsApp contact (@s.whatsapp.net).
-   * Filters out @lid, @g.us, @broadcast, etc.
-   */
-  private isStandardUserJid(jid: string): boolean {
-    return typeof jid === 'string' && jid.endsWith('@s.whatsapp.net');
-  }
-
-  /**
-   * Checks whether a JID belongs to a WhatsApp group chat (@g.us) or
-   * broadcast list (@broadcast).  These are excluded from all endpoints
-   * so the app only works with individual (1-to-1) chats.
-   */
-  private isGroupOrBroadcastJid(jid: string): boolean {
-    return typeof jid === 'string' && (jid.endsWith('@g.us') || jid === 'status@broadcast');
-  }
-
-  /**
-   * Checks whether a JID uses WhatsApp's newer Linked Identifier format.
-   */
-  private isLidJid(jid: string): boolean {
-    return typeof jid === 'string' && jid.endsWith('@lid');
+  /** Milliseconds since epoch of a stored Evolution message payload. */
+  private getMessageTimestampMs(message: Record<string, any>): number {
+    const ts = message.messageTimestamp;
+    if (ts && typeof ts === 'object' && ts.low != null) return ts.low * 1000;
+    const n = typeof ts === 'number' ? ts : parseInt(String(ts ?? ''), 10);
+    return n > 0 ? n * 1000 : 0;
   }
 
-  /**
-   * Extracts just the phone-number digits from a JID's local part.
-   * For @lid JIDs the format is `phone:deviceId@lid` – we strip the
-   * `:deviceId` suffix.  For all other JIDs we return the part before `@`.
-   */
-  private extractPhoneFromJid(jid: string): { phone: string; domain: string } {
-    const atIdx = jid.indexOf('@');
-    if (atIdx < 0) return { phone: jid, domain: '' };
-    const rawLocal = jid.slice(0, atIdx);
-    const domain = jid.slice(atIdx); // includes '@'
-
-    if (domain === '@lid') {
-      const colonIdx = rawLocal.indexOf(':');
-      const phone = colonIdx >= 0 ? rawLocal.slice(0, colonIdx) : rawLocal;
-      return { phone, domain };
-    }
-    return { phone: rawLocal, domain };
-  }
-
-  /**
-   * Normalises a phone-number string by applying the Brazilian 9th-digit
-   * rule.  Returns a canonical `<number>@s.whatsapp.net` JID regardless
-   * of whether the input was @s.whatsapp.net or @lid.
-   *
-   * Brazilian mobile numbers:
-   *   +55 XX 9XXXX-XXXX  (13 digits, canonical)
-   *   +55 XX XXXX-XXXX   (12 digits, legacy – missing the leading 9)
-   *
-   * Non-Brazilian numbers, group JIDs (@g.us), and broadcast JIDs are
-   * returned as-is.
-   */
-  private normalizeJid(jid: string): string {
-    if (!jid) return jid;
-    const atIdx = jid.indexOf('@');
-    if (atIdx < 0) return jid;
-
-    const rawLocal = jid.slice(0, atIdx);
-    const { phone, domain } = this.extractPhoneFromJid(jid);
-
-    // For @lid JIDs, map to the canonical @s.whatsapp.net form so they
-    // merge with the standard chat entry during deduplication.
-    if (domain === '@lid') {
-      // Only normalise when we're confident the local part contains a
-      // real phone number.  Older WhatsApp versions use the format
-      // `phone:deviceId@lid` (colon-separated) where the part before the
-      // colon is the actual phone number.  Newer versions use opaque
-      // numeric identifiers with NO colon – these can't be reliably
-      // mapped to a phone number and must be left as-is so the second
-      // deduplication pass can match them by name/pushName instead.
-      const hasDeviceId = rawLocal.includes(':');
-      if (hasDeviceId && /^\d{10,15}$/.test(phone)) {
-        const normalized = this.normalizeBrazilianNumber(phone);
-        return `${normalized}@s.whatsapp.net`;
-      }
-      // Opaque LID – can't normalise, return as-is
-      return jid;
+  /** Merges two newest-first lists into one newest-first timeline. */
+  private interleaveNotes(
+    messages: Record<string, unknown>[],
+    notes: ChatNoteView[],
+  ): (Record<string, unknown> | ChatNoteView)[] {
+    const timeline: (Record<string, unknown> | ChatNoteView)[] = [];
+    let n = 0;
+    for (const message of messages) {
+      const messageMs = this.getMessageTimestampMs(message);
+      while (n < notes.length && notes[n].createdAt.getTime() >= messageMs) {
+        timeline.push(notes[n++]);
+      }
+      timeline.push(message);
     }
-
-    // Only touch @s.whatsapp.net JIDs
-    if (domain !== '@s.whatsapp.net') return jid;
-
-    const normalized = this.normalizeBrazilianNumber(phone);
-    return `${normalized}${domain}`;
+    return timeline.concat(notes.slice(n));
   }
 
-  /**
-   * Adds the Brazilian 9th digit to a 12-digit number if applicable.
-   * Returns the number string unchanged for non-Brazilian or already-
-   * canonical numbers.
-   */
-  private normalizeBrazilianNumber(phone: string): string {
-    if (!phone.startsWith('55')) return phone;
-    if (phone.length === 12) {
-      return `55${phone.slice(2, 4)}9${phone.slice(4)}`;
-    }
-    return phone;
+  private relayNoteEvent(
+    ownerUserId: string,
+    instanceName: string,
+    payload: { action: 'created' | 'updated' | 'deleted'; remoteJid: string; note: unknown },
+  ): void {
+    this.messagesRealtimeService.relayEvent({
+      event: CHAT_NOTE_EVENT,
+      fullInstanceName: `${ownerUserId}_${instanceName}`,
+      instanceName,
+      ownerUserId,
+      payload,
+    });
   }
 
-  /**
-   * Returns all plausible JID variants for a given phone JID so we can
-   * query messages stored under any of them.
-   *
-   * For Brazilian numbers this returns both the 12- and 13-digit forms.
-   */
-  private getJidVariations(jid: string): string[] {
-    if (!jid) return [jid];
-    const atIdx = jid.indexOf('@');
-    if (atIdx < 0) return [jid];
-    const number = jid.slice(0, atIdx);
-    const domain = jid.slice(atIdx);
-
-    if (domain !== '@s.whatsapp.net' || !number.startsWith('55')) return [jid];
-
-    const variations: string[] = [jid];
-    if (number.length === 13 && number[4] === '9') {
-      // With 9th digit → also try without
-      variations.push(`55${number.slice(2, 4)}${number.slice(5)}${domain}`);
-    } else if (number.length === 12) {
-      // Without 9th digit → also try with
-      variations.push(`55${number.slice(2, 4)}9${number.slice(4)}${domain}`);
-    }
-    return variations;
-  }
+  // =========================================================================
+  // Chat deduplication helpers
+  // =========================================================================
 
   /**
    * Extracts the chat timestamp (unix seconds) from the Evolution API v2
@@ -248,9 +258,9 @@ export class MessagesController {
       const rawJid: string = chat.remoteJid || chat.id || '';
       if (!rawJid) continue;
 
-      const normalized = this.normalizeJid(rawJid);
+      const normalized = normalizeJid(rawJid);
       const key = `${normalized}|${chat.instanceName}`;
-      const isStandard = this.isStandardUserJid(rawJid);
+      const isStandard = isStandardUserJid(rawJid);
       if (isStandard) hasStandardJid.add(key);
 
       const existing = map.get(key);
@@ -276,7 +286,7 @@ export class MessagesController {
         }
 
         // Prefer the @s.whatsapp.net JID for display
-        if (isStandard && !this.isStandardUserJid(existing.chat.remoteJid)) {
+        if (isStandard && !isStandardUserJid(existing.chat.remoteJid)) {
           existing.chat.remoteJid = rawJid;
         }
       }
@@ -297,9 +307,9 @@ export class MessagesController {
 
     for (const [key, entry] of map.entries()) {
       const rawJid: string = entry.chat.remoteJid || entry.chat.id || '';
-      if (this.isLidJid(rawJid) && !hasStandardJid.has(key)) {
+      if (isLidJid(rawJid) && !hasStandardJid.has(key)) {
         unmatchedLidKeys.push(key);
-      } else if (!this.isLidJid(rawJid)) {
+      } else if (!isLidJid(rawJid)) {
         const inst = entry.chat.instanceName || '';
         if (!standardByInstance.has(inst)) standardByInstance.set(inst, []);
         standardByInstance.get(inst)!.push({ key, entry });
@@ -374,7 +384,7 @@ export class MessagesController {
       const rawJid: string = entry.chat.remoteJid || entry.chat.id || '';
       // If this entry is LID-only and a standard JID exists for the same
       // normalised key, skip it (it was already merged above).
-      if (this.isLidJid(rawJid) && hasStandardJid.has(key)) continue;
+      if (isLidJid(rawJid) && hasStandardJid.has(key)) continue;
       result.push(entry.chat);
     }
     return { chats: result, unmatchedLidsByInstance };
@@ -391,8 +401,6 @@ export class MessagesController {
    * the @lid JID and return the missing self-sent messages.
    */
   private async resolveUnmatchedLids(
-    baseUrl: string,
-    apiKey: string,
     chats: any[],
     unmatchedLidsByInstance: Map<string, string[]>,
     userInstances: any[],
@@ -402,22 +410,7 @@ export class MessagesController {
       if (!inst) continue;
 
       try {
-        const contactsUrl = `${baseUrl}/chat/findContacts/${encodeURIComponent(inst.fullName)}`;
-        const contactsResp = await fetch(contactsUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json', apikey: apiKey },
-          body: JSON.stringify({}),
-        });
-
-        if (!contactsResp.ok) {
-          console.warn(
-            `resolveUnmatchedLids: findContacts failed for ${instanceName}: HTTP ${contactsResp.status}`,
-          );
-          continue;
-        }
-
-        const contacts = await contactsResp.json();
-        if (!Array.isArray(contacts)) continue;
+        const contacts = await this.evolutionApi.findContacts(inst.fullName);
 
         // Build a LID → phone JID mapping from the Baileys Contact objects.
         // Baileys stores:
@@ -430,7 +423,7 @@ export class MessagesController {
           // Prefer phoneNumber, fall back to id if it's a standard JID
           let phone: string | undefined = contact.phoneNumber;
           if (!phone) {
-            const id: string = contact.id || contact.remoteJid || '';
+            const id = contact.id || contact.remoteJid || '';
             if (id.endsWith('@s.whatsapp.net')) phone = id;
           }
           if (lid && phone) {
@@ -451,7 +444,7 @@ export class MessagesController {
 
           // Find the standard chat that matches this phone JID
           // (account for Brazilian 9th-digit variants)
-          const phoneVariations = this.getJidVariations(phoneJid);
+          const phoneVariations = getJidVariations(phoneJid);
           const chat = chats.find(
             (c) =>
               c.instanceName === instanceName &&
@@ -472,6 +465,12 @@ export class MessagesController {
           }
         }
       } catch (error) {
+        if (error instanceof EvolutionApiError) {
+          console.warn(
+            `resolveUnmatchedLids: findContacts failed for ${instanceName}: ${error.message}`,
+          );
+          continue;
+        }
         console.error(
           `resolveUnmatchedLids: error fetching contacts for ${instanceName}:`,
           error,
@@ -488,34 +487,22 @@ export class MessagesController {
    *
    * Returns a unified list of chats tagged with the originating instance name,
    * sorted by most recent message timestamp.
+   *
+   * Query: tags (optional) – comma-separated tag ids; only chats carrying at
+   * least one of them are returned.
+   * Query: assigned (optional) – "me" keeps the chats assigned to the caller,
+   * "unassigned" the chats nobody owns yet.
+   * Query: status (optional) – "open" | "pending" | "resolved". The response's
+   * `statusCounts` are computed before this filter so every tab can show its count.
    */
   @Get('chats')
-  async getChats(@Request() req: any, @Res() res: Response) {
+  @ApiKeyScopes(ApiKeyScope.READ_CHATS)
+  async getChats(@Query() query: ChatsQueryDto, @Request() req: any, @Res() res: Response) {
     try {
       const effectiveUserId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
-
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
-
-      const normalizedBaseUrl = baseUrl.replace(/\/$/, '');
 
       // 1. Fetch all instances from Evolution API v2: GET /instance/fetchInstances
-      const instancesUrl = `${normalizedBaseUrl}/instance/fetchInstances`;
-      const instancesResponse = await fetch(instancesUrl, {
-        method: 'GET',
-        headers: { 'apikey': apiKey },
-      });
-
-      if (!instancesResponse.ok) {
-        return res.status(instancesResponse.status).json({
-          error: 'Failed to fetch instances',
-        });
-      }
-
-      const allInstances = await instancesResponse.json();
+      const allInstances = await this.evolutionApi.fetchInstances();
 
       // 2. Filter instances by effective user ID prefix
       let userInstances = allInstances
@@ -536,10 +523,11 @@ export class MessagesController {
       if (this.isSubUser(req)) {
         const filtered: any[] = [];
         for (const inst of userInstances) {
-          const hasPermission = await this.subUsersService.hasPermissionForInstance(
+          const hasPermission = await this.subUsersService.hasCapabilityForInstance(
             req.user.id,
             inst.displayName,
             effectiveUserId,
+            SubUserCapability.VIEW_CHATS,
           );
           if (hasPermission) {
             filtered.push(inst);
@@ -553,33 +541,14 @@ export class MessagesController {
       //    Disconnected instances will fail gracefully and return empty arrays.
       const chatPromises = userInstances.map(async (inst: any) => {
         try {
-          const chatsUrl = `${normalizedBaseUrl}/chat/findChats/${encodeURIComponent(inst.fullName)}`;
-          const chatsResponse = await fetch(chatsUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'apikey': apiKey,
-            },
-            body: JSON.stringify({}),
-          });
-
-          if (!chatsResponse.ok) {
-            console.warn(`findChats failed for ${inst.displayName}: HTTP ${chatsResponse.status}`);
-            return { chats: [], connected: false, name: inst.displayName };
-          }
-
-          const chats = await chatsResponse.json();
-
-          if (!Array.isArray(chats)) {
-            return { chats: [], connected: true, name: inst.displayName };
-          }
+          const chats = await this.evolutionApi.findChats(inst.fullName);
 
           // Tag each chat with the instance display name and filter out
           // group chats / broadcast lists – only individual chats are kept.
           const taggedChats = chats
             .filter((chat: any) => {
               const jid = chat.remoteJid || chat.id || '';
-              return !this.isGroupOrBroadcastJid(jid);
+              return !isGroupOrBroadcastJid(jid);
             })
             .map((chat: any) => ({
               ...chat,
@@ -588,6 +557,10 @@ export class MessagesController {
 
           return { chats: taggedChats, connected: true, name: inst.displayName };
         } catch (error) {
+          if (error instanceof EvolutionApiError) {
+            console.warn(`findChats failed for ${inst.displayName}: ${error.message}`);
+            return { chats: [], connected: false, name: inst.displayName };
+          }
           console.error(`Error fetching chats for ${inst.displayName}:`, error);
           return { chats: [], connected: false, name: inst.displayName };
         }
@@ -603,17 +576,12 @@ export class MessagesController {
       }));
 
       // 6. Deduplicate chats (merges Brazilian 9th-digit variants, filters @lid dupes)
-      const { chats: allChats, unmatchedLidsByInstance } = this.deduplicateChats(rawChats);
+      const { chats: dedupedChats, unmatchedLidsByInstance } = this.deduplicateChats(rawChats);
+      let allChats = dedupedChats;
 
       // 7. Resolve any remaining @lid JIDs via the contacts API
       if (unmatchedLidsByInstance.size > 0) {
-        await this.resolveUnmatchedLids(
-          normalizedBaseUrl,
-          apiKey,
-          allChats,
-          unmatchedLidsByInstance,
-          userInstances,
-        );
+        await this.resolveUnmatchedLids(allChats, unmatchedLidsByInstance, userInstances);
       }
 
       // 8. Sort by most recent message timestamp (descending)
@@ -623,6 +591,66 @@ export class MessagesController {
         return this.getChatTimestamp(b) - this.getChatTimestamp(a);
       });
 
+      // 9. Attach tags, then keep only chats carrying any of the requested
+      //    tag ids (`?tags=id1,id2`).
+      const tagsByChat = await this.tagsService.getTagsByChat(effectiveUserId);
+      for (const chat of allChats) {
+        const key = `${chat.instanceName}|${normalizeJid(chat.remoteJid || chat.id || '')}`;
+        chat.tags = tagsByChat.get(key) ?? [];
+      }
+      const tagFilter = (query.tags || '').split(',').filter(Boolean);
+      if (tagFilter.length > 0) {
+        allChats = allChats.filter((chat: any) =>
+          chat.tags.some((tag: { id: string }) => tagFilter.includes(tag.id)),
+        );
+      }
+
+      // 10. Attach the assignee and apply the `?assigned=` filter.
+      const assignments = await this.chatAssignmentsService.getAssignmentsForUser(effectiveUserId);
+      for (const chat of allChats) {
+        const key = `${chat.instanceName}|${normalizeJid(chat.remoteJid || chat.id || '')}`;
+        chat.assignment = assignments.get(key) ?? null;
+      }
+      if (query.assigned === 'me') {
+        allChats = allChats.filter((chat: any) => chat.assignment?.assignedUserId === req.user.id);
+      } else if (query.assigned === 'unassigned') {
+        allChats = allChats.filter((chat: any) => !chat.assignment);
+      }
+
+      // 11. Attach the lifecycle status (absent = open), count chats per
+      //     status and apply the `?status=` filter.
+      const chatStatuses = await this.chatStatusesService.getStatusesForUser(effectiveUserId);
+      const statusCounts: Record<ConversationStatus, number> = {
+        [ConversationStatus.OPEN]: 0,
+        [ConversationStatus.PENDING]: 0,
+        [ConversationStatus.RESOLVED]: 0,
+      };
+      for (const chat of allChats) {
+        const key = `${chat.instanceName}|${normalizeJid(chat.remoteJid || chat.id || '')}`;
+        chat.conversationStatus = chatStatuses.get(key) ?? { status: ConversationStatus.OPEN };
+        statusCounts[chat.conversationStatus.status as ConversationStatus]++;
+      }
+      if (query.status) {
+        allChats = allChats.filter((chat: any) => chat.conversationStatus.status === query.status);
+      }
+
+      // 12. Attach the per-chat bot handover state (absent = bot active) and
+      //     the CRM contact, when one exists for the chat's canonical JID.
+      const botStates = await this.botStatesService.getStatesForUser(effectiveUserId);
+      const canonicalJids = allChats.map((chat: any) =>
+        normalizeJid(chat.remoteJid || chat.id || ''),
+      );
+      const contacts = await this.contactsService.getSummariesByJid(effectiveUserId, [
+        ...new Set(canonicalJids),
+      ]);
+      allChats.forEach((chat: any, i: number) => {
+        chat.botState = botStates.get(`${chat.instanceName}|${canonicalJids[i]}`) ?? {
+          mode: BotMode.ACTIVE,
+          botEnabled: true,
+        };
+        chat.contact = contacts.get(canonicalJids[i]) ?? null;
+      });
+
       // Keep Evolution websocket relay connected only to accessible instances.
       this.messagesRealtimeService.setWatchedInstancesForUser(
         effectiveUserId,
@@ -631,154 +659,484 @@ export class MessagesController {
 
       return res.json({
         chats: allChats,
+        statusCounts,
         instances: instanceStatuses,
         totalInstances: userInstances.length,
         connectedInstances: instanceStatuses.filter((i) => i.connected).length,
       });
     } catch (error) {
+      if (error instanceof EvolutionApiError) {
+        return res.status(error.status).json(error.toResponse('Failed to fetch instances'));
+      }
       console.error('Error fetching messages/chats:', error);
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
 
   /**
-   * Fetches message records from Evolution API for a single JID.
-   * Returns the extracted records array (may be empty).
+   * GET /messages/search?q=...&limit=20&offset=0
    *
-   * This method NEVER throws – any error is logged and an empty array
-   * is returned so that `Promise.all` across JID variations always
-   * resolves and partial results from other variations are preserved.
+   * Ranked full-text search over message text and contact names across
+   * every instance the caller can access. Sub-users only see hits from the
+   * instances they have permission for.
    */
-  private async fetchMessagesForJid(
-    baseUrl: string,
-    apiKey: string,
-    prefixedInstanceName: string,
-    remoteJid: string,
-  ): Promise<any[]> {
-    try {
-      const url = `${baseUrl}/chat/findMessages/${encodeURIComponent(prefixedInstanceName)}`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', apikey: apiKey },
-        body: JSON.stringify({
-          where: { key: { remoteJid } },
-        }),
-      });
-
-      if (!response.ok) {
-        console.warn(
-          `fetchMessagesForJid: HTTP ${response.status} for ${remoteJid} on ${prefixedInstanceName}`,
+  @Get('search')
+  @ApiKeyScopes(ApiKeyScope.READ_CHATS)
+  async search(
+    @Query() { q, limit = DEFAULT_SEARCH_PAGE_SIZE, offset = 0 }: SearchMessagesQueryDto,
+    @Request() req: any,
+  ) {
+    const effectiveUserId = this.getEffectiveUserId(req);
+
+    let instanceNames =
+      await this.messagesSearchService.getSearchableInstanceNames(effectiveUserId);
+    if (this.isSubUser(req)) {
+      const permitted: string[] = [];
+      for (const name of instanceNames) {
+        const hasPermission = await this.subUsersService.hasCapabilityForInstance(
+          req.user.id,
+          name,
+          effectiveUserId,
+          SubUserCapability.VIEW_CHATS,
         );
-        return [];
+        if (hasPermission) permitted.push(name);
       }
+      instanceNames = permitted;
+    }
 
-      const data = await response.json();
-      if (data?.messages?.records && Array.isArray(data.messages.records)) {
-        return data.messages.records;
-      }
-      if (Array.isArray(data?.messages)) return data.messages;
-      if (Array.isArray(data)) return data;
-      return [];
-    } catch (error) {
-      console.error(
-        `fetchMessagesForJid: error for ${remoteJid} on ${prefixedInstanceName}:`,
-        error,
-      );
-      return [];
+    const { results, hasMore } = await this.messagesSearchService.search(
+      effectiveUserId,
+      instanceNames,
+      q,
+      { limit, offset },
+    );
+    return { query: q, results, hasMore };
+  }
+
+  /**
+   * POST /messages/:instanceName/backfill
+   *
+   * Starts importing the instance's full message history from Evolution
+   * into the local message store. Runs in the background; poll the GET
+   * variant for progress. Starting while a job is running returns that job.
+   */
+  @Post(':instanceName/backfill')
+  @HttpCode(202)
+  async startBackfill(@Param('instanceName') instanceName: string, @Request() req: any) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.EXPORT_DATA);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.messagesStoreService.startBackfill(effectiveUserId, instanceName);
+  }
+
+  /**
+   * GET /messages/:instanceName/backfill
+   *
+   * Returns the status of the latest backfill job for the instance.
+   * Declared before `:instanceName/:remoteJid` so it is not shadowed.
+   */
+  @Get(':instanceName/backfill')
+  async getBackfillStatus(@Param('instanceName') instanceName: string, @Request() req: any) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.EXPORT_DATA);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const status = this.messagesStoreService.getBackfillStatus(effectiveUserId, instanceName);
+    if (!status) {
+      throw new NotFoundException('Nenhuma importação encontrada para esta instância.');
     }
+    return status;
   }
 
   /**
-   * GET /messages/:instanceName/:remoteJid?allJids=jid1,jid2,...
+   * GET /messages/:instanceName/:remoteJid/bot-state
    *
-   * Fetches messages for a specific chat from the Evolution API v2
-   * endpoint: POST /chat/findMessages/:prefixedInstanceName
+   * Returns whether the AI bot may answer this chat.
+   */
+  @Get(':instanceName/:remoteJid/bot-state')
+  async getBotState(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.botStatesService.getState(
+      effectiveUserId,
+      instanceName,
+      decodeURIComponent(remoteJid),
+    );
+  }
+
+  /**
+   * PUT /messages/:instanceName/:remoteJid/bot-state
    *
-   * To handle:
-   *   - Brazilian 9th-digit variants (same contact under two phone formats)
-   *   - WhatsApp LID JIDs (sent messages stored under @lid instead of
-   *     @s.whatsapp.net)
+   * Body:
+   *   - mode        ("active" | "paused" | "human", required)
+   *   - minutes     (number, optional)  – pause length when mode is "paused"
+   *   - pausedUntil (ISO date, optional) – pause end when mode is "paused"
+   */
+  @Put(':instanceName/:remoteJid/bot-state')
+  async setBotState(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Body() body: SetBotStateDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.botStatesService.setState(
+      effectiveUserId,
+      instanceName,
+      decodeURIComponent(remoteJid),
+      body,
+      req.user.id,
+    );
+  }
+
+  /**
+   * GET /messages/:instanceName/:remoteJid/assignment
    *
-   * this endpoint queries ALL plausible JID variations in parallel and
-   * merges the results, deduplicating by message key id.
+   * Returns the team member assigned to the chat, or null.
+   */
+  @Get(':instanceName/:remoteJid/assignment')
+  async getAssignment(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.chatAssignmentsService.getAssignment(
+      effectiveUserId,
+      instanceName,
+      decodeURIComponent(remoteJid),
+    );
+  }
+
+  /**
+   * PUT /messages/:instanceName/:remoteJid/assignment
+   *
+   * Body:
+   *   - assignedUserId (string, required) – the owner or one of their sub-users
+   */
+  @Put(':instanceName/:remoteJid/assignment')
+  async assignChat(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Body() body: AssignChatDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const jid = decodeURIComponent(remoteJid);
+    const assignment = await this.chatAssignmentsService.assign(
+      effectiveUserId,
+      instanceName,
+      jid,
+      body.assignedUserId,
+      req.user.id,
+    );
+    this.messagesAssignmentService.broadcast(
+      effectiveUserId,
+      instanceName,
+      normalizeJid(jid),
+      assignment,
+    );
+    return assignment;
+  }
+
+  /**
+   * POST /messages/:instanceName/:remoteJid/assignment/auto
+   *
+   * Distributes an unassigned chat right away. Body (optional):
+   *   - mode ("round_robin" | "least_busy") – defaults to the owner's setting,
+   *     or round-robin while automatic distribution is off
    *
-   * The optional `allJids` query parameter lets the frontend pass every
-   * JID variant that was discovered during chat-list deduplication
-   * (including @lid JIDs).
+   * Returns null when nobody eligible is online or the chat is already assigned.
+   */
+  @Post(':instanceName/:remoteJid/assignment/auto')
+  @HttpCode(200)
+  async autoAssignChat(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Body() body: AutoAssignChatDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    let mode = body.mode;
+    if (mode === undefined) {
+      const { autoAssignMode } = await this.chatAssignmentsService.getSettings(effectiveUserId);
+      mode = autoAssignMode === AutoAssignMode.OFF ? AutoAssignMode.ROUND_ROBIN : autoAssignMode;
+    }
+    const jid = normalizeJid(decodeURIComponent(remoteJid));
+    const assignment = await this.chatAssignmentsService.autoAssign(
+      effectiveUserId,
+      instanceName,
+      jid,
+      mode,
+    );
+    if (assignment) {
+      this.messagesAssignmentService.broadcast(effectiveUserId, instanceName, jid, assignment);
+    }
+    return assignment;
+  }
+
+  /**
+   * DELETE /messages/:instanceName/:remoteJid/assignment
+   */
+  @Delete(':instanceName/:remoteJid/assignment')
+  @HttpCode(204)
+  async unassignChat(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const jid = normalizeJid(decodeURIComponent(remoteJid));
+    if (await this.chatAssignmentsService.unassign(effectiveUserId, instanceName, jid)) {
+      this.messagesAssignmentService.broadcast(effectiveUserId, instanceName, jid, null);
+    }
+  }
+
+  /**
+   * GET /messages/:instanceName/:remoteJid/status
+   *
+   * Returns the lifecycle status of the chat (open when never set).
+   */
+  @Get(':instanceName/:remoteJid/status')
+  async getChatStatus(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.chatStatusesService.getStatus(
+      effectiveUserId,
+      instanceName,
+      decodeURIComponent(remoteJid),
+    );
+  }
+
+  /**
+   * PUT /messages/:instanceName/:remoteJid/status
+   *
+   * Body:
+   *   - status ("open" | "pending" | "resolved", required)
+   */
+  @Put(':instanceName/:remoteJid/status')
+  async setChatStatus(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Body() body: SetChatStatusDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const jid = normalizeJid(decodeURIComponent(remoteJid));
+    const status = await this.chatStatusesService.setStatus(
+      effectiveUserId,
+      instanceName,
+      jid,
+      body.status,
+      req.user.id,
+    );
+    this.messagesChatStatusService.broadcast(effectiveUserId, instanceName, jid, status);
+    return status;
+  }
+
+  /**
+   * GET /messages/:instanceName/:remoteJid/notes
+   *
+   * Internal notes of the chat, newest first. Notes are team-only and are
+   * never sent to WhatsApp.
+   */
+  @Get(':instanceName/:remoteJid/notes')
+  async getNotes(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    return this.chatNotesService.list(effectiveUserId, instanceName, [
+      decodeURIComponent(remoteJid),
+    ]);
+  }
+
+  /**
+   * POST /messages/:instanceName/:remoteJid/notes
+   *
+   * Body:
+   *   - text             (string, required)
+   *   - mentionedUserIds (string[], optional) – owner or sub-users to mention
+   */
+  @Post(':instanceName/:remoteJid/notes')
+  async createNote(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Body() body: CreateChatNoteDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const note = await this.chatNotesService.create(
+      effectiveUserId,
+      instanceName,
+      decodeURIComponent(remoteJid),
+      body,
+      req.user.id,
+    );
+    this.relayNoteEvent(effectiveUserId, instanceName, {
+      action: 'created',
+      remoteJid: note.remoteJid,
+      note,
+    });
+    return note;
+  }
+
+  /**
+   * PATCH /messages/:instanceName/:remoteJid/notes/:noteId
+   *
+   * Same body as POST; only the author may edit.
+   */
+  @Patch(':instanceName/:remoteJid/notes/:noteId')
+  async updateNote(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Param('noteId') noteId: string,
+    @Body() body: UpdateChatNoteDto,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const note = await this.chatNotesService.update(
+      effectiveUserId,
+      instanceName,
+      remoteJid,
+      noteId,
+      body,
+      req.user.id,
+    );
+    this.relayNoteEvent(effectiveUserId, instanceName, {
+      action: 'updated',
+      remoteJid: note.remoteJid,
+      note,
+    });
+    return note;
+  }
+
+  /**
+   * DELETE /messages/:instanceName/:remoteJid/notes/:noteId
+   *
+   * Allowed for the author and the account owner.
+   */
+  @Delete(':instanceName/:remoteJid/notes/:noteId')
+  @HttpCode(204)
+  async deleteNote(
+    @Param('instanceName') instanceName: string,
+    @Param('remoteJid') remoteJid: string,
+    @Param('noteId') noteId: string,
+    @Request() req: any,
+  ) {
+    await this.ensureSubUserPermission(req, instanceName);
+    const effectiveUserId = this.getEffectiveUserId(req);
+    const note = await this.chatNotesService.delete(
+      effectiveUserId,
+      instanceName,
+      remoteJid,
+      noteId,
+      req.user.id,
+    );
+    this.relayNoteEvent(effectiveUserId, instanceName, {
+      action: 'deleted',
+      remoteJid: note.remoteJid,
+      note: { id: noteId },
+    });
+  }
+
+  /**
+   * GET /messages/:instanceName/:remoteJid?allJids=jid1,jid2,...&cursor=...&limit=50
+   *
+   * Reads a chat's history from the local message store, newest first.
+   * Pass the returned `nextCursor` back as `cursor` to load older messages.
+   * `pages` and `currentPage` are still returned for older clients.
+   *
+   * Messages are stored under canonical JIDs, so Brazilian 9th-digit
+   * variants are merged automatically. The optional `allJids` query
+   * parameter lets the frontend pass every JID variant that was discovered
+   * during chat-list deduplication (including @lid JIDs).
+   *
+   * When the store holds nothing for the chat yet (e.g. it predates the
+   * store and no backfill ran), its history is imported from Evolution
+   * on the spot before answering.
+   *
+   * With `includeNotes=true`, the team's internal notes written in the time
+   * span of the page are interleaved with the messages (`kind: "note"`).
    */
   @Get(':instanceName/:remoteJid')
+  @ApiKeyScopes(ApiKeyScope.READ_CHATS)
   async getMessages(
     @Param('instanceName') instanceName: string,
     @Param('remoteJid') remoteJid: string,
-    @Query('allJids') allJidsParam: string,
+    @Query() query: MessagesPageQueryDto,
     @Request() req: any,
     @Res() res: Response,
   ) {
     try {
       await this.ensureSubUserPermission(req, instanceName);
       const effectiveUserId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
 
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
+      // Collect every JID belonging to this chat ---------------------------
+      const jids = new Set<string>([decodeURIComponent(remoteJid)]);
+      if (query.allJids) {
+        for (const raw of query.allJids.split(',')) {
+          const decoded = decodeURIComponent(raw.trim());
+          if (decoded) jids.add(decoded);
+        }
       }
 
-      const normalizedBaseUrl = baseUrl.replace(/\/$/, '');
-      const prefixedInstanceName = this.instancesService.getPrefixedInstanceName(
+      const { cursor, limit = DEFAULT_MESSAGES_PAGE_SIZE } = query;
+
+      let page = await this.messagesStoreService.listChatMessages(
         effectiveUserId,
         instanceName,
+        [...jids],
+        { cursor, limit },
       );
 
-      // Collect every JID we need to query --------------------------------
-      const jidsToQuery = new Set<string>();
-      const decodedJid = decodeURIComponent(remoteJid);
-
-      // Primary JID + its Brazilian 9th-digit variants
-      for (const v of this.getJidVariations(decodedJid)) {
-        jidsToQuery.add(v);
-      }
-
-      // Additional JIDs from the allJids query param (e.g. @lid JIDs that
-      // were merged during chat-list deduplication)
-      if (allJidsParam) {
-        for (const raw of allJidsParam.split(',')) {
-          const decoded = decodeURIComponent(raw.trim());
-          if (!decoded) continue;
-          jidsToQuery.add(decoded);
-          // Also add Brazilian variants for each additional JID
-          for (const v of this.getJidVariations(decoded)) {
-            jidsToQuery.add(v);
-          }
+      if (!cursor && page.total === 0) {
+        const imported = await this.messagesStoreService.importChatHistory(
+          effectiveUserId,
+          instanceName,
+          [...jids],
+        );
+        if (imported > 0) {
+          page = await this.messagesStoreService.listChatMessages(
+            effectiveUserId,
+            instanceName,
+            [...jids],
+            { limit },
+          );
         }
       }
 
-      // Query all JIDs in parallel ----------------------------------------
-      const allRecordArrays = await Promise.all(
-        [...jidsToQuery].map((jid) =>
-          this.fetchMessagesForJid(normalizedBaseUrl, apiKey, prefixedInstanceName, jid),
-        ),
-      );
-
-      // Merge and deduplicate by message key id ---------------------------
-      const seenIds = new Set<string>();
-      const mergedRecords: any[] = [];
-      for (const records of allRecordArrays) {
-        for (const record of records) {
-          const keyId = record.key?.id || record.id;
-          if (keyId && seenIds.has(keyId)) continue;
-          if (keyId) seenIds.add(keyId);
-          mergedRecords.push(record);
-        }
+      if (query.includeNotes === 'true' || query.includeNotes === '1') {
+        // The page spans [oldest message, cursor); the last page reaches back
+        // to the beginning of the chat.
+        const { nextCursor } = page;
+        const notes = await this.chatNotesService.list(effectiveUserId, instanceName, [...jids], {
+          from: nextCursor ? this.messagesStoreService.decodeCursor(nextCursor).sentAt : null,
+          before: cursor ? this.messagesStoreService.decodeCursor(cursor).sentAt : null,
+        });
+        return res.json({ ...page, messages: this.interleaveNotes(page.messages, notes) });
       }
 
-      return res.json({
-        messages: mergedRecords,
-        total: mergedRecords.length,
-        pages: 1,
-        currentPage: 1,
-      });
+      return res.json(page);
     } catch (error) {
+      if (error instanceof BadRequestException) {
+        return res.status(400).json({ error: error.message });
+      }
       if (error instanceof ForbiddenException) {
         return res.status(403).json({ error: error.message });
       }
@@ -799,88 +1157,212 @@ export class MessagesController {
    *   - delay   (number, optional) – presence time in ms before sending
    *   - linkPreview (boolean, optional) – show link preview
    *   - quoted  (object, optional) – reply to a message
+   *   - pauseBot (boolean, optional) – hand the chat over to humans by pausing the bot
+   *   - pauseBotMinutes (number, optional) – pause length, defaults to 60 minutes
    */
   @Post(':instanceName/send-text')
+  @ApiKeyScopes(ApiKeyScope.SEND_MESSAGES)
   async sendText(
     @Param('instanceName') instanceName: string,
-    @Body() body: {
-      number: string;
-      text: string;
-      delay?: number;
-      linkPreview?: boolean;
-      quoted?: {
-        key: { id: string };
-        message: { conversation: string };
-      };
-    },
+    @Body() body: SendTextInput,
     @Request() req: any,
     @Res() res: Response,
   ) {
     try {
-      await this.ensureSubUserPermission(req, instanceName);
+      await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
       const effectiveUserId = this.getEffectiveUserId(req);
-      const baseUrl = process.env.WPP_API_BASE_URL;
-      const apiKey = process.env.WPP_API_KEY;
 
-      if (!baseUrl || !apiKey) {
-        return res.status(500).json({ error: 'Server misconfiguration' });
-      }
+      const data = await this.messagesSenderService.sendText(
+        effectiveUserId,
+        instanceName,
+        body,
+        req.user.id,
+      );
 
-      // Validate required fields
-      if (!body.number || !body.text) {
-        throw new BadRequestException('Fields "number" and "text" are required.');
+      return res.status(201).json(data);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof ForbiddenException) {
+        return res.status(403).json({ error: error.message });
+      }
+      if (error instanceof EvolutionApiError) {
+        return res
+          .status(error.status)
+          .json(error.toResponse('Failed to send message via Evolution API'));
       }
+      console.error('Error sending text message:', error);
+      return res.status(500).json({ error: 'Unexpected server error' });
+    }
+  }
 
-      const normalizedBaseUrl = baseUrl.replace(/\/$/, '');
-      const prefixedInstanceName = this.instancesService.getPrefixedInstanceName(
-        effectiveUserId,
-        instanceName,
+  /** Multipart form fields arrive as strings. */
+  private getPauseBotOptions(body: {
+    pauseBot?: string;
+    pauseBotMinutes?: string;
+  }): Pick<SendTextInput, 'pauseBot' | 'pauseBotMinutes'> {
+    return {
+      pauseBot: body.pauseBot === 'true' || body.pauseBot === '1',
+      pauseBotMinutes: body.pauseBotMinutes ? Number(body.pauseBotMinutes) : undefined,
+    };
+  }
+
+  /**
+   * Validates an uploaded file against the outgoing media rules and returns
+   * its media kind. Throws 400 for missing or unsupported files and 413 when
+   * the file exceeds the limit for its kind.
+   */
+  private validateMediaUpload(
+    file: Express.Multer.File | undefined,
+    allowed: OutgoingMediaType[],
+  ): OutgoingMediaType {
+    if (!file || !file.buffer?.length) {
+      throw new BadRequestException('Field "file" is required.');
+    }
+    const mediaType = classifyOutgoingMedia(file.mimetype);
+    if (!mediaType || !allowed.includes(mediaType)) {
+      throw new BadRequestException(`Unsupported file type "${file.mimetype}".`);
+    }
+    const { maxBytes } = OUTGOING_MEDIA_RULES[mediaType];
+    if (file.size > maxBytes) {
+      throw new PayloadTooLargeException(
+        `File exceeds the ${Math.floor(maxBytes / (1024 * 1024))} MB limit for ${mediaType}.`,
       );
+    }
+    return mediaType;
+  }
 
-      // Build the payload, only including optional fields when provided
-      const payload: Record<string, any> = {
+  /**
+   * POST /messages/:instanceName/send-media (multipart/form-data)
+   *
+   * Sends an image, video or document via Evolution API v2
+   * endpoint: POST /message/sendMedia/:prefixedInstanceName
+   *
+   * Form fields:
+   *   - file     (file, required)   – the attachment; kind is derived from its MIME type
+   *   - number   (string, required) – recipient with country code
+   *   - caption  (string, optional) – text shown under the media
+   *   - fileName (string, optional) – overrides the uploaded file name
+   *   - delay    (number, optional) – presence time in ms before sending
+   *   - pauseBot (boolean, optional) – hand the chat over to humans by pausing the bot
+   *   - pauseBotMinutes (number, optional) – pause length, defaults to 60 minutes
+   */
+  @Post(':instanceName/send-media')
+  @ApiKeyScopes(ApiKeyScope.SEND_MESSAGES)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_OUTGOING_MEDIA_BYTES } }))
+  async sendMedia(
+    @Param('instanceName') instanceName: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: SendMediaDto,
+    @Request() req: any,
+    @Res() res: Response,
+  ) {
+    try {
+      await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+      const effectiveUserId = this.getEffectiveUserId(req);
+
+      const mediaType = this.validateMediaUpload(file, ['image', 'video', 'document']);
+
+      const payload: EvolutionSendMediaPayload = {
         number: body.number,
-        text: body.text,
+        mediatype: mediaType as EvolutionSendMediaPayload['mediatype'],
+        mimetype: file.mimetype,
+        media: file.buffer.toString('base64'),
+        fileName: body.fileName || file.originalname,
       };
-      if (body.delay != null) payload.delay = body.delay;
-      if (body.linkPreview != null) payload.linkPreview = body.linkPreview;
-      if (body.quoted) payload.quoted = body.quoted;
-
-      const url = `${normalizedBaseUrl}/message/sendText/${encodeURIComponent(prefixedInstanceName)}`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'apikey': apiKey,
-        },
-        body: JSON.stringify(payload),
-      });
+      if (body.caption) payload.caption = body.caption;
+      if (body.delay) payload.delay = Number(body.delay);
 
-      const data = await response.json();
+      const data = await this.messagesSenderService.sendMedia(
+        effectiveUserId,
+        instanceName,
+        payload,
+        req.user.id,
+        this.getPauseBotOptions(body),
+      );
 
-      if (!response.ok) {
-        return res.status(response.status).json({
-          error: 'Failed to send message via Evolution API',
-          details: data,
-        });
+      return res.status(201).json(data);
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof PayloadTooLargeException) {
+        return res.status(413).json({ error: error.message });
+      }
+      if (error instanceof ForbiddenException) {
+        return res.status(403).json({ error: error.message });
       }
+      if (error instanceof EvolutionApiError) {
+        return res
+          .status(error.status)
+          .json(error.toResponse('Failed to send media via Evolution API'));
+      }
+      console.error('Error sending media message:', error);
+      return res.status(500).json({ error: 'Unexpected server error' });
+    }
+  }
 
-      this.messagesRealtimeService.emitOptimisticMessage({
-        ownerUserId: effectiveUserId,
+  /**
+   * POST /messages/:instanceName/send-audio (multipart/form-data)
+   *
+   * Sends a voice note via Evolution API v2
+   * endpoint: POST /message/sendWhatsAppAudio/:prefixedInstanceName
+   *
+   * Form fields:
+   *   - file   (file, required)   – the recording (ogg, mp3, m4a, webm, ...)
+   *   - number (string, required) – recipient with country code
+   *   - delay  (number, optional) – recording presence time in ms before sending
+   *   - pauseBot (boolean, optional) – hand the chat over to humans by pausing the bot
+   *   - pauseBotMinutes (number, optional) – pause length, defaults to 60 minutes
+   */
+  @Post(':instanceName/send-audio')
+  @ApiKeyScopes(ApiKeyScope.SEND_MESSAGES)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_OUTGOING_MEDIA_BYTES } }))
+  async sendAudio(
+    @Param('instanceName') instanceName: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: SendAudioDto,
+    @Request() req: any,
+    @Res() res: Response,
+  ) {
+    try {
+      await this.ensureSubUserPermission(req, instanceName, SubUserCapability.SEND_MESSAGES);
+      const effectiveUserId = this.getEffectiveUserId(req);
+
+      this.validateMediaUpload(file, ['audio']);
+
+      const payload: EvolutionSendAudioPayload = {
+        number: body.number,
+        audio: file.buffer.toString('base64'),
+      };
+      if (body.delay) payload.delay = Number(body.delay);
+
+      const data = await this.messagesSenderService.sendAudio(
+        effectiveUserId,
         instanceName,
-        fullInstanceName: prefixedInstanceName,
-        payload: data,
-      });
+        payload,
+        req.user.id,
+        this.getPauseBotOptions(body),
+      );
 
       return res.status(201).json(data);
     } catch (error) {
       if (error instanceof BadRequestException) {
         return res.status(400).json({ error: error.message });
       }
+      if (error instanceof PayloadTooLargeException) {
+        return res.status(413).json({ error: error.message });
+      }
       if (error instanceof ForbiddenException) {
         return res.status(403).json({ error: error.message });
       }
-      console.error('Error sending text message:', error);
+      if (error instanceof EvolutionApiError) {
+        return res
+          .status(error.status)
+          .json(error.toResponse('Failed to send audio via Evolution API'));
+      }
+      console.error('Error sending audio message:', error);
       return res.status(500).json({ error: 'Unexpected server error' });
     }
   }
@@ -891,12 +1373,16 @@ export class MessagesController {
    * Receives Evolution API webhook deliveries and routes them through the
    * same relay pipeline as socket-delivered events.
    *
+   * Deliveries without the shared WPP_WEBHOOK_TOKEN are rejected with 401
+   * before anything is relayed or persisted (see WebhookTokenGuard).
+   *
    * Returns HTTP 200 immediately so Evolution API does not retry on success.
    * Deduplicates by the message key identifier (data.key.id) to discard
    * duplicate deliveries within a 24-hour window.
    * Discards events whose type is not in the subscribed set (RELAY_EVENTS).
    */
   @Public()
+  @UseGuards(WebhookTokenGuard)
   @Post('webhook')
   @HttpCode(200)
   handleWebhook(@Body() body: any): { ok: boolean } {
@@ -12,12 +12,16 @@ import { Logger } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { Server, Socket } from 'socket.io';
 import { UsersService } from '../users/users.service';
+import { isIssuedBeforePasswordChange } from '../auth/password.utils';
+import { SessionsService } from '../auth/sessions.service';
+import { AgentPresenceService } from '../chat-assignments/agent-presence.service';
 import { MessagesRealtimeService, RealtimeEnvelope } from './messages-realtime.service';
 
 type WsClient = Socket & {
   data: {
     userId?: string;
     parentUserId?: string | null;
+    sessionId?: string;
   };
 };
 
@@ -38,10 +42,18 @@ export class MessagesGateway implements OnGatewayInit, OnGatewayConnection, OnGa
     private readonly jwtService: JwtService,
     private readonly usersService: UsersService,
     private readonly realtimeService: MessagesRealtimeService,
+    private readonly presenceService: AgentPresenceService,
+    private readonly sessionsService: SessionsService,
   ) {}
 
   afterInit(): void {
     this.realtimeService.subscribe((envelope) => this.forwardEnvelope(envelope));
+    // A revoked session loses its open sockets too, not only future requests.
+    this.sessionsService.onRevoked((sessionIds) => {
+      for (const sessionId of sessionIds) {
+        this.server.in(this.getRoomForSession(sessionId)).disconnectSockets(true);
+      }
+    });
   }
 
   async handleConnection(@ConnectedSocket() client: WsClient): Promise<void> {
@@ -55,13 +67,21 @@ export class MessagesGateway implements OnGatewayInit, OnGatewayConnection, OnGa
         secret: process.env.JWT_SECRET,
       });
       const user = await this.usersService.findByEmail(payload.email);
-      if (!user) {
+      if (
+        !user ||
+        !payload.sid ||
+        isIssuedBeforePasswordChange(user, payload.iat) ||
+        !(await this.sessionsService.isActive(payload.sid, user.id))
+      ) {
         client.disconnect(true);
         return;
       }
       client.data.userId = user.id;
+      client.data.sessionId = payload.sid;
       client.data.parentUserId = user.parentUserId || null;
+      this.presenceService.connect(user.id);
       client.join(this.getRoomForUser(user.id));
+      client.join(this.getRoomForSession(payload.sid));
       if (user.parentUserId) {
         client.join(this.getRoomForUser(user.parentUserId));
       }
@@ -73,6 +93,7 @@ export class MessagesGateway implements OnGatewayInit, OnGatewayConnection, OnGa
 
   handleDisconnect(@ConnectedSocket() client: WsClient): void {
     client.removeAllListeners();
+    if (client.data?.userId) this.presenceService.disconnect(client.data.userId);
     // Clean up Evolution API sockets if this user has no more connected clients.
     const ownerUserId = client.data?.parentUserId || client.data?.userId;
     if (ownerUserId) {
@@ -119,5 +140,9 @@ export class MessagesGateway implements OnGatewayInit, OnGatewayConnection, OnGa
   private getRoomForUser(userId: string): string {
     return `user:${userId}`;
   }
+
+  private getRoomForSession(sessionId: string): string {
+    return `session:${sessionId}`;
+  }
 }
 
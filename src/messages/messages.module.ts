@@ -1,17 +1,58 @@
 import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { MessagesController } from './messages.controller';
 import { InstancesModule } from '../instances/instances.module';
 import { SubUsersModule } from '../sub-users/sub-users.module';
 import { AuthModule } from '../auth/auth.module';
 import { UsersModule } from '../users/users.module';
+import { EvolutionModule } from '../evolution/evolution.module';
+import { BotStatesModule } from '../bot-states/bot-states.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { TagsModule } from '../tags/tags.module';
+import { ChatAssignmentsModule } from '../chat-assignments/chat-assignments.module';
+import { ChatStatusesModule } from '../chat-statuses/chat-statuses.module';
+import { ChatNotesModule } from '../chat-notes/chat-notes.module';
 import { MessagesGateway } from './messages.gateway';
 import { MessagesRealtimeService } from './messages-realtime.service';
 import { MessagesWebhookDedupService } from './messages-webhook-dedup.service';
+import { MessagesStoreService } from './messages-store.service';
+import { MessagesSearchService } from './messages-search.service';
+import { MessagesSenderService } from './messages-sender.service';
+import { MessagesAssignmentService } from './messages-assignment.service';
+import { MessagesChatStatusService } from './messages-chat-status.service';
+import { Message } from './message.entity';
 
 @Module({
-  imports: [InstancesModule, SubUsersModule, AuthModule, UsersModule],
+  imports: [
+    TypeOrmModule.forFeature([Message]),
+    InstancesModule,
+    SubUsersModule,
+    AuthModule,
+    UsersModule,
+    EvolutionModule,
+    BotStatesModule,
+    ContactsModule,
+    TagsModule,
+    ChatAssignmentsModule,
+    ChatStatusesModule,
+    ChatNotesModule,
+  ],
   controllers: [MessagesController],
-  providers: [MessagesGateway, MessagesRealtimeService, MessagesWebhookDedupService],
-  exports: [MessagesRealtimeService, MessagesWebhookDedupService],
+  providers: [
+    MessagesGateway,
+    MessagesRealtimeService,
+    MessagesWebhookDedupService,
+    MessagesStoreService,
+    MessagesSearchService,
+    MessagesSenderService,
+    MessagesAssignmentService,
+    MessagesChatStatusService,
+  ],
+  exports: [
+    MessagesRealtimeService,
+    MessagesWebhookDedupService,
+    MessagesStoreService,
+    MessagesSenderService,
+  ],
 })
 export class MessagesModule {}
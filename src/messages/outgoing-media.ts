@@ -0,0 +1,65 @@
+export type OutgoingMediaType = 'image' | 'video' | 'document' | 'audio';
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted MIME types and size limits per outgoing media kind. Limits follow
+ * WhatsApp's own caps so uploads fail here instead of inside Evolution.
+ */
+export const OUTGOING_MEDIA_RULES: Record<
+  OutgoingMediaType,
+  { mimeTypes: string[]; maxBytes: number }
+> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    maxBytes: 5 * MB,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/3gpp'],
+    maxBytes: 16 * MB,
+  },
+  audio: {
+    mimeTypes: [
+      'audio/ogg',
+      'audio/mpeg',
+      'audio/mp4',
+      'audio/aac',
+      'audio/amr',
+      'audio/webm',
+      'audio/wav',
+    ],
+    maxBytes: 16 * MB,
+  },
+  document: {
+    mimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-powerpoint',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      'application/zip',
+      'text/plain',
+      'text/csv',
+    ],
+    maxBytes: 100 * MB,
+  },
+};
+
+/** Upper bound handed to multer so oversized uploads are cut off while streaming. */
+export const MAX_OUTGOING_MEDIA_BYTES = Math.max(
+  ...Object.values(OUTGOING_MEDIA_RULES).map((rule) => rule.maxBytes),
+);
+
+/**
+ * Maps a MIME type to its outgoing media kind, ignoring parameters such as
+ * `; codecs=opus`. Returns null for types WhatsApp cannot deliver.
+ */
+export function classifyOutgoingMedia(mimetype: string): OutgoingMediaType | null {
+  const base = (mimetype || '').split(';')[0].trim().toLowerCase();
+  for (const [type, rule] of Object.entries(OUTGOING_MEDIA_RULES)) {
+    if (rule.mimeTypes.includes(base)) return type as OutgoingMediaType;
+  }
+  return null;
+}
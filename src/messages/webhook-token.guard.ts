@@ -0,0 +1,35 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+export const WEBHOOK_TOKEN_HEADER = 'x-webhook-token';
+
+/**
+ * Protects the public Evolution webhook: the request must carry
+ * WPP_WEBHOOK_TOKEN in the `X-Webhook-Token` header (set by
+ * POST /instances/:name/webhook) or as the `token` query parameter.
+ * Without the variable every delivery is rejected.
+ */
+@Injectable()
+export class WebhookTokenGuard implements CanActivate {
+  constructor(private readonly config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.config.get<string>('WPP_WEBHOOK_TOKEN');
+    const request = context.switchToHttp().getRequest<Request>();
+    const header = request.headers[WEBHOOK_TOKEN_HEADER];
+    const provided = typeof header === 'string' ? header : request.query.token;
+
+    if (!expected || typeof provided !== 'string' || !this.matches(provided, expected)) {
+      throw new UnauthorizedException('Invalid webhook token');
+    }
+    return true;
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
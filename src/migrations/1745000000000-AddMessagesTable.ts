@@ -0,0 +1,48 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMessagesTable1745000000000 implements MigrationInterface {
+  name = 'AddMessagesTable1745000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "messages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "raw_remote_jid" varchar NOT NULL,
+        "key_id" varchar NOT NULL,
+        "from_me" boolean NOT NULL DEFAULT false,
+        "push_name" varchar NULL,
+        "message_type" varchar NULL,
+        "text" text NULL,
+        "status" varchar NULL,
+        "sent_at" TIMESTAMP NOT NULL,
+        "deleted_at" TIMESTAMP NULL,
+        "payload" jsonb NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_messages" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_messages_chat_key"
+      ON "messages" ("user_id", "instance_name", "remote_jid", "key_id")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_messages_chat_sent_at"
+      ON "messages" ("user_id", "instance_name", "remote_jid", "sent_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "messages" ADD CONSTRAINT "FK_messages_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "messages"`);
+  }
+}
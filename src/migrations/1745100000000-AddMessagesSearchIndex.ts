@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddMessagesSearchIndex1745100000000 implements MigrationInterface {
+  name = 'AddMessagesSearchIndex1745100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Expression must stay identical to SEARCH_DOCUMENT in MessagesSearchService.
+    await queryRunner.query(`
+      CREATE INDEX "IDX_messages_search" ON "messages" USING GIN (
+        to_tsvector('portuguese', coalesce("text", '') || ' ' ||
+          coalesce(CASE WHEN "from_me" THEN NULL ELSE "push_name" END, ''))
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_messages_search"`);
+  }
+}
@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddChatBotStates1745200000000 implements MigrationInterface {
+  name = 'AddChatBotStates1745200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "chat_bot_states" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "mode" varchar NOT NULL DEFAULT 'active',
+        "paused_until" TIMESTAMP NULL,
+        "updated_by_user_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_chat_bot_states" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_chat_bot_state"
+      ON "chat_bot_states" ("user_id", "instance_name", "remote_jid")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "chat_bot_states" ADD CONSTRAINT "FK_chat_bot_states_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "chat_bot_states"`);
+  }
+}
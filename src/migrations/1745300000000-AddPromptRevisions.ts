@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPromptRevisions1745300000000 implements MigrationInterface {
+  name = 'AddPromptRevisions1745300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "prompt_revisions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "instance_id" uuid NOT NULL,
+        "version" int NOT NULL,
+        "prompt" text NOT NULL,
+        "author_user_id" uuid NULL,
+        "note" varchar NULL,
+        "restored_from_revision_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_prompt_revisions" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_prompt_revisions_instance_version"
+      ON "prompt_revisions" ("instance_id", "version")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "prompt_revisions" ADD CONSTRAINT "FK_prompt_revisions_instance_id"
+      FOREIGN KEY ("instance_id") REFERENCES "instances"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "prompt_revisions" ADD CONSTRAINT "FK_prompt_revisions_author_user_id"
+      FOREIGN KEY ("author_user_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "prompt_revisions"`);
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddInstanceVariables1745400000000 implements MigrationInterface {
+  name = 'AddInstanceVariables1745400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "instances" ADD COLUMN IF NOT EXISTS "variables" jsonb NOT NULL DEFAULT '{}'
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "instances" DROP COLUMN IF EXISTS "variables"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddScheduledMessages1745500000000 implements MigrationInterface {
+  name = 'AddScheduledMessages1745500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "scheduled_messages" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "text" text NOT NULL,
+        "scheduled_at" TIMESTAMP NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'pending',
+        "claimed_at" TIMESTAMP NULL,
+        "created_by_user_id" uuid NOT NULL,
+        "sent_at" TIMESTAMP NULL,
+        "message_key_id" varchar NULL,
+        "error" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_scheduled_messages" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_scheduled_messages_due"
+      ON "scheduled_messages" ("status", "scheduled_at")
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_scheduled_messages_chat"
+      ON "scheduled_messages" ("user_id", "instance_name", "remote_jid")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "scheduled_messages" ADD CONSTRAINT "FK_scheduled_messages_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "scheduled_messages"`);
+  }
+}
@@ -0,0 +1,91 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCampaigns1745600000000 implements MigrationInterface {
+  name = 'AddCampaigns1745600000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "campaigns" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "name" varchar NOT NULL,
+        "message_template" text NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'draft',
+        "source" varchar NOT NULL,
+        "category_id" uuid NULL,
+        "rate_per_minute" int NOT NULL DEFAULT 10,
+        "min_delay_seconds" int NOT NULL DEFAULT 3,
+        "max_delay_seconds" int NOT NULL DEFAULT 15,
+        "created_by_user_id" uuid NOT NULL,
+        "started_at" TIMESTAMP NULL,
+        "completed_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_campaigns" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_campaigns_user" ON "campaigns" ("user_id")`);
+    await queryRunner.query(`CREATE INDEX "IDX_campaigns_status" ON "campaigns" ("status")`);
+    await queryRunner.query(`
+      ALTER TABLE "campaigns" ADD CONSTRAINT "FK_campaigns_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "campaign_recipients" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "campaign_id" uuid NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "name" varchar NULL,
+        "variables" jsonb NOT NULL DEFAULT '{}',
+        "status" varchar NOT NULL DEFAULT 'pending',
+        "claimed_at" TIMESTAMP NULL,
+        "sent_at" TIMESTAMP NULL,
+        "message_key_id" varchar NULL,
+        "error" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_campaign_recipients" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_campaign_recipients_jid"
+      ON "campaign_recipients" ("campaign_id", "remote_jid")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_campaign_recipients_status"
+      ON "campaign_recipients" ("campaign_id", "status")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "campaign_recipients" ADD CONSTRAINT "FK_campaign_recipients_campaign_id"
+      FOREIGN KEY ("campaign_id") REFERENCES "campaigns"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "contact_opt_outs" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "instance_name" varchar NULL,
+        "message_text" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_contact_opt_outs" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_contact_opt_outs_jid"
+      ON "contact_opt_outs" ("user_id", "remote_jid")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "contact_opt_outs" ADD CONSTRAINT "FK_contact_opt_outs_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "contact_opt_outs"`);
+    await queryRunner.query(`DROP TABLE "campaign_recipients"`);
+    await queryRunner.query(`DROP TABLE "campaigns"`);
+  }
+}
@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddContacts1745700000000 implements MigrationInterface {
+  name = 'AddContacts1745700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "contacts" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "name" varchar NULL,
+        "email" varchar NULL,
+        "custom_fields" jsonb NOT NULL DEFAULT '{}',
+        "notes" text NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_contacts" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_contacts_user_jid" ON "contacts" ("user_id", "remote_jid")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "contacts" ADD CONSTRAINT "FK_contacts_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "contact_events" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "contact_id" uuid NOT NULL,
+        "type" varchar NOT NULL,
+        "text" text NULL,
+        "changes" jsonb NULL,
+        "author_user_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_contact_events" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_contact_events_contact" ON "contact_events" ("contact_id", "created_at")
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "contact_events" ADD CONSTRAINT "FK_contact_events_contact_id"
+      FOREIGN KEY ("contact_id") REFERENCES "contacts"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "contact_events" ADD CONSTRAINT "FK_contact_events_author_user_id"
+      FOREIGN KEY ("author_user_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "contact_events"`);
+    await queryRunner.query(`DROP TABLE "contacts"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTags1745800000000 implements MigrationInterface {
+  name = 'AddTags1745800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "tags" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "name" varchar NOT NULL,
+        "color" varchar NULL,
+        "user_id" uuid NOT NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_tags" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_tags_user_name" ON "tags" ("user_id", "name")`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "tags" ADD CONSTRAINT "FK_tags_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "chat_tags" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "tag_id" uuid NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "user_id" uuid NOT NULL,
+        "created_by_user_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_chat_tags" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_chat_tag" UNIQUE ("tag_id", "instance_name", "remote_jid")
+      )
+    `);
+    await queryRunner.query(`CREATE INDEX "IDX_chat_tags_user" ON "chat_tags" ("user_id")`);
+    await queryRunner.query(`
+      ALTER TABLE "chat_tags" ADD CONSTRAINT "FK_chat_tags_tag_id"
+      FOREIGN KEY ("tag_id") REFERENCES "tags"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "chat_tags" ADD CONSTRAINT "FK_chat_tags_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "chat_tags"`);
+    await queryRunner.query(`DROP TABLE "tags"`);
+  }
+}
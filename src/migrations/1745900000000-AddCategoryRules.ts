@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddCategoryRules1745900000000 implements MigrationInterface {
+  name = 'AddCategoryRules1745900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "category_rules" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" varchar NOT NULL,
+        "category_id" uuid NOT NULL,
+        "priority" integer NOT NULL DEFAULT 0,
+        "enabled" boolean NOT NULL DEFAULT true,
+        "keywords" jsonb NOT NULL DEFAULT '[]',
+        "instance_names" jsonb NOT NULL DEFAULT '[]',
+        "new_contact_only" boolean NOT NULL DEFAULT false,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_category_rules" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_category_rules_user_priority" ON "category_rules" ("user_id", "priority")`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "category_rules" ADD CONSTRAINT "FK_category_rules_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "category_rules" ADD CONSTRAINT "FK_category_rules_category_id"
+      FOREIGN KEY ("category_id") REFERENCES "categories"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "category_rules"`);
+  }
+}
@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddChatAssignments1746000000000 implements MigrationInterface {
+  name = 'AddChatAssignments1746000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "chat_assignments" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "assigned_user_id" uuid NOT NULL,
+        "method" varchar NOT NULL DEFAULT 'manual',
+        "assigned_by_user_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_chat_assignments" PRIMARY KEY ("id")
+      )
+    `);
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "UQ_chat_assignment" ON "chat_assignments" ("user_id", "instance_name", "remote_jid")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_chat_assignments_assignee" ON "chat_assignments" ("assigned_user_id")`,
+    );
+    await queryRunner.query(`
+      ALTER TABLE "chat_assignments" ADD CONSTRAINT "FK_chat_assignments_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "chat_assignments" ADD CONSTRAINT "FK_chat_assignments_assigned_user_id"
+      FOREIGN KEY ("assigned_user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE "assignment_settings" (
+        "user_id" uuid NOT NULL,
+        "auto_assign_mode" varchar NOT NULL DEFAULT 'off',
+        "last_assigned_user_id" uuid NULL,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_assignment_settings" PRIMARY KEY ("user_id")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "assignment_settings" ADD CONSTRAINT "FK_assignment_settings_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "assignment_settings"`);
+    await queryRunner.query(`DROP TABLE "chat_assignments"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddChatStatuses1746100000000 implements MigrationInterface {
+  name = 'AddChatStatuses1746100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "chat_statuses" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "status" varchar NOT NULL DEFAULT 'open',
+        "updated_by_user_id" uuid NULL,
+        "resolved_at" TIMESTAMP NULL,
+        "resolved_by_user_id" uuid NULL,
+        "reopened_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_chat_statuses" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE UNIQUE INDEX "UQ_chat_status"
+      ON "chat_statuses" ("user_id", "instance_name", "remote_jid")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "chat_statuses" ADD CONSTRAINT "FK_chat_statuses_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "chat_statuses"`);
+  }
+}
@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddChatNotes1746200000000 implements MigrationInterface {
+  name = 'AddChatNotes1746200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "chat_notes" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "instance_name" varchar NOT NULL,
+        "remote_jid" varchar NOT NULL,
+        "text" text NOT NULL,
+        "mentioned_user_ids" jsonb NOT NULL DEFAULT '[]',
+        "author_user_id" uuid NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_chat_notes" PRIMARY KEY ("id")
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE INDEX "IDX_chat_notes_chat"
+      ON "chat_notes" ("user_id", "instance_name", "remote_jid", "created_at")
+    `);
+
+    await queryRunner.query(`
+      ALTER TABLE "chat_notes" ADD CONSTRAINT "FK_chat_notes_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "chat_notes" ADD CONSTRAINT "FK_chat_notes_author_user_id"
+      FOREIGN KEY ("author_user_id") REFERENCES "users"("id") ON DELETE SET NULL
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "chat_notes"`);
+  }
+}
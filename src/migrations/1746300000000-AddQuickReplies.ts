@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddQuickReplies1746300000000 implements MigrationInterface {
+  name = 'AddQuickReplies1746300000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "quick_replies" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "shortcut" varchar NOT NULL,
+        "title" varchar NULL,
+        "content" text NOT NULL,
+        "media_url" varchar NULL,
+        "media_type" varchar NULL,
+        "media_mimetype" varchar NULL,
+        "media_file_name" varchar NULL,
+        "instance_names" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_quick_replies" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_quick_replies_user_shortcut" UNIQUE ("user_id", "shortcut")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "quick_replies" ADD CONSTRAINT "FK_quick_replies_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "quick_replies"`);
+  }
+}
@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubUserRoles1746400000000 implements MigrationInterface {
+  name = 'AddSubUserRoles1746400000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "sub_user_roles" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" varchar NOT NULL,
+        "capabilities" jsonb NOT NULL DEFAULT '[]',
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_sub_user_roles" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_sub_user_roles_user_name" UNIQUE ("user_id", "name")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "sub_user_roles" ADD CONSTRAINT "FK_sub_user_roles_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+
+    // Existing permissions keep full access.
+    await queryRunner.query(`
+      ALTER TABLE "sub_user_permissions"
+        ADD COLUMN "role_id" uuid NULL,
+        ADD COLUMN "capabilities" jsonb NOT NULL
+          DEFAULT '["view_chats","send_messages","edit_prompt","manage_webhook","manage_categories","export_data"]'
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "sub_user_permissions" ADD CONSTRAINT "FK_sub_user_permissions_role_id"
+      FOREIGN KEY ("role_id") REFERENCES "sub_user_roles"("id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_sub_user_permissions_role_id" ON "sub_user_permissions" ("role_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "IDX_sub_user_permissions_role_id"`);
+    await queryRunner.query(`
+      ALTER TABLE "sub_user_permissions"
+        DROP CONSTRAINT "FK_sub_user_permissions_role_id",
+        DROP COLUMN "capabilities",
+        DROP COLUMN "role_id"
+    `);
+    await queryRunner.query(`DROP TABLE "sub_user_roles"`);
+  }
+}
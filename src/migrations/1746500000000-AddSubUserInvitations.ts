@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSubUserInvitations1746500000000 implements MigrationInterface {
+  name = 'AddSubUserInvitations1746500000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "sub_user_invitations" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "parent_user_id" uuid NOT NULL,
+        "email" varchar NOT NULL,
+        "name" varchar NULL,
+        "permissions" jsonb NOT NULL DEFAULT '[]',
+        "token_hash" varchar NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "last_sent_at" TIMESTAMP NOT NULL,
+        "accepted_at" TIMESTAMP NULL,
+        "accepted_user_id" uuid NULL,
+        "revoked_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_sub_user_invitations" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_sub_user_invitations_token_hash" UNIQUE ("token_hash")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "sub_user_invitations" ADD CONSTRAINT "FK_sub_user_invitations_parent_user_id"
+      FOREIGN KEY ("parent_user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_sub_user_invitations_parent_user_id"
+      ON "sub_user_invitations" ("parent_user_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_sub_user_invitations_email" ON "sub_user_invitations" ("email")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "sub_user_invitations"`);
+  }
+}
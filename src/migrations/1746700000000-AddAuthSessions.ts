@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddAuthSessions1746700000000 implements MigrationInterface {
+  name = 'AddAuthSessions1746700000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "auth_sessions" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "refresh_token_hash" varchar NOT NULL,
+        "previous_refresh_token_hash" varchar NULL,
+        "user_agent" varchar NULL,
+        "ip" varchar NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "last_used_at" TIMESTAMP NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "revoked_at" TIMESTAMP NULL,
+        CONSTRAINT "PK_auth_sessions" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_auth_sessions_refresh_token_hash" UNIQUE ("refresh_token_hash")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "auth_sessions" ADD CONSTRAINT "FK_auth_sessions_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_auth_sessions_user_id" ON "auth_sessions" ("user_id")
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_auth_sessions_previous_refresh_token_hash"
+      ON "auth_sessions" ("previous_refresh_token_hash")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "auth_sessions"`);
+  }
+}
@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTwoFactor1746800000000 implements MigrationInterface {
+  name = 'AddTwoFactor1746800000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "app_settings" (
+        "key" varchar NOT NULL,
+        "value" jsonb NOT NULL,
+        "updated_by_user_id" uuid NULL,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_app_settings" PRIMARY KEY ("key")
+      )
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "user_two_factor" (
+        "user_id" uuid NOT NULL,
+        "secret" varchar NULL,
+        "pending_secret" varchar NULL,
+        "enabled_at" TIMESTAMP NULL,
+        "recovery_code_hashes" jsonb NOT NULL DEFAULT '[]',
+        "last_used_step" integer NULL,
+        "updated_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_user_two_factor" PRIMARY KEY ("user_id")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "user_two_factor" ADD CONSTRAINT "FK_user_two_factor_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "user_two_factor"`);
+    await queryRunner.query(`DROP TABLE "app_settings"`);
+  }
+}
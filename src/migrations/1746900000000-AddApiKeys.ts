@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddApiKeys1746900000000 implements MigrationInterface {
+  name = 'AddApiKeys1746900000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "api_keys" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "name" varchar NOT NULL,
+        "prefix" varchar NOT NULL,
+        "key_hash" varchar NOT NULL,
+        "scopes" jsonb NOT NULL DEFAULT '[]',
+        "expires_at" TIMESTAMP NULL,
+        "last_used_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        "revoked_at" TIMESTAMP NULL,
+        CONSTRAINT "PK_api_keys" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_api_keys_key_hash" UNIQUE ("key_hash")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "api_keys" ADD CONSTRAINT "FK_api_keys_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_api_keys_user_id" ON "api_keys" ("user_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "api_keys"`);
+  }
+}
@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddLoginThrottles1747000000000 implements MigrationInterface {
+  name = 'AddLoginThrottles1747000000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE "login_throttles" (
+        "key" varchar NOT NULL,
+        "failures" integer NOT NULL DEFAULT 0,
+        "last_failure_at" TIMESTAMP NOT NULL,
+        "locked_until" TIMESTAMP NULL,
+        CONSTRAINT "PK_login_throttles" PRIMARY KEY ("key")
+      )
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "login_throttles"`);
+  }
+}
@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEmailVerification1747100000000 implements MigrationInterface {
+  name = 'AddEmailVerification1747100000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      ALTER TABLE "users" ADD COLUMN "email_verified_at" TIMESTAMP NULL
+    `);
+    // Accounts created before verification existed keep working as before.
+    await queryRunner.query(`
+      UPDATE "users" SET "email_verified_at" = "created_at"
+    `);
+    await queryRunner.query(`
+      CREATE TABLE "email_verification_tokens" (
+        "id" uuid NOT NULL DEFAULT uuid_generate_v4(),
+        "user_id" uuid NOT NULL,
+        "token_hash" varchar NOT NULL,
+        "expires_at" TIMESTAMP NOT NULL,
+        "used_at" TIMESTAMP NULL,
+        "created_at" TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT "PK_email_verification_tokens" PRIMARY KEY ("id"),
+        CONSTRAINT "UQ_email_verification_tokens_token_hash" UNIQUE ("token_hash")
+      )
+    `);
+    await queryRunner.query(`
+      ALTER TABLE "email_verification_tokens" ADD CONSTRAINT "FK_email_verification_tokens_user_id"
+      FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE
+    `);
+    await queryRunner.query(`
+      CREATE INDEX "IDX_email_verification_tokens_user_id" ON "email_verification_tokens" ("user_id")
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "email_verification_tokens"`);
+    await queryRunner.query(`ALTER TABLE "users" DROP COLUMN "email_verified_at"`);
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class VerifySubUserEmails1747200000000 implements MigrationInterface {
+  name = 'VerifySubUserEmails1747200000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Sub-users created directly by their parent were left unverified.
+    await queryRunner.query(`
+      UPDATE "users" SET "email_verified_at" = "created_at"
+      WHERE "parent_user_id" IS NOT NULL AND "email_verified_at" IS NULL
+    `);
+  }
+
+  public async down(): Promise<void> {
+    // Data fix only; nothing to undo.
+  }
+}
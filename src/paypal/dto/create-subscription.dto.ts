@@ -0,0 +1,9 @@
+import { IsUrl } from 'class-validator';
+
+export class CreateSubscriptionDto {
+  @IsUrl({ require_tld: false })
+  returnUrl: string;
+
+  @IsUrl({ require_tld: false })
+  cancelUrl: string;
+}
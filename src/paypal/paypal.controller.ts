@@ -10,15 +10,13 @@ import {
     HttpStatus,
     Logger,
     BadRequestException,
+    UseGuards,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PaypalService } from './paypal.service';
 import { Public } from '../auth/public.decorator';
-
-interface CreateSubscriptionDto {
-    returnUrl: string;
-    cancelUrl: string;
-}
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
 
 @Controller('paypal')
 export class PaypalController {
@@ -54,16 +52,13 @@ export class PaypalController {
      * Create a new subscription for the authenticated user
      */
     @Post('create-subscription')
+    @UseGuards(EmailVerifiedGuard)
     async createSubscription(
         @Request() req: any,
         @Body() body: CreateSubscriptionDto,
     ) {
         const userId = req.user.id;
 
-        if (!body.returnUrl || !body.cancelUrl) {
-            throw new BadRequestException('returnUrl and cancelUrl are required');
-        }
-
         const result = await this.paypalService.createSubscription(
             userId,
             body.returnUrl,
@@ -0,0 +1,40 @@
+import { IsArray, IsOptional, IsString, IsUrl, MaxLength, ValidateIf } from 'class-validator';
+
+const MAX_CONTENT_LENGTH = 4096;
+
+/**
+ * All optional so PATCH can send a subset; `apply` checks the shortcut
+ * format and the required fields.
+ */
+export class QuickReplyDto {
+  @IsOptional()
+  @IsString()
+  shortcut?: string;
+
+  @IsOptional()
+  @IsString()
+  title?: string | null;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(MAX_CONTENT_LENGTH)
+  content?: string;
+
+  /** Public http(s) URL; null or "" removes the attachment. */
+  @ValidateIf((dto: QuickReplyDto) => dto.mediaUrl != null && dto.mediaUrl !== '')
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  mediaUrl?: string | null;
+
+  @IsOptional()
+  @IsString()
+  mediaMimetype?: string | null;
+
+  @IsOptional()
+  @IsString()
+  mediaFileName?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  instanceNames?: string[];
+}
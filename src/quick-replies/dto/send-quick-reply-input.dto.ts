@@ -0,0 +1,25 @@
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsString, Min } from 'class-validator';
+
+export class SendQuickReplyInput {
+  @IsString()
+  @IsNotEmpty()
+  instanceName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  number: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  delay?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  pauseBot?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  pauseBotMinutes?: number;
+}
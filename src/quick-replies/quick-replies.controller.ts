@@ -0,0 +1,133 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+} from '@nestjs/common';
+import { QuickRepliesService } from './quick-replies.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { ApiKeyScopes } from '../api-keys/api-key-scopes.decorator';
+import { ApiKeyScope } from '../api-keys/api-key.entity';
+import { QuickReplyDto } from './dto/quick-reply.dto';
+import { SendQuickReplyInput } from './dto/send-quick-reply-input.dto';
+
+@Controller('quick-replies')
+export class QuickRepliesController {
+  constructor(
+    private readonly quickRepliesService: QuickRepliesService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /**
+   * The library belongs to the parent user; sub-users can only use it.
+   */
+  private ensureParentUser(req: any): string {
+    if (req.user.parentUserId) {
+      throw new ForbiddenException('Sub-usuários não podem gerenciar respostas rápidas.');
+    }
+    return req.user.id;
+  }
+
+  /**
+   * For sub-users, checks that their role on the instance allows sending
+   */
+  private async ensureCanSend(req: any, instanceName: string): Promise<void> {
+    if (!req.user.parentUserId) return;
+    const canSend = await this.subUsersService.hasCapabilityForInstance(
+      req.user.id,
+      instanceName,
+      req.user.parentUserId,
+      SubUserCapability.SEND_MESSAGES,
+    );
+    if (!canSend) {
+      throw new ForbiddenException('Você não tem permissão para enviar mensagens nesta instância.');
+    }
+  }
+
+  /**
+   * GET /quick-replies?instanceName=
+   *
+   * Lists the library; with `instanceName`, only replies usable on it.
+   */
+  @Get()
+  async findAll(@Query('instanceName') instanceName: string, @Request() req: any) {
+    return this.quickRepliesService.findAll(this.getEffectiveUserId(req), instanceName);
+  }
+
+  /**
+   * GET /quick-replies/search?q=&instanceName=&limit=
+   *
+   * Composer autocomplete. Declared before `:id` so it is not shadowed.
+   */
+  @Get('search')
+  async search(
+    @Query('q') q: string,
+    @Query('instanceName') instanceName: string,
+    @Query('limit') limit: string,
+    @Request() req: any,
+  ) {
+    return this.quickRepliesService.search(this.getEffectiveUserId(req), q, {
+      instanceName,
+      limit: Number(limit),
+    });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string, @Request() req: any) {
+    return this.quickRepliesService.findOne(id, this.getEffectiveUserId(req));
+  }
+
+  /**
+   * POST /quick-replies
+   *
+   * Body: shortcut, content, and optionally title, instanceNames and an
+   * attachment (mediaUrl + mediaMimetype, optional mediaFileName).
+   */
+  @Post()
+  async create(@Body() body: QuickReplyDto, @Request() req: any) {
+    return this.quickRepliesService.create(this.ensureParentUser(req), body);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() body: QuickReplyDto, @Request() req: any) {
+    return this.quickRepliesService.update(id, this.ensureParentUser(req), body);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(@Param('id') id: string, @Request() req: any) {
+    await this.quickRepliesService.delete(id, this.ensureParentUser(req));
+  }
+
+  /**
+   * POST /quick-replies/:id/send
+   *
+   * Body: instanceName, number, and optionally delay, pauseBot and
+   * pauseBotMinutes (same meaning as in send-text).
+   */
+  @Post(':id/send')
+  @ApiKeyScopes(ApiKeyScope.SEND_MESSAGES)
+  async send(@Param('id') id: string, @Body() body: SendQuickReplyInput, @Request() req: any) {
+    await this.ensureCanSend(req, body.instanceName);
+    return this.quickRepliesService.send(this.getEffectiveUserId(req), id, body, {
+      id: req.user.id,
+      name: req.user.name,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { QuickReply } from './quick-reply.entity';
+import { QuickRepliesService } from './quick-replies.service';
+import { QuickRepliesController } from './quick-replies.controller';
+import { InstancesModule } from '../instances/instances.module';
+import { MessagesModule } from '../messages/messages.module';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([QuickReply]),
+    InstancesModule,
+    MessagesModule,
+    SubUsersModule,
+  ],
+  controllers: [QuickRepliesController],
+  providers: [QuickRepliesService],
+})
+export class QuickRepliesModule {}
@@ -0,0 +1,232 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { QuickReply, QuickReplyMediaType } from './quick-reply.entity';
+import { InstancesService } from '../instances/instances.service';
+import { PromptTemplateService } from '../instances/prompt-template.service';
+import { MessagesSenderService } from '../messages/messages-sender.service';
+import { classifyOutgoingMedia } from '../messages/outgoing-media';
+import { EvolutionMessage } from '../evolution/evolution-api.types';
+import { QuickReplyDto } from './dto/quick-reply.dto';
+import { SendQuickReplyInput } from './dto/send-quick-reply-input.dto';
+import { validationException } from '../common/validation.pipe';
+
+/** Letters, digits, `-` and `_`; typed after "/" in the composer. */
+const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+
+@Injectable()
+export class QuickRepliesService {
+  constructor(
+    @InjectRepository(QuickReply)
+    private readonly repo: Repository<QuickReply>,
+    private readonly instancesService: InstancesService,
+    private readonly promptTemplateService: PromptTemplateService,
+    private readonly messagesSenderService: MessagesSenderService,
+  ) {}
+
+  // ---- CRUD ----
+
+  /** Replies of the owner; with `instanceName`, only those usable on it. */
+  async findAll(userId: string, instanceName?: string): Promise<QuickReply[]> {
+    const qb = this.repo.createQueryBuilder('q').where('q.user_id = :userId', { userId });
+    if (instanceName) this.whereUsableOn(qb, instanceName);
+    return qb.orderBy('q.shortcut', 'ASC').getMany();
+  }
+
+  async findOne(id: string, userId: string): Promise<QuickReply> {
+    const reply = await this.repo.findOne({ where: { id, userId } });
+    if (!reply) throw new NotFoundException('Resposta rápida não encontrada');
+    return reply;
+  }
+
+  async create(userId: string, dto: QuickReplyDto): Promise<QuickReply> {
+    const reply = this.repo.create({ userId, instanceNames: [] });
+    await this.apply(reply, dto, true);
+    return this.repo.save(reply);
+  }
+
+  async update(id: string, userId: string, dto: QuickReplyDto): Promise<QuickReply> {
+    const reply = await this.findOne(id, userId);
+    await this.apply(reply, dto, false);
+    return this.repo.save(reply);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    const reply = await this.findOne(id, userId);
+    await this.repo.remove(reply);
+  }
+
+  /**
+   * Autocomplete: shortcut prefix matches first, then title/content matches.
+   * A leading "/" in `q` is ignored.
+   */
+  async search(
+    userId: string,
+    q: string,
+    options: { instanceName?: string; limit?: number },
+  ): Promise<QuickReply[]> {
+    const term = (q || '').trim().replace(/^\//, '').toLowerCase();
+    const limit = Math.min(
+      Math.max(Number(options.limit) || DEFAULT_SEARCH_LIMIT, 1),
+      MAX_SEARCH_LIMIT,
+    );
+    const escaped = term.replace(/[%_\\]/g, '\\$&');
+    const qb = this.repo.createQueryBuilder('q').where('q.user_id = :userId', { userId });
+    if (options.instanceName) this.whereUsableOn(qb, options.instanceName);
+    if (term) {
+      qb.andWhere(
+        '(q.shortcut LIKE :prefix OR q.title ILIKE :anywhere OR q.content ILIKE :anywhere)',
+        { prefix: `${escaped}%`, anywhere: `%${escaped}%` },
+      ).orderBy('CASE WHEN q.shortcut LIKE :prefix THEN 0 ELSE 1 END', 'ASC');
+    }
+    return qb.addOrderBy('q.shortcut', 'ASC').limit(limit).getMany();
+  }
+
+  // ---- Sending ----
+
+  /**
+   * Renders the reply for the recipient and sends it: as a text message, or
+   * as media with the rendered text as caption. Besides the prompt built-ins
+   * and the instance variables, `{{agent.name}}` is the sender's name.
+   */
+  async send(
+    userId: string,
+    id: string,
+    input: SendQuickReplyInput,
+    agent: { id: string; name: string },
+  ): Promise<EvolutionMessage> {
+    const reply = await this.findOne(id, userId);
+    if (reply.instanceNames.length > 0 && !reply.instanceNames.includes(input.instanceName)) {
+      throw new ForbiddenException('Esta resposta rápida não está liberada para esta instância.');
+    }
+
+    // Instances created outside the app have no record and no custom variables yet.
+    const instance = await this.instancesService
+      .findByNameOrFail(input.instanceName, userId)
+      .catch(() => ({ userId, name: input.instanceName, variables: {} }));
+    const text = await this.promptTemplateService.renderTemplate(
+      reply.content,
+      instance,
+      input.number,
+      { 'agent.name': agent.name },
+    );
+    const unknownVariables = this.promptTemplateService.extractVariables(text);
+    if (unknownVariables.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: `Variáveis desconhecidas na resposta rápida: ${unknownVariables.join(', ')}`,
+        unknownVariables,
+      });
+    }
+
+    if (reply.mediaUrl) {
+      return this.messagesSenderService.sendMedia(
+        userId,
+        input.instanceName,
+        {
+          number: input.number,
+          mediatype: reply.mediaType as QuickReplyMediaType,
+          mimetype: reply.mediaMimetype as string,
+          media: reply.mediaUrl,
+          fileName: reply.mediaFileName || undefined,
+          caption: text || undefined,
+          delay: input.delay,
+        },
+        agent.id,
+        { pauseBot: input.pauseBot, pauseBotMinutes: input.pauseBotMinutes },
+      );
+    }
+    return this.messagesSenderService.sendText(
+      userId,
+      input.instanceName,
+      {
+        number: input.number,
+        text,
+        delay: input.delay,
+        pauseBot: input.pauseBot,
+        pauseBotMinutes: input.pauseBotMinutes,
+      },
+      agent.id,
+    );
+  }
+
+  // ---- Helpers ----
+
+  /** Replies without instance restriction or listing `instanceName`. */
+  private whereUsableOn(qb: SelectQueryBuilder<QuickReply>, instanceName: string): void {
+    qb.andWhere(
+      '(jsonb_array_length(q.instance_names) = 0 OR q.instance_names @> CAST(:instanceJson AS jsonb))',
+      { instanceJson: JSON.stringify([instanceName]) },
+    );
+  }
+
+  /**
+   * Copies `dto` onto `reply`. Types and lengths are checked by QuickReplyDto;
+   * this adds the rules that need the normalized or the whole reply.
+   */
+  private async apply(reply: QuickReply, dto: QuickReplyDto, isNew: boolean): Promise<void> {
+    if (dto.shortcut !== undefined || isNew) {
+      const shortcut = (typeof dto.shortcut === 'string' ? dto.shortcut : '')
+        .trim()
+        .replace(/^\//, '')
+        .toLowerCase();
+      if (!shortcut) throw validationException('shortcut', 'Field "shortcut" is required.');
+      if (!SHORTCUT_PATTERN.test(shortcut)) {
+        throw validationException(
+          'shortcut',
+          'O atalho deve ter até 40 letras minúsculas, números, "-" ou "_".',
+        );
+      }
+      if (shortcut !== reply.shortcut) {
+        const taken = await this.repo.existsBy({ userId: reply.userId, shortcut });
+        if (taken) throw new ConflictException(`O atalho "/${shortcut}" já existe.`);
+      }
+      reply.shortcut = shortcut;
+    }
+    if (dto.title !== undefined) reply.title = dto.title?.trim() || null;
+    if (dto.content !== undefined || isNew) {
+      if (dto.content === undefined) {
+        throw validationException('content', 'Field "content" is required.');
+      }
+      reply.content = dto.content.trim();
+    }
+    if (dto.mediaUrl !== undefined) this.applyMedia(reply, dto);
+    if (!reply.content && !reply.mediaUrl) {
+      throw validationException('content', 'Informe um texto ou uma mídia para a resposta rápida.');
+    }
+    if (dto.instanceNames !== undefined) {
+      reply.instanceNames = [...new Set(dto.instanceNames.map((n) => n.trim()).filter(Boolean))];
+    }
+  }
+
+  /** `mediaUrl: null` removes the attachment. */
+  private applyMedia(reply: QuickReply, dto: QuickReplyDto): void {
+    if (!dto.mediaUrl) {
+      reply.mediaUrl = null;
+      reply.mediaType = null;
+      reply.mediaMimetype = null;
+      reply.mediaFileName = null;
+      return;
+    }
+    const mediaType = classifyOutgoingMedia(dto.mediaMimetype || '');
+    if (mediaType !== 'image' && mediaType !== 'video' && mediaType !== 'document') {
+      throw validationException(
+        'mediaMimetype',
+        '"mediaMimetype" deve ser de uma imagem, vídeo ou documento aceito pelo WhatsApp.',
+      );
+    }
+    reply.mediaUrl = dto.mediaUrl;
+    reply.mediaType = mediaType;
+    reply.mediaMimetype = dto.mediaMimetype!.split(';')[0].trim().toLowerCase();
+    reply.mediaFileName = dto.mediaFileName?.trim() || null;
+  }
+}
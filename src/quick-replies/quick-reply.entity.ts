@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export type QuickReplyMediaType = 'image' | 'video' | 'document';
+
+/** Canned answer owned by the parent user and shared with their sub-users. */
+@Entity({ name: 'quick_replies' })
+@Unique('UQ_quick_replies_user_shortcut', ['userId', 'shortcut'])
+export class QuickReply {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Lower-case code typed after "/" in the composer, e.g. `horario`. */
+  @Column()
+  shortcut: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  title: string | null;
+
+  /** Message text; may contain placeholders such as `{{contact.name}}`. */
+  @Column({ type: 'text' })
+  content: string;
+
+  /** Public URL of an attachment sent with `content` as its caption. */
+  @Column({ name: 'media_url', type: 'varchar', nullable: true })
+  mediaUrl: string | null;
+
+  @Column({ name: 'media_type', type: 'varchar', nullable: true })
+  mediaType: QuickReplyMediaType | null;
+
+  @Column({ name: 'media_mimetype', type: 'varchar', nullable: true })
+  mediaMimetype: string | null;
+
+  @Column({ name: 'media_file_name', type: 'varchar', nullable: true })
+  mediaFileName: string | null;
+
+  /** Instances (display names) allowed to use the reply; empty means all. */
+  @Column({ name: 'instance_names', type: 'jsonb', default: [] })
+  instanceNames: string[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
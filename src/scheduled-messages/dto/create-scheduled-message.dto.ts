@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsNotEmpty, IsString, MinDate } from 'class-validator';
+
+export class CreateScheduledMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  instanceName: string;
+
+  /** JID or phone number. */
+  @IsString()
+  @IsNotEmpty()
+  remoteJid: string;
+
+  @IsString()
+  @IsNotEmpty()
+  text: string;
+
+  /** ISO 8601, in the future. */
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'scheduledAt must be a date in the future' })
+  scheduledAt: Date;
+}
@@ -0,0 +1,17 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ScheduledMessageStatus } from '../scheduled-message.entity';
+
+export class ScheduledMessagesQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  instanceName: string;
+
+  /** JID or phone number. */
+  @IsOptional()
+  @IsString()
+  remoteJid?: string;
+
+  @IsOptional()
+  @IsEnum(ScheduledMessageStatus)
+  status?: ScheduledMessageStatus;
+}
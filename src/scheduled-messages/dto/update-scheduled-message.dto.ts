@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsNotEmpty, IsOptional, IsString, MinDate } from 'class-validator';
+
+export class UpdateScheduledMessageDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  text?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'scheduledAt must be a date in the future' })
+  scheduledAt?: Date;
+}
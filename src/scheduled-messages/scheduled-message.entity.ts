@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum ScheduledMessageStatus {
+  PENDING = 'pending',
+  /** Claimed by the dispatcher; the Evolution call is in flight. */
+  SENDING = 'sending',
+  SENT = 'sent',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+@Entity({ name: 'scheduled_messages' })
+@Index('IDX_scheduled_messages_due', ['status', 'scheduledAt'])
+@Index('IDX_scheduled_messages_chat', ['userId', 'instanceName', 'remoteJid'])
+export class ScheduledMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Owner (parent) user of the instance. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  /** Display instance name (without the user prefix). */
+  @Column({ name: 'instance_name' })
+  instanceName: string;
+
+  /** Canonical JID (see normalizeJid). */
+  @Column({ name: 'remote_jid' })
+  remoteJid: string;
+
+  @Column({ type: 'text' })
+  text: string;
+
+  @Column({ name: 'scheduled_at', type: 'timestamp' })
+  scheduledAt: Date;
+
+  @Column({ type: 'varchar', default: ScheduledMessageStatus.PENDING })
+  status: ScheduledMessageStatus;
+
+  /** When the dispatcher moved the row to `sending`. */
+  @Column({ name: 'claimed_at', type: 'timestamp', nullable: true })
+  claimedAt: Date | null;
+
+  /** User or sub-user who scheduled the message. */
+  @Column({ name: 'created_by_user_id', type: 'uuid' })
+  createdByUserId: string;
+
+  @Column({ name: 'sent_at', type: 'timestamp', nullable: true })
+  sentAt: Date | null;
+
+  /** WhatsApp message id returned by Evolution once sent. */
+  @Column({ name: 'message_key_id', type: 'varchar', nullable: true })
+  messageKeyId: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Request,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { CreateScheduledMessageDto } from './dto/create-scheduled-message.dto';
+import { UpdateScheduledMessageDto } from './dto/update-scheduled-message.dto';
+import { ScheduledMessagesQueryDto } from './dto/scheduled-messages-query.dto';
+
+@Controller('scheduled-messages')
+export class ScheduledMessagesController {
+  constructor(
+    private readonly scheduledMessagesService: ScheduledMessagesService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /**
+   * For sub-users, checks that their role on the instance grants
+   * `capability`. Anything that ends up sending needs SEND_MESSAGES.
+   */
+  private async ensureSubUserPermission(
+    req: any,
+    instanceName: string,
+    capability: SubUserCapability,
+  ): Promise<void> {
+    if (!req.user.parentUserId) return;
+    const hasPermission = await this.subUsersService.hasCapabilityForInstance(
+      req.user.id,
+      instanceName,
+      req.user.parentUserId,
+      capability,
+    );
+    if (!hasPermission) {
+      throw new ForbiddenException('Você não tem permissão para acessar esta instância.');
+    }
+  }
+
+  /**
+   * GET /scheduled-messages?instanceName=&remoteJid=&status=
+   *
+   * Lists an instance's scheduled messages, soonest first.
+   */
+  @Get()
+  async findAll(@Query() query: ScheduledMessagesQueryDto, @Request() req: any) {
+    await this.ensureSubUserPermission(req, query.instanceName, SubUserCapability.VIEW_CHATS);
+    const userId = this.getEffectiveUserId(req);
+    return this.scheduledMessagesService.list(userId, query.instanceName, {
+      remoteJid: query.remoteJid,
+      status: query.status,
+    });
+  }
+
+  /**
+   * POST /scheduled-messages
+   *
+   * Body: instanceName, remoteJid (JID or phone number), text and
+   * scheduledAt (ISO 8601, in the future).
+   */
+  @Post()
+  async create(@Body() body: CreateScheduledMessageDto, @Request() req: any) {
+    await this.ensureSubUserPermission(req, body.instanceName, SubUserCapability.SEND_MESSAGES);
+    const userId = this.getEffectiveUserId(req);
+    return this.scheduledMessagesService.create(userId, body, req.user.id);
+  }
+
+  @Patch(':id')
+  async update(
+    @Param('id') id: string,
+    @Body() body: UpdateScheduledMessageDto,
+    @Request() req: any,
+  ) {
+    const userId = this.getEffectiveUserId(req);
+    const scheduled = await this.scheduledMessagesService.findOne(id, userId);
+    await this.ensureSubUserPermission(
+      req,
+      scheduled.instanceName,
+      SubUserCapability.SEND_MESSAGES,
+    );
+    return this.scheduledMessagesService.update(id, userId, body);
+  }
+
+  @Post(':id/cancel')
+  async cancel(@Param('id') id: string, @Request() req: any) {
+    const userId = this.getEffectiveUserId(req);
+    const scheduled = await this.scheduledMessagesService.findOne(id, userId);
+    await this.ensureSubUserPermission(
+      req,
+      scheduled.instanceName,
+      SubUserCapability.SEND_MESSAGES,
+    );
+    return this.scheduledMessagesService.cancel(id, userId);
+  }
+}
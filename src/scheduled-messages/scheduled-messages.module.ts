@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ScheduledMessage } from './scheduled-message.entity';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ScheduledMessagesController } from './scheduled-messages.controller';
+import { MessagesModule } from '../messages/messages.module';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ScheduledMessage]), MessagesModule, SubUsersModule],
+  controllers: [ScheduledMessagesController],
+  providers: [ScheduledMessagesService],
+})
+export class ScheduledMessagesModule {}
@@ -0,0 +1,201 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import { ScheduledMessage, ScheduledMessageStatus } from './scheduled-message.entity';
+import { MessagesSenderService } from '../messages/messages-sender.service';
+import { extractPhoneFromJid, numberToJid } from '../messages/jid.utils';
+import { CreateScheduledMessageDto } from './dto/create-scheduled-message.dto';
+import { UpdateScheduledMessageDto } from './dto/update-scheduled-message.dto';
+
+/** Messages dispatched per worker tick; the rest wait for the next one. */
+const DISPATCH_BATCH_SIZE = 20;
+const DEFAULT_POLL_INTERVAL_MS = 15000;
+/**
+ * A row still `sending` this long after being claimed belongs to a process
+ * that died mid-send. Far above any Evolution request timeout.
+ */
+const SENDING_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Stores messages to be sent later and dispatches them from a polling worker.
+ * Everything lives in the `scheduled_messages` table, so pending schedules
+ * are picked up again after a restart.
+ */
+@Injectable()
+export class ScheduledMessagesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduledMessagesService.name);
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private dispatching = false;
+
+  constructor(
+    @InjectRepository(ScheduledMessage)
+    private readonly repo: Repository<ScheduledMessage>,
+    private readonly messagesSenderService: MessagesSenderService,
+    private readonly config: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    const interval =
+      Number(this.config.get('SCHEDULED_MESSAGES_POLL_MS')) || DEFAULT_POLL_INTERVAL_MS;
+    this.pollTimer = setInterval(() => void this.dispatchDue(), interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+  }
+
+  // ---- CRUD ----
+
+  async list(
+    userId: string,
+    instanceName: string,
+    filters: { remoteJid?: string; status?: ScheduledMessageStatus },
+  ): Promise<ScheduledMessage[]> {
+    const where: Record<string, unknown> = { userId, instanceName };
+    if (filters.remoteJid) where.remoteJid = numberToJid(filters.remoteJid);
+    if (filters.status) where.status = filters.status;
+    return this.repo.find({ where, order: { scheduledAt: 'ASC' } });
+  }
+
+  async findOne(id: string, userId: string): Promise<ScheduledMessage> {
+    const scheduled = await this.repo.findOne({ where: { id, userId } });
+    if (!scheduled) throw new NotFoundException('Mensagem agendada não encontrada');
+    return scheduled;
+  }
+
+  async create(
+    userId: string,
+    dto: CreateScheduledMessageDto,
+    createdByUserId: string,
+  ): Promise<ScheduledMessage> {
+    const scheduled = this.repo.create({
+      userId,
+      instanceName: dto.instanceName,
+      remoteJid: numberToJid(dto.remoteJid),
+      text: dto.text,
+      scheduledAt: dto.scheduledAt,
+      status: ScheduledMessageStatus.PENDING,
+      createdByUserId,
+    });
+    return this.repo.save(scheduled);
+  }
+
+  /** Only pending messages can be edited. */
+  async update(
+    id: string,
+    userId: string,
+    dto: UpdateScheduledMessageDto,
+  ): Promise<ScheduledMessage> {
+    const scheduled = await this.findPending(id, userId);
+    if (dto.text !== undefined) scheduled.text = dto.text;
+    if (dto.scheduledAt !== undefined) scheduled.scheduledAt = dto.scheduledAt;
+    return this.repo.save(scheduled);
+  }
+
+  async cancel(id: string, userId: string): Promise<ScheduledMessage> {
+    const scheduled = await this.findPending(id, userId);
+    scheduled.status = ScheduledMessageStatus.CANCELLED;
+    return this.repo.save(scheduled);
+  }
+
+  // ---- Dispatch ----
+
+  /**
+   * Sends every due pending message. Each row is claimed with a conditional
+   * update first, so a message is never sent twice even if it was cancelled
+   * or claimed by another process in the meantime.
+   */
+  async dispatchDue(): Promise<void> {
+    if (this.dispatching) return;
+    this.dispatching = true;
+    try {
+      await this.failStaleSends();
+      const due = await this.repo.find({
+        where: {
+          status: ScheduledMessageStatus.PENDING,
+          scheduledAt: LessThanOrEqual(new Date()),
+        },
+        order: { scheduledAt: 'ASC' },
+        take: DISPATCH_BATCH_SIZE,
+      });
+      for (const scheduled of due) {
+        const claim = await this.repo.update(
+          { id: scheduled.id, status: ScheduledMessageStatus.PENDING },
+          { status: ScheduledMessageStatus.SENDING, claimedAt: new Date() },
+        );
+        if (!claim.affected) continue;
+        await this.send(scheduled);
+      }
+    } catch (error) {
+      this.logger.error(`Scheduled message dispatch failed: ${(error as Error).message}`);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private async send(scheduled: ScheduledMessage): Promise<void> {
+    try {
+      const data = await this.messagesSenderService.sendText(
+        scheduled.userId,
+        scheduled.instanceName,
+        { number: extractPhoneFromJid(scheduled.remoteJid).phone, text: scheduled.text },
+        scheduled.createdByUserId,
+      );
+      await this.repo.update(scheduled.id, {
+        status: ScheduledMessageStatus.SENT,
+        sentAt: new Date(),
+        messageKeyId: data?.key?.id ?? null,
+        error: null,
+      });
+    } catch (error) {
+      const message = (error as Error).message || 'Unknown error';
+      this.logger.warn(`Scheduled message ${scheduled.id} failed: ${message}`);
+      await this.repo.update(scheduled.id, {
+        status: ScheduledMessageStatus.FAILED,
+        error: message,
+      });
+    }
+  }
+
+  /**
+   * Rows left in `sending` by a crashed process may or may not have reached
+   * WhatsApp. Once their lease is over they are marked failed instead of
+   * being retried to avoid double sends; sends still in flight elsewhere are
+   * left alone.
+   */
+  private async failStaleSends(): Promise<void> {
+    const result = await this.repo.update(
+      {
+        status: ScheduledMessageStatus.SENDING,
+        claimedAt: LessThan(new Date(Date.now() - SENDING_LEASE_MS)),
+      },
+      {
+        status: ScheduledMessageStatus.FAILED,
+        error: 'Envio interrompido por uma falha do servidor; verifique a conversa.',
+      },
+    );
+    if (result.affected) {
+      this.logger.warn(`Marked ${result.affected} interrupted scheduled messages as failed`);
+    }
+  }
+
+  // ---- Helpers ----
+
+  private async findPending(id: string, userId: string): Promise<ScheduledMessage> {
+    const scheduled = await this.findOne(id, userId);
+    if (scheduled.status !== ScheduledMessageStatus.PENDING) {
+      throw new BadRequestException(
+        `Apenas mensagens pendentes podem ser alteradas (status atual: ${scheduled.status}).`,
+      );
+    }
+    return scheduled;
+  }
+}
@@ -0,0 +1,17 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+/** Instance-wide switches set by admins, one row per key. */
+@Entity({ name: 'app_settings' })
+export class AppSetting {
+  @PrimaryColumn()
+  key: string;
+
+  @Column({ type: 'jsonb' })
+  value: unknown;
+
+  @Column({ name: 'updated_by_user_id', type: 'uuid', nullable: true })
+  updatedByUserId: string | null;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AppSetting } from './app-setting.entity';
+
+/** Admin-role users must have two-factor authentication enabled. */
+export const REQUIRE_ADMIN_TWO_FACTOR = 'auth.requireAdminTwoFactor';
+
+@Injectable()
+export class AppSettingsService {
+  constructor(
+    @InjectRepository(AppSetting)
+    private readonly repo: Repository<AppSetting>,
+  ) {}
+
+  async get<T>(key: string, defaultValue: T): Promise<T> {
+    const setting = await this.repo.findOne({ where: { key } });
+    return setting ? (setting.value as T) : defaultValue;
+  }
+
+  async set<T>(key: string, value: T, updatedByUserId: string | null): Promise<T> {
+    await this.repo.save(this.repo.create({ key, value, updatedByUserId }));
+    return value;
+  }
+}
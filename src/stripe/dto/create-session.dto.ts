@@ -0,0 +1,9 @@
+import { IsUrl } from 'class-validator';
+
+export class CreateSessionDto {
+  @IsUrl({ require_tld: false })
+  success_url: string;
+
+  @IsUrl({ require_tld: false })
+  cancel_url: string;
+}
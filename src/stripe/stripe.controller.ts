@@ -9,19 +9,14 @@ import {
     Logger,
     BadRequestException,
     Headers,
+    UseGuards,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { StripeService } from './stripe.service';
 import { Public } from '../auth/public.decorator';
-
-interface CreateSessionDto {
-    success_url: string;
-    cancel_url: string;
-}
-
-interface VerifySessionDto {
-    sessionId: string;
-}
+import { EmailVerifiedGuard } from '../auth/email-verified.guard';
+import { CreateSessionDto } from './dto/create-session.dto';
+import { VerifySessionDto } from './dto/verify-session.dto';
 
 @Controller('stripe')
 export class StripeController {
@@ -47,14 +42,11 @@ export class StripeController {
      * R16: Create a Stripe Checkout Session
      */
     @Post('create-session')
+    @UseGuards(EmailVerifiedGuard)
     async createSession(
         @Req() req: any,
         @Body() body: CreateSessionDto,
     ) {
-        if (!body.success_url || !body.cancel_url) {
-            throw new BadRequestException('success_url and cancel_url are required');
-        }
-
         const userId = req.user.id as string;
         const userEmail = req.user.email as string;
 
@@ -0,0 +1,12 @@
+import { IsOptional, IsString, MinLength } from 'class-validator';
+import { MIN_PASSWORD_LENGTH } from '../../auth/password.utils';
+
+export class AcceptInvitationDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  password: string;
+}
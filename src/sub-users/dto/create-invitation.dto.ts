@@ -0,0 +1,18 @@
+import { Type } from 'class-transformer';
+import { IsArray, IsEmail, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { SubUserPermissionInput } from './sub-user-permission-input.dto';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SubUserPermissionInput)
+  permissions?: SubUserPermissionInput[];
+}
@@ -0,0 +1,15 @@
+import { IsEmail, IsNotEmpty, IsString, MinLength } from 'class-validator';
+import { MIN_PASSWORD_LENGTH } from '../../auth/password.utils';
+
+export class CreateSubUserDto {
+  @IsEmail()
+  email: string;
+
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsString()
+  @MinLength(MIN_PASSWORD_LENGTH)
+  password: string;
+}
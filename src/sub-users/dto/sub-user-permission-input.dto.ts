@@ -0,0 +1,20 @@
+import { IsArray, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { SubUserCapability } from '../sub-user-role.entity';
+
+/**
+ * One instance a sub-user may access. Capabilities come from `roleId` when
+ * given, else from `capabilities`, else all of them.
+ */
+export class SubUserPermissionInput {
+  @IsUUID()
+  instanceId: string;
+
+  @IsOptional()
+  @IsUUID()
+  roleId?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(SubUserCapability, { each: true })
+  capabilities?: SubUserCapability[];
+}
@@ -0,0 +1,14 @@
+import { IsArray, IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { SubUserCapability } from '../sub-user-role.entity';
+
+export class SubUserRoleDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsEnum(SubUserCapability, { each: true })
+  capabilities?: SubUserCapability[];
+}
@@ -0,0 +1,17 @@
+import { Type } from 'class-transformer';
+import { IsArray, IsOptional, IsUUID, ValidateIf, ValidateNested } from 'class-validator';
+import { SubUserPermissionInput } from './sub-user-permission-input.dto';
+
+/** Either `permissions` or, in the older format, `instanceIds` (full access to each). */
+export class UpdatePermissionsDto {
+  @ValidateIf((dto: UpdatePermissionsDto) => dto.permissions === undefined)
+  @IsArray()
+  @IsUUID('all', { each: true })
+  instanceIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SubUserPermissionInput)
+  permissions?: SubUserPermissionInput[];
+}
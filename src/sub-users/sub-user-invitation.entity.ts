@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+import { SubUserPermissionInput } from './dto/sub-user-permission-input.dto';
+
+/**
+ * A pending invite to join a parent's team. Only the SHA-256 of the token is
+ * stored; the raw token exists in the emailed link alone.
+ */
+@Entity({ name: 'sub_user_invitations' })
+export class SubUserInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ name: 'parent_user_id', type: 'uuid' })
+  parentUserId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'parent_user_id' })
+  parentUser: User;
+
+  @Index()
+  @Column()
+  email: string;
+
+  /** Suggested name; the invitee may change it when accepting. */
+  @Column({ type: 'varchar', nullable: true })
+  name: string | null;
+
+  /** Applied to the new sub-user on acceptance. */
+  @Column({ type: 'jsonb', default: [] })
+  permissions: Required<SubUserPermissionInput>[];
+
+  @Index({ unique: true })
+  @Column({ name: 'token_hash' })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ name: 'last_sent_at', type: 'timestamp' })
+  lastSentAt: Date;
+
+  @Column({ name: 'accepted_at', type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  @Column({ name: 'accepted_user_id', type: 'uuid', nullable: true })
+  acceptedUserId: string | null;
+
+  @Column({ name: 'revoked_at', type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
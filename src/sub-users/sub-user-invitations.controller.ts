@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Request,
+  UseGuards,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { SubUserInvitationsService } from './sub-user-invitations.service';
+import { PremiumGuard } from '../auth/premium.guard';
+import { Public } from '../auth/public.decorator';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+
+@Controller('sub-users/invitations')
+export class SubUserInvitationsController {
+  constructor(private readonly invitationsService: SubUserInvitationsService) {}
+
+  /**
+   * Ensure the requesting user is a premium parent (not a sub-user)
+   */
+  private ensureParentUser(req: any): string {
+    if (req.user.parentUserId) {
+      throw new ForbiddenException('Sub-usuários não podem gerenciar outros sub-usuários.');
+    }
+    return req.user.id;
+  }
+
+  // ---- Public accept flow ----
+  // Declared before the `:id` routes so `accept` is not taken as an id.
+
+  @Public()
+  @Get('accept/:token')
+  async preview(@Param('token') token: string) {
+    return this.invitationsService.preview(token);
+  }
+
+  /** Body: { password, name? }. Creates the sub-user; they log in normally afterwards. */
+  @Public()
+  @Post('accept/:token')
+  async accept(@Param('token') token: string, @Body() body: AcceptInvitationDto) {
+    return this.invitationsService.accept(token, body);
+  }
+
+  // ---- Parent management ----
+
+  @Get()
+  @UseGuards(PremiumGuard)
+  async list(@Request() req: any) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.invitationsService.list(parentUserId);
+  }
+
+  /**
+   * Body: { email, name?, permissions? } where permissions has the same
+   * shape as PUT /sub-users/:id/permissions and applies on acceptance.
+   */
+  @Post()
+  @UseGuards(PremiumGuard)
+  async create(@Request() req: any, @Body() body: CreateInvitationDto) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.invitationsService.create(parentUserId, body);
+  }
+
+  @Post(':id/resend')
+  @UseGuards(PremiumGuard)
+  @HttpCode(HttpStatus.OK)
+  async resend(@Request() req: any, @Param('id') id: string) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.invitationsService.resend(parentUserId, id);
+  }
+
+  @Delete(':id')
+  @UseGuards(PremiumGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(@Request() req: any, @Param('id') id: string) {
+    const parentUserId = this.ensureParentUser(req);
+    await this.invitationsService.revoke(parentUserId, id);
+  }
+}
@@ -0,0 +1,279 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { SubUserInvitation } from './sub-user-invitation.entity';
+import { SubUsersService } from './sub-users.service';
+import { User } from '../users/user.entity';
+import { MailService } from '../mail/mail.service';
+import { generateToken, hashToken } from '../auth/token.utils';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { SubUserPermissionInput } from './dto/sub-user-permission-input.dto';
+
+const DEFAULT_TTL_HOURS = 72;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+export interface SubUserInvitationView {
+  id: string;
+  email: string;
+  name: string | null;
+  permissions: Required<SubUserPermissionInput>[];
+  expiresAt: Date;
+  expired: boolean;
+  lastSentAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * Invite flow for sub-users: the parent invites an email, the invitee opens
+ * the emailed link and sets their own password. Tokens are single-use and
+ * expire after SUB_USER_INVITATION_TTL_HOURS (72 by default).
+ */
+@Injectable()
+export class SubUserInvitationsService {
+  private readonly logger = new Logger(SubUserInvitationsService.name);
+
+  constructor(
+    @InjectRepository(SubUserInvitation)
+    private readonly invitationRepository: Repository<SubUserInvitation>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly subUsersService: SubUsersService,
+    private readonly mailService: MailService,
+    private readonly config: ConfigService,
+  ) {}
+
+  // ---- Parent side ----
+
+  /** Invitations not yet accepted or revoked, expired ones included. */
+  async list(parentUserId: string): Promise<SubUserInvitationView[]> {
+    const invitations = await this.invitationRepository.find({
+      where: { parentUserId, acceptedAt: IsNull(), revokedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    return invitations.map((invitation) => this.toView(invitation));
+  }
+
+  async create(
+    parentUserId: string,
+    dto: CreateInvitationDto,
+  ): Promise<SubUserInvitationView & { emailSent: boolean }> {
+    const email = dto.email.trim().toLowerCase();
+
+    const existingUser = await this.userRepository.findOne({ where: { email } });
+    if (existingUser) {
+      throw new ConflictException('Um usuário com este email já existe.');
+    }
+    const pending = await this.invitationRepository.findOne({
+      where: { parentUserId, email, acceptedAt: IsNull(), revokedAt: IsNull() },
+    });
+    if (pending) {
+      throw new ConflictException('Já existe um convite pendente para este email. Reenvie-o.');
+    }
+
+    const permissions = await this.subUsersService.normalizePermissions(
+      parentUserId,
+      dto.permissions ?? [],
+    );
+    const token = generateToken();
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        parentUserId,
+        email,
+        name: dto.name?.trim() || null,
+        permissions,
+        tokenHash: hashToken(token),
+        expiresAt: this.getExpiryDate(),
+        lastSentAt: new Date(),
+      }),
+    );
+    const emailSent = await this.sendInvitationEmail(invitation, token);
+    return { ...this.toView(invitation), emailSent };
+  }
+
+  /**
+   * Issues a new token (the previous link stops working), restarts the
+   * expiry and emails the invitee again.
+   */
+  async resend(
+    parentUserId: string,
+    invitationId: string,
+  ): Promise<SubUserInvitationView & { emailSent: boolean }> {
+    const invitation = await this.findPending(parentUserId, invitationId);
+    if (Date.now() - invitation.lastSentAt.getTime() < RESEND_COOLDOWN_MS) {
+      throw new HttpException(
+        'Aguarde um minuto antes de reenviar o convite.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    const token = generateToken();
+    invitation.tokenHash = hashToken(token);
+    invitation.expiresAt = this.getExpiryDate();
+    invitation.lastSentAt = new Date();
+    await this.invitationRepository.save(invitation);
+    const emailSent = await this.sendInvitationEmail(invitation, token);
+    return { ...this.toView(invitation), emailSent };
+  }
+
+  async revoke(parentUserId: string, invitationId: string): Promise<void> {
+    const invitation = await this.findPending(parentUserId, invitationId);
+    invitation.revokedAt = new Date();
+    await this.invitationRepository.save(invitation);
+  }
+
+  // ---- Invitee side (public) ----
+
+  /** What the accept page shows before the invitee sets a password. */
+  async preview(
+    token: string,
+  ): Promise<{ email: string; name: string | null; invitedBy: string; expiresAt: Date }> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { tokenHash: hashToken(token || '') },
+      relations: ['parentUser'],
+    });
+    if (!invitation || !this.isUsable(invitation)) {
+      throw new NotFoundException('Convite inválido ou expirado.');
+    }
+    return {
+      email: invitation.email,
+      name: invitation.name,
+      invitedBy: invitation.parentUser?.name || '',
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Creates the sub-user and consumes the token. The invitation row is
+   * locked so the same token can't create two accounts.
+   */
+  async accept(
+    token: string,
+    dto: AcceptInvitationDto,
+  ): Promise<{ id: string; email: string; name: string }> {
+    const hashedPassword = await bcrypt.hash(dto.password, 10);
+
+    const { invitation, user } = await this.invitationRepository.manager.transaction(
+      async (manager) => {
+        const invitation = await manager.findOne(SubUserInvitation, {
+          where: { tokenHash: hashToken(token || '') },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (!invitation || !this.isUsable(invitation)) {
+          throw new NotFoundException('Convite inválido ou expirado.');
+        }
+        const existingUser = await manager.findOne(User, { where: { email: invitation.email } });
+        if (existingUser) {
+          throw new ConflictException('Um usuário com este email já existe.');
+        }
+        const name = dto.name?.trim() || invitation.name || invitation.email.split('@')[0];
+        const user = await manager.save(
+          manager.create(User, {
+            email: invitation.email,
+            name,
+            password: hashedPassword,
+            role: 'sub_user',
+            parentUserId: invitation.parentUserId,
+            // The invitation link was emailed to this address.
+            emailVerifiedAt: new Date(),
+          }),
+        );
+        invitation.acceptedAt = new Date();
+        invitation.acceptedUserId = user.id;
+        await manager.save(invitation);
+        return { invitation, user };
+      },
+    );
+
+    if (invitation.permissions.length > 0) {
+      // Instances or roles may have been removed since the invite; the parent
+      // can fix permissions afterwards, the account itself is already valid.
+      await this.subUsersService
+        .updatePermissions(invitation.parentUserId, user.id, invitation.permissions)
+        .catch((error) =>
+          this.logger.warn(
+            `Could not apply invitation ${invitation.id} permissions: ${(error as Error).message}`,
+          ),
+        );
+    }
+    return { id: user.id, email: user.email, name: user.name };
+  }
+
+  // ---- Helpers ----
+
+  private async findPending(
+    parentUserId: string,
+    invitationId: string,
+  ): Promise<SubUserInvitation> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { id: invitationId, parentUserId, acceptedAt: IsNull(), revokedAt: IsNull() },
+    });
+    if (!invitation) throw new NotFoundException('Convite não encontrado.');
+    return invitation;
+  }
+
+  private isUsable(invitation: SubUserInvitation): boolean {
+    return (
+      !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt.getTime() > Date.now()
+    );
+  }
+
+  private getExpiryDate(): Date {
+    const hours =
+      Number(this.config.get<string>('SUB_USER_INVITATION_TTL_HOURS')) || DEFAULT_TTL_HOURS;
+    return new Date(Date.now() + hours * 60 * 60 * 1000);
+  }
+
+  /** Returns false instead of throwing: the invitation exists and can be resent. */
+  private async sendInvitationEmail(
+    invitation: SubUserInvitation,
+    token: string,
+  ): Promise<boolean> {
+    const inviter = await this.userRepository.findOne({ where: { id: invitation.parentUserId } });
+    const inviterName = inviter?.name || 'Sua equipe';
+    const link = `${this.mailService.getFrontendUrl()}/invite/${token}`;
+    const expires = invitation.expiresAt.toLocaleString('pt-BR', {
+      timeZone: this.config.get<string>('PROMPT_TIMEZONE') || 'America/Sao_Paulo',
+    });
+    try {
+      await this.mailService.send({
+        to: invitation.email,
+        subject: `${inviterName} convidou você para a equipe`,
+        text: [
+          `Olá${invitation.name ? `, ${invitation.name}` : ''}!`,
+          '',
+          `${inviterName} convidou você para participar da equipe como sub-usuário.`,
+          'Para criar sua senha e aceitar o convite, acesse:',
+          link,
+          '',
+          `O link expira em ${expires}. Se você não esperava este convite, ignore este email.`,
+        ].join('\n'),
+      });
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to send invitation ${invitation.id}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
+  private toView(invitation: SubUserInvitation): SubUserInvitationView {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      name: invitation.name,
+      permissions: invitation.permissions,
+      expiresAt: invitation.expiresAt,
+      expired: invitation.expiresAt.getTime() <= Date.now(),
+      lastSentAt: invitation.lastSentAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
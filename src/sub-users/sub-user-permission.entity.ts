@@ -1,6 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { User } from '../users/user.entity';
 import { Instance } from '../instances/instance.entity';
+import { SubUserCapability, SubUserRole } from './sub-user-role.entity';
 
 @Entity({ name: 'sub_user_permissions' })
 @Index('IDX_sub_user_permissions_unique', ['subUserId', 'instanceId'], { unique: true })
@@ -24,6 +25,19 @@ export class SubUserPermission {
   @JoinColumn({ name: 'instance_id' })
   instance: Instance;
 
+  /** When set, the role's capabilities apply instead of `capabilities`. */
+  @Index()
+  @Column({ name: 'role_id', type: 'uuid', nullable: true })
+  roleId: string | null;
+
+  @ManyToOne(() => SubUserRole, { nullable: true })
+  @JoinColumn({ name: 'role_id' })
+  role: SubUserRole | null;
+
+  /** Capabilities granted directly; defaults to all of them. */
+  @Column({ type: 'jsonb', default: Object.values(SubUserCapability) })
+  capabilities: SubUserCapability[];
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 }
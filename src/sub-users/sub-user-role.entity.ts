@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../users/user.entity';
+
+export enum SubUserCapability {
+  /** Read chats, messages, notes and chat state; write internal notes. */
+  VIEW_CHATS = 'view_chats',
+  /** Send messages and take over chats: bot pause, assignment, status. */
+  SEND_MESSAGES = 'send_messages',
+  /** Change the instance prompt and its variables, restore revisions. */
+  EDIT_PROMPT = 'edit_prompt',
+  MANAGE_WEBHOOK = 'manage_webhook',
+  /** Create and edit categories, tags and rules, move and tag chats. */
+  MANAGE_CATEGORIES = 'manage_categories',
+  /** Import the full message history of an instance. */
+  EXPORT_DATA = 'export_data',
+}
+
+export const SUB_USER_CAPABILITY_LABELS: Record<SubUserCapability, string> = {
+  [SubUserCapability.VIEW_CHATS]: 'Ver conversas',
+  [SubUserCapability.SEND_MESSAGES]: 'Enviar mensagens',
+  [SubUserCapability.EDIT_PROMPT]: 'Editar prompt',
+  [SubUserCapability.MANAGE_WEBHOOK]: 'Configurar webhook',
+  [SubUserCapability.MANAGE_CATEGORIES]: 'Gerenciar categorias',
+  [SubUserCapability.EXPORT_DATA]: 'Exportar dados',
+};
+
+/** A named set of capabilities the parent user can reuse across permissions. */
+@Entity({ name: 'sub_user_roles' })
+@Index('UQ_sub_user_roles_user_name', ['userId', 'name'], { unique: true })
+export class SubUserRole {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** The parent user that owns the role. */
+  @Column({ name: 'user_id', type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'jsonb', default: [] })
+  capabilities: SubUserCapability[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -4,14 +4,21 @@ import {
   Post,
   Delete,
   Put,
+  Patch,
   Param,
   Body,
   Request,
   UseGuards,
   ForbiddenException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { SubUsersService } from './sub-users.service';
+import { SUB_USER_CAPABILITY_LABELS } from './sub-user-role.entity';
 import { PremiumGuard } from '../auth/premium.guard';
+import { CreateSubUserDto } from './dto/create-sub-user.dto';
+import { SubUserRoleDto } from './dto/sub-user-role.dto';
+import { UpdatePermissionsDto } from './dto/update-permissions.dto';
 
 @Controller('sub-users')
 export class SubUsersController {
@@ -45,12 +52,68 @@ export class SubUsersController {
     return this.subUsersService.getParentInstances(parentUserId);
   }
 
-  @Post()
+  /**
+   * The calling sub-user's instances and what they may do on each.
+   */
+  @Get('me/permissions')
+  async getOwnPermissions(@Request() req: any) {
+    if (!req.user.parentUserId) {
+      throw new ForbiddenException('Disponível apenas para sub-usuários.');
+    }
+    return this.subUsersService.getOwnPermissions(req.user.id);
+  }
+
+  // ---- Roles ----
+
+  /** Capability ids with their labels, for the role editor. */
+  @Get('capabilities')
+  @UseGuards(PremiumGuard)
+  getCapabilities(@Request() req: any) {
+    this.ensureParentUser(req);
+    return Object.entries(SUB_USER_CAPABILITY_LABELS).map(([capability, label]) => ({
+      capability,
+      label,
+    }));
+  }
+
+  @Get('roles')
+  @UseGuards(PremiumGuard)
+  async getRoles(@Request() req: any) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.subUsersService.getRoles(parentUserId);
+  }
+
+  @Post('roles')
+  @UseGuards(PremiumGuard)
+  async createRole(@Request() req: any, @Body() body: SubUserRoleDto) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.subUsersService.createRole(parentUserId, body);
+  }
+
+  @Patch('roles/:roleId')
   @UseGuards(PremiumGuard)
-  async createSubUser(
+  async updateRole(
     @Request() req: any,
-    @Body() body: { email: string; name: string; password: string },
+    @Param('roleId') roleId: string,
+    @Body() body: SubUserRoleDto,
   ) {
+    const parentUserId = this.ensureParentUser(req);
+    return this.subUsersService.updateRole(parentUserId, roleId, body);
+  }
+
+  @Delete('roles/:roleId')
+  @UseGuards(PremiumGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteRole(@Request() req: any, @Param('roleId') roleId: string) {
+    const parentUserId = this.ensureParentUser(req);
+    await this.subUsersService.deleteRole(parentUserId, roleId);
+  }
+
+  // ---- Sub-users ----
+
+  @Post()
+  @UseGuards(PremiumGuard)
+  async createSubUser(@Request() req: any, @Body() body: CreateSubUserDto) {
     const parentUserId = this.ensureParentUser(req);
     return this.subUsersService.createSubUser(parentUserId, body);
   }
@@ -70,14 +133,20 @@ export class SubUsersController {
     return this.subUsersService.getPermissions(parentUserId, id);
   }
 
+  /**
+   * Replaces the sub-user's permissions. Body is either
+   * `{ permissions: [{ instanceId, roleId?, capabilities? }] }` or the older
+   * `{ instanceIds }`, which grants every capability on each instance.
+   */
   @Put(':id/permissions')
   @UseGuards(PremiumGuard)
   async updatePermissions(
     @Request() req: any,
     @Param('id') id: string,
-    @Body() body: { instanceIds: string[] },
+    @Body() body: UpdatePermissionsDto,
   ) {
     const parentUserId = this.ensureParentUser(req);
-    return this.subUsersService.updatePermissions(parentUserId, id, body.instanceIds);
+    const entries = body.permissions ?? body.instanceIds.map((instanceId) => ({ instanceId }));
+    return this.subUsersService.updatePermissions(parentUserId, id, entries);
   }
 }
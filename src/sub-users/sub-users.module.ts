@@ -3,17 +3,23 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { User } from '../users/user.entity';
 import { Instance } from '../instances/instance.entity';
 import { SubUserPermission } from './sub-user-permission.entity';
+import { SubUserRole } from './sub-user-role.entity';
+import { SubUserInvitation } from './sub-user-invitation.entity';
 import { SubUsersService } from './sub-users.service';
+import { SubUserInvitationsService } from './sub-user-invitations.service';
 import { SubUsersController } from './sub-users.controller';
+import { SubUserInvitationsController } from './sub-user-invitations.controller';
 import { SubscriptionsModule } from '../subscriptions/subscriptions.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([User, Instance, SubUserPermission]),
+    TypeOrmModule.forFeature([User, Instance, SubUserPermission, SubUserRole, SubUserInvitation]),
     SubscriptionsModule,
+    MailModule,
   ],
-  providers: [SubUsersService],
-  controllers: [SubUsersController],
+  providers: [SubUsersService, SubUserInvitationsService],
+  controllers: [SubUsersController, SubUserInvitationsController],
   exports: [SubUsersService, TypeOrmModule],
 })
 export class SubUsersModule {}
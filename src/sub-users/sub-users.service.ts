@@ -1,10 +1,21 @@
-import { Injectable, ForbiddenException, NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  ForbiddenException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository, In } from 'typeorm';
 import { User } from '../users/user.entity';
 import { SubUserPermission } from './sub-user-permission.entity';
+import { SubUserCapability, SubUserRole } from './sub-user-role.entity';
 import { Instance } from '../instances/instance.entity';
 import * as bcrypt from 'bcrypt';
+import { SubUserPermissionInput } from './dto/sub-user-permission-input.dto';
+import { SubUserRoleDto } from './dto/sub-user-role.dto';
+import { validationException } from '../common/validation.pipe';
+
+const ALL_CAPABILITIES = Object.values(SubUserCapability);
 
 @Injectable()
 export class SubUsersService {
@@ -15,6 +26,8 @@ export class SubUsersService {
     private readonly permissionRepository: Repository<SubUserPermission>,
     @InjectRepository(Instance)
     private readonly instanceRepository: Repository<Instance>,
+    @InjectRepository(SubUserRole)
+    private readonly roleRepository: Repository<SubUserRole>,
   ) {}
 
   /**
@@ -68,6 +81,8 @@ export class SubUsersService {
       password: hashedPassword,
       role: 'sub_user',
       parentUserId,
+      // The parent chose this address; the sub-user has no way to confirm it.
+      emailVerifiedAt: new Date(),
     });
 
     const saved = await this.userRepository.save(subUser);
@@ -109,12 +124,15 @@ export class SubUsersService {
 
     const permissions = await this.permissionRepository.find({
       where: { subUserId },
-      relations: ['instance'],
+      relations: ['instance', 'role'],
     });
 
     return permissions.map((p) => ({
       instanceId: p.instanceId,
       instanceName: p.instance?.name || null,
+      roleId: p.roleId,
+      roleName: p.role?.name || null,
+      capabilities: this.getEffectiveCapabilities(p),
     }));
   }
 
@@ -124,7 +142,7 @@ export class SubUsersService {
   async updatePermissions(
     parentUserId: string,
     subUserId: string,
-    instanceIds: string[],
+    entries: SubUserPermissionInput[],
   ): Promise<any[]> {
     // Verify sub-user belongs to parent
     const subUser = await this.userRepository.findOne({
@@ -133,32 +151,62 @@ export class SubUsersService {
     if (!subUser) {
       throw new NotFoundException('Sub-usuário não encontrado.');
     }
+    const normalized = await this.normalizePermissions(parentUserId, entries);
+    const newPermissions = normalized.map((entry) =>
+      this.permissionRepository.create({ subUserId, ...entry }),
+    );
+
+    // Remove existing permissions
+    await this.permissionRepository.delete({ subUserId });
+
+    // Create new permissions
+    if (newPermissions.length > 0) {
+      await this.permissionRepository.save(newPermissions);
+    }
 
+    // Return updated permissions
+    return this.getPermissions(parentUserId, subUserId);
+  }
+
+  /**
+   * Checks that the instances and roles belong to the parent and fills in
+   * the capabilities. Later entries for the same instance are ignored.
+   */
+  async normalizePermissions(
+    parentUserId: string,
+    entries: SubUserPermissionInput[],
+  ): Promise<Required<SubUserPermissionInput>[]> {
     // Verify all instances belong to the parent user
+    const instanceIds = [...new Set(entries.map((e) => e.instanceId))];
     if (instanceIds.length > 0) {
       const instances = await this.instanceRepository.find({
         where: { id: In(instanceIds), userId: parentUserId },
       });
       if (instances.length !== instanceIds.length) {
-        throw new ForbiddenException(
-          'Algumas instâncias não pertencem a você.',
-        );
+        throw new ForbiddenException('Algumas instâncias não pertencem a você.');
       }
     }
 
-    // Remove existing permissions
-    await this.permissionRepository.delete({ subUserId });
-
-    // Create new permissions
-    if (instanceIds.length > 0) {
-      const newPermissions = instanceIds.map((instanceId) =>
-        this.permissionRepository.create({ subUserId, instanceId }),
-      );
-      await this.permissionRepository.save(newPermissions);
+    // Verify all roles belong to the parent user
+    const roleIds = [...new Set(entries.map((e) => e.roleId).filter((id): id is string => !!id))];
+    if (roleIds.length > 0) {
+      const roleCount = await this.roleRepository.count({
+        where: { id: In(roleIds), userId: parentUserId },
+      });
+      if (roleCount !== roleIds.length) {
+        throw new NotFoundException('Função não encontrada.');
+      }
     }
 
-    // Return updated permissions
-    return this.getPermissions(parentUserId, subUserId);
+    return instanceIds.map((instanceId) => {
+      const entry = entries.find((e) => e.instanceId === instanceId)!;
+      return {
+        instanceId,
+        roleId: entry.roleId || null,
+        capabilities:
+          entry.capabilities == null ? ALL_CAPABILITIES : [...new Set(entry.capabilities)],
+      };
+    });
   }
 
   /**
@@ -192,6 +240,53 @@ export class SubUsersService {
     return !!permission;
   }
 
+  /**
+   * Capabilities of a sub-user on an instance, or null without access.
+   * Instances without a DB record grant everything, like
+   * hasPermissionForInstance.
+   */
+  async getCapabilitiesForInstance(
+    subUserId: string,
+    instanceName: string,
+    ownerUserId: string,
+  ): Promise<SubUserCapability[] | null> {
+    const instance = await this.instanceRepository.findOne({
+      where: { name: instanceName, userId: ownerUserId },
+    });
+    if (!instance) return ALL_CAPABILITIES;
+    const permission = await this.permissionRepository.findOne({
+      where: { subUserId, instanceId: instance.id },
+      relations: ['role'],
+    });
+    return permission ? this.getEffectiveCapabilities(permission) : null;
+  }
+
+  async hasCapabilityForInstance(
+    subUserId: string,
+    instanceName: string,
+    ownerUserId: string,
+    capability: SubUserCapability,
+  ): Promise<boolean> {
+    const capabilities = await this.getCapabilitiesForInstance(
+      subUserId,
+      instanceName,
+      ownerUserId,
+    );
+    return !!capabilities?.includes(capability);
+  }
+
+  /**
+   * For account-wide features (e.g. categories): true when any of the
+   * sub-user's permissions grants the capability.
+   */
+  async hasCapability(subUserId: string, capability: SubUserCapability): Promise<boolean> {
+    const permissions = await this.permissionRepository.find({
+      where: { subUserId },
+      relations: ['role'],
+    });
+    return permissions.some((p) => this.getEffectiveCapabilities(p).includes(capability));
+  }
+
   /**
    * Get the list of instances belonging to the parent user (for the permissions UI)
    */
@@ -205,4 +300,91 @@ export class SubUsersService {
       name: i.name,
     }));
   }
+
+  /**
+   * The sub-user's own permissions, so clients can hide what the role
+   * doesn't allow.
+   */
+  async getOwnPermissions(subUserId: string): Promise<any[]> {
+    const permissions = await this.permissionRepository.find({
+      where: { subUserId },
+      relations: ['instance', 'role'],
+    });
+    return permissions.map((p) => ({
+      instanceName: p.instance?.name || null,
+      roleName: p.role?.name || null,
+      capabilities: this.getEffectiveCapabilities(p),
+    }));
+  }
+
+  // ---- Roles ----
+
+  async getRoles(parentUserId: string): Promise<SubUserRole[]> {
+    return this.roleRepository.find({
+      where: { userId: parentUserId },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async createRole(parentUserId: string, dto: SubUserRoleDto): Promise<SubUserRole> {
+    const role = this.roleRepository.create({ userId: parentUserId });
+    await this.applyRole(role, dto, true);
+    return this.roleRepository.save(role);
+  }
+
+  async updateRole(
+    parentUserId: string,
+    roleId: string,
+    dto: SubUserRoleDto,
+  ): Promise<SubUserRole> {
+    const role = await this.findRole(parentUserId, roleId);
+    await this.applyRole(role, dto, false);
+    return this.roleRepository.save(role);
+  }
+
+  /**
+   * Roles still used by a permission can't be deleted; reassign those
+   * permissions first.
+   */
+  async deleteRole(parentUserId: string, roleId: string): Promise<void> {
+    const role = await this.findRole(parentUserId, roleId);
+    const inUse = await this.permissionRepository.count({ where: { roleId } });
+    if (inUse > 0) {
+      throw new ConflictException(
+        `A função "${role.name}" está em uso por ${inUse} permissão(ões).`,
+      );
+    }
+    await this.roleRepository.remove(role);
+  }
+
+  private async findRole(parentUserId: string, roleId: string): Promise<SubUserRole> {
+    const role = await this.roleRepository.findOne({
+      where: { id: roleId, userId: parentUserId },
+    });
+    if (!role) throw new NotFoundException('Função não encontrada.');
+    return role;
+  }
+
+  private async applyRole(role: SubUserRole, dto: SubUserRoleDto, isNew: boolean): Promise<void> {
+    if (dto.name !== undefined || isNew) {
+      const name = dto.name?.trim();
+      if (!name) throw validationException('name', 'Field "name" is required.');
+      if (name !== role.name) {
+        const taken = await this.roleRepository.existsBy({ userId: role.userId, name });
+        if (taken) throw new ConflictException(`A função "${name}" já existe.`);
+      }
+      role.name = name;
+    }
+    if (dto.capabilities !== undefined || isNew) {
+      if (!dto.capabilities) {
+        throw validationException('capabilities', 'Field "capabilities" is required.');
+      }
+      role.capabilities = [...new Set(dto.capabilities)];
+    }
+  }
+
+  private getEffectiveCapabilities(permission: SubUserPermission): SubUserCapability[] {
+    if (permission.roleId && permission.role) return permission.role.capabilities;
+    return permission.capabilities ?? ALL_CAPABILITIES;
+  }
 }
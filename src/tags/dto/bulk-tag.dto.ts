@@ -0,0 +1,20 @@
+import { Type } from 'class-transformer';
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsUUID, ValidateNested } from 'class-validator';
+import { ChatRefDto } from '../../common/dto/chat-ref.dto';
+
+/** Upper bound of chats touched by one bulk request. */
+const MAX_BULK_CHATS = 1000;
+
+export class BulkTagDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  tagIds: string[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(MAX_BULK_CHATS)
+  @ValidateNested({ each: true })
+  @Type(() => ChatRefDto)
+  chats: ChatRefDto[];
+}
@@ -0,0 +1,12 @@
+import { IsHexColor, IsOptional, IsString } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+export class CreateTagDto {
+  @IsString()
+  @IsNotBlank()
+  name: string;
+
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+}
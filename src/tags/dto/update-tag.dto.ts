@@ -0,0 +1,13 @@
+import { IsHexColor, IsOptional, IsString } from 'class-validator';
+import { IsNotBlank } from '../../common/is-not-blank.decorator';
+
+export class UpdateTagDto {
+  @IsOptional()
+  @IsString()
+  @IsNotBlank()
+  name?: string;
+
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+}
@@ -0,0 +1,120 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Request,
+  HttpCode,
+  HttpStatus,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ChatRef, TagsService } from './tags.service';
+import { SubUsersService } from '../sub-users/sub-users.service';
+import { SubUserCapability } from '../sub-users/sub-user-role.entity';
+import { BulkTagDto } from './dto/bulk-tag.dto';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+
+@Controller('tags')
+export class TagsController {
+  constructor(
+    private readonly tagsService: TagsService,
+    private readonly subUsersService: SubUsersService,
+  ) {}
+
+  /**
+   * Returns the effective userId, using the parent's id for sub-users.
+   */
+  private getEffectiveUserId(req: any): string {
+    return req.user.parentUserId || req.user.id;
+  }
+
+  /** Tags are managed like categories: sub-users need MANAGE_CATEGORIES. */
+  private async ensureCanManageTags(req: any): Promise<void> {
+    if (!req.user.parentUserId) return;
+    const allowed = await this.subUsersService.hasCapability(
+      req.user.id,
+      SubUserCapability.MANAGE_CATEGORIES,
+    );
+    if (!allowed) {
+      throw new ForbiddenException('Você não tem permissão para gerenciar tags.');
+    }
+  }
+
+  /**
+   * For sub-users, checks MANAGE_CATEGORIES on every instance the chats
+   * belong to.
+   */
+  private async ensureSubUserPermission(req: any, chats: ChatRef[]): Promise<void> {
+    if (!req.user.parentUserId) return;
+    for (const instanceName of new Set(chats.map((chat) => chat.instanceName))) {
+      const hasPermission = await this.subUsersService.hasCapabilityForInstance(
+        req.user.id,
+        instanceName,
+        req.user.parentUserId,
+        SubUserCapability.MANAGE_CATEGORIES,
+      );
+      if (!hasPermission) {
+        throw new ForbiddenException('Você não tem permissão para acessar esta instância.');
+      }
+    }
+  }
+
+  // ---- Tags CRUD ----
+
+  @Get()
+  async findAll(@Request() req: any) {
+    return this.tagsService.findAll(this.getEffectiveUserId(req));
+  }
+
+  @Post()
+  async create(@Request() req: any, @Body() body: CreateTagDto) {
+    await this.ensureCanManageTags(req);
+    return this.tagsService.create(this.getEffectiveUserId(req), body);
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Request() req: any, @Body() body: UpdateTagDto) {
+    await this.ensureCanManageTags(req);
+    return this.tagsService.update(id, this.getEffectiveUserId(req), body);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async delete(@Param('id') id: string, @Request() req: any) {
+    await this.ensureCanManageTags(req);
+    await this.tagsService.delete(id, this.getEffectiveUserId(req));
+  }
+
+  // ---- Bulk tagging ----
+
+  /**
+   * POST /tags/bulk-tag
+   *
+   * Body: { tagIds: string[], chats: { instanceName, remoteJid }[] }
+   */
+  @Post('bulk-tag')
+  async bulkTag(@Request() req: any, @Body() body: BulkTagDto) {
+    await this.ensureSubUserPermission(req, body.chats);
+    return this.tagsService.bulkTag(
+      this.getEffectiveUserId(req),
+      body.tagIds,
+      body.chats,
+      req.user.id,
+    );
+  }
+
+  /**
+   * POST /tags/bulk-untag
+   *
+   * Body: { tagIds: string[], chats: { instanceName, remoteJid }[] }
+   */
+  @Post('bulk-untag')
+  async bulkUntag(@Request() req: any, @Body() body: BulkTagDto) {
+    await this.ensureSubUserPermission(req, body.chats);
+    return this.tagsService.bulkUntag(this.getEffectiveUserId(req), body.tagIds, body.chats);
+  }
+}
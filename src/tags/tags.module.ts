@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Tag } from './tag.entity';
+import { ChatTag } from './chat-tag.entity';
+import { TagsService } from './tags.service';
+import { TagsController } from './tags.controller';
+import { SubUsersModule } from '../sub-users/sub-users.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Tag, ChatTag]), SubUsersModule],
+  controllers: [TagsController],
+  providers: [TagsService],
+  exports: [TagsService],
+})
+export class TagsModule {}
@@ -0,0 +1,162 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Tag } from './tag.entity';
+import { ChatTag } from './chat-tag.entity';
+import { normalizeJid } from '../messages/jid.utils';
+
+export interface ChatRef {
+  instanceName: string;
+  remoteJid: string;
+}
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+@Injectable()
+export class TagsService {
+  constructor(
+    @InjectRepository(Tag)
+    private readonly tagRepo: Repository<Tag>,
+    @InjectRepository(ChatTag)
+    private readonly chatTagRepo: Repository<ChatTag>,
+  ) {}
+
+  // ---- Tags CRUD ----
+
+  /** Tags of the user with the number of chats carrying each one. */
+  async findAll(userId: string): Promise<(Tag & { chatCount: number })[]> {
+    const tags = await this.tagRepo.find({ where: { userId }, order: { name: 'ASC' } });
+    const counts: { tag_id: string; count: string }[] = await this.chatTagRepo
+      .createQueryBuilder('ct')
+      .select('ct.tag_id', 'tag_id')
+      .addSelect('COUNT(*)', 'count')
+      .where('ct.user_id = :userId', { userId })
+      .groupBy('ct.tag_id')
+      .getRawMany();
+    const countByTag = new Map(counts.map((c) => [c.tag_id, Number(c.count)]));
+    return tags.map((tag) => ({ ...tag, chatCount: countByTag.get(tag.id) ?? 0 }));
+  }
+
+  async create(userId: string, dto: { name: string; color?: string }): Promise<Tag> {
+    const name = dto.name.trim();
+    await this.ensureNameAvailable(userId, name);
+    return this.tagRepo.save(this.tagRepo.create({ userId, name, color: dto.color || null }));
+  }
+
+  async update(id: string, userId: string, dto: { name?: string; color?: string }): Promise<Tag> {
+    const tag = await this.findOne(id, userId);
+    if (dto.name !== undefined) {
+      const name = dto.name.trim();
+      if (name.toLowerCase() !== tag.name.toLowerCase()) {
+        await this.ensureNameAvailable(userId, name);
+      }
+      tag.name = name;
+    }
+    if (dto.color !== undefined) tag.color = dto.color || null;
+    return this.tagRepo.save(tag);
+  }
+
+  async delete(id: string, userId: string): Promise<void> {
+    const tag = await this.findOne(id, userId);
+    await this.tagRepo.remove(tag);
+  }
+
+  async findOne(id: string, userId: string): Promise<Tag> {
+    const tag = await this.tagRepo.findOne({ where: { id, userId } });
+    if (!tag) throw new NotFoundException('Tag não encontrada');
+    return tag;
+  }
+
+  // ---- Chat tagging ----
+
+  /**
+   * Tags of every tagged chat of the user, keyed by
+   * `${instanceName}|${canonicalJid}`.
+   */
+  async getTagsByChat(userId: string): Promise<Map<string, TagSummary[]>> {
+    const chatTags = await this.chatTagRepo.find({ where: { userId }, relations: ['tag'] });
+    const result = new Map<string, TagSummary[]>();
+    for (const chatTag of chatTags) {
+      const key = `${chatTag.instanceName}|${chatTag.remoteJid}`;
+      const tags = result.get(key) ?? [];
+      tags.push({ id: chatTag.tag.id, name: chatTag.tag.name, color: chatTag.tag.color });
+      result.set(key, tags);
+    }
+    return result;
+  }
+
+  /** Applies every tag in `tagIds` to every chat; already-tagged chats are left alone. */
+  async bulkTag(
+    userId: string,
+    tagIds: string[],
+    chats: ChatRef[],
+    createdByUserId: string,
+  ): Promise<{ tagged: number }> {
+    await this.ensureTagsOwned(userId, tagIds);
+    const refs = this.parseChats(chats);
+    const rows = tagIds.flatMap((tagId) =>
+      refs.map((chat) => ({ tagId, userId, createdByUserId, ...chat })),
+    );
+    let tagged = 0;
+    // Rows are written in chunks to stay well below Postgres' parameter limit.
+    for (let i = 0; i < rows.length; i += 500) {
+      const result = await this.chatTagRepo
+        .createQueryBuilder()
+        .insert()
+        .values(rows.slice(i, i + 500))
+        .orIgnore()
+        .execute();
+      tagged += result.raw?.length ?? 0;
+    }
+    return { tagged };
+  }
+
+  async bulkUntag(
+    userId: string,
+    tagIds: string[],
+    chats: ChatRef[],
+  ): Promise<{ untagged: number }> {
+    await this.ensureTagsOwned(userId, tagIds);
+    let untagged = 0;
+    for (const chat of this.parseChats(chats)) {
+      const result = await this.chatTagRepo.delete({
+        userId,
+        tagId: In(tagIds),
+        instanceName: chat.instanceName,
+        remoteJid: chat.remoteJid,
+      });
+      untagged += result.affected ?? 0;
+    }
+    return { untagged };
+  }
+
+  // ---- Helpers ----
+
+  private async ensureNameAvailable(userId: string, name: string): Promise<void> {
+    const existing = await this.tagRepo
+      .createQueryBuilder('t')
+      .where('t.user_id = :userId', { userId })
+      .andWhere('LOWER(t.name) = LOWER(:name)', { name })
+      .getOne();
+    if (existing) throw new ConflictException(`A tag "${existing.name}" já existe.`);
+  }
+
+  private async ensureTagsOwned(userId: string, tagIds: string[]): Promise<void> {
+    const count = await this.tagRepo.count({ where: { userId, id: In(tagIds) } });
+    if (count !== new Set(tagIds).size) throw new NotFoundException('Tag não encontrada');
+  }
+
+  /** Normalizes the JIDs and drops duplicate chats. */
+  private parseChats(chats: ChatRef[]): ChatRef[] {
+    const unique = new Map<string, ChatRef>();
+    for (const chat of chats) {
+      const ref = { instanceName: chat.instanceName, remoteJid: normalizeJid(chat.remoteJid) };
+      unique.set(`${ref.instanceName}|${ref.remoteJid}`, ref);
+    }
+    return [...unique.values()];
+  }
+}
@@ -17,6 +17,14 @@ export class User {
   @Column({ default: 'user' })
   role: string;
 
+  /** Null until the user opens the link from the verification email. */
+  @Column({ name: 'email_verified_at', type: 'timestamp', nullable: true })
+  emailVerifiedAt: Date | null;
+
+  /** Access tokens issued before this moment are rejected (password reset/change). */
+  @Column({ name: 'password_changed_at', type: 'timestamp', nullable: true })
+  passwordChangedAt: Date | null;
+
   @Index()
   @Column({ name: 'parent_user_id', type: 'uuid', nullable: true })
   parentUserId: string | null;
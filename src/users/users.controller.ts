@@ -1,6 +1,7 @@
 import { Body, Controller, Get, Post } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { User } from './user.entity';
+import { CreateUserDto } from './dto/create-user.dto';
 
 @Controller('users')
 export class UsersController {
@@ -12,9 +13,7 @@ export class UsersController {
   }
 
   @Post()
-  async create(
-    @Body() body: { email: string; name: string },
-  ): Promise<User> {
+  async create(@Body() body: CreateUserDto): Promise<User> {
     return this.usersService.create(body);
   }
 }
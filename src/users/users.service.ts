@@ -4,6 +4,19 @@ import { Repository } from 'typeorm';
 import { User } from './user.entity';
 import * as bcrypt from 'bcrypt';
 
+/** Columns loaded when the password hash is needed (it is not selected by default). */
+const WITH_PASSWORD: (keyof User)[] = [
+  'id',
+  'email',
+  'name',
+  'password',
+  'role',
+  'parentUserId',
+  'passwordChangedAt',
+  'createdAt',
+  'updatedAt',
+];
+
 @Injectable()
 export class UsersService {
   constructor(
@@ -23,8 +36,32 @@ export class UsersService {
   async findByEmail(email: string): Promise<User | null> {
     return this.userRepository.findOne({ 
       where: { email },
-      select: ['id', 'email', 'name', 'password', 'role', 'parentUserId', 'createdAt', 'updatedAt']
+      select: WITH_PASSWORD,
+    });
+  }
+
+  async findById(id: string): Promise<User | null> {
+    return this.userRepository.findOne({ where: { id } });
+  }
+
+  async findByIdWithPassword(id: string): Promise<User | null> {
+    return this.userRepository.findOne({
+      where: { id },
+      select: WITH_PASSWORD,
+    });
+  }
+
+  /**
+   * Stores a new password and stamps `passwordChangedAt`, which invalidates
+   * every access token issued before it.
+   */
+  async updatePassword(id: string, password: string): Promise<Date> {
+    const passwordChangedAt = new Date();
+    await this.userRepository.update(id, {
+      password: await bcrypt.hash(password, 10),
+      passwordChangedAt,
     });
+    return passwordChangedAt;
   }
 
   async createWithPassword(email: string, name: string, password: string): Promise<User> {